@@ -3,12 +3,32 @@ import 'dotenv/config';
 
 import chalk from 'chalk';
 import { Command } from 'commander';
+import { readFileSync } from 'node:fs';
 import { createRequire } from 'node:module';
+import path from 'node:path';
 import ora from 'ora';
 
+import { DEFAULT_BOILERPLATE_DIR } from '../corpus/boilerplate.js';
+import { CHUNKING_STRATEGIES, type ChunkingStrategy } from '../corpus/chunkers.js';
+import { CircularId } from '../corpus/circular-id.js';
+import { parseSEBIDate } from '../corpus/date-parser.js';
 import { EmbeddingGenerator } from '../corpus/embedder.js';
-import { CorpusIngestion, type IngestionSummary } from '../corpus/ingest.js';
+import { DiskEmbeddingCache } from '../corpus/embedding-cache.js';
+import {
+  EMBEDDING_PROVIDERS,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+  createEmbeddingProvider,
+} from '../corpus/embedding-provider.js';
+import {
+  CorpusIngestion,
+  type IngestionProgressEvent,
+  type IngestionRunOptions,
+  type IngestionSummary,
+} from '../corpus/ingest.js';
+import { type LanguageMode } from '../corpus/language.js';
 import { QdrantManager } from '../corpus/qdrant-client.js';
+import { DEFAULT_VOCABULARY_DIR } from '../corpus/sparse-vectors.js';
 
 import type { SEBICategory, SEBIDocument } from '../types/sebi-document.js';
 
@@ -16,6 +36,7 @@ const require = createRequire(import.meta.url);
 const pkg = require('../../package.json') as { version?: string };
 
 const CATEGORY_OPTIONS: SEBICategory[] = ['mutual_funds', 'portfolio_managers', 'invits', 'reits', 'general'];
+const LANGUAGE_OPTIONS: LanguageMode[] = ['en', 'hi', 'both'];
 
 const program = new Command();
 program
@@ -29,27 +50,66 @@ program
   .option('--circular-id <id>', 'Override circular identifier')
   .option('--category <category>', 'Regulatory category')
   .option('--title <title>', 'Document title override')
-  .option('--date <date>', 'Issue date (YYYY-MM-DD)')
+  .option('--date <date>', 'Issue date (YYYY-MM-DD or DD/MM/YYYY)')
   .option('--url <url>', 'Source URL override')
+  .option('--language <language>', 'Language to ingest from bilingual PDFs (en, hi or both)')
+  .option('--parent-tokens <tokens>', 'Store section spans of up to this many tokens as context for each chunk')
+  .option('--chunker <strategy>', `Chunking strategy (${CHUNKING_STRATEGIES.join(', ')}; default section)`)
+  .option('--dry-run', 'Count tokens and estimate embedding cost without embedding or storing anything')
   .description('Ingest a single PDF into the configured Qdrant collection')
   .action(async (pdf: string, options: FileOptions) => {
-    const ingestion = createIngestion();
+    const ingestion = createIngestion({
+      language: parseLanguage(options.language),
+      parentMaxTokens: parseParentTokens(options.parentTokens),
+      chunkingStrategy: parseChunkingStrategy(options.chunker),
+      dryRun: options.dryRun,
+    });
     const metadata = buildMetadataOverrides(options);
-    const summary = await runWithSpinner(`Ingesting ${pdf}`, () => ingestion.ingestPDF(pdf, metadata));
+    const summary = await runWithProgress(`${options.dryRun ? 'Estimating' : 'Ingesting'} ${pdf}`, (run) =>
+      ingestion.ingestPDF(pdf, metadata, run),
+    );
 
     printSummary(summary);
+    if (options.dryRun) {
+      printCostEstimate(ingestion, [summary]);
+    }
   });
 
 program
   .command('ingest-dir')
   .argument('<directory>', 'Directory tree containing SEBI PDFs')
   .option('--source <path>', 'Override the base source path for relative files')
+  .option('--language <language>', 'Language to ingest from bilingual PDFs (en, hi or both)')
+  .option('--parent-tokens <tokens>', 'Store section spans of up to this many tokens as context for each chunk')
+  .option('--chunker <strategy>', `Chunking strategy (${CHUNKING_STRATEGIES.join(', ')}; default section)`)
+  .option('--dry-run', 'Count tokens and estimate embedding cost without embedding or storing anything')
   .description('Batch-ingest every PDF found under the provided directory (recursively)')
-  .action(async (directory: string, options: { source?: string }) => {
-    const ingestion = createIngestion({ sourcePath: options.source });
-    const summary = await runWithSpinner(`Ingesting directory ${directory}`, () => ingestion.ingestDirectory(directory));
+  .action(async (directory: string, options: DirectoryOptions) => {
+    const ingestion = createIngestion({
+      sourcePath: options.source,
+      language: parseLanguage(options.language),
+      parentMaxTokens: parseParentTokens(options.parentTokens),
+      chunkingStrategy: parseChunkingStrategy(options.chunker),
+      dryRun: options.dryRun,
+    });
+    const summary = await runWithProgress(`${options.dryRun ? 'Estimating' : 'Ingesting'} directory ${directory}`, (run) =>
+      ingestion.ingestDirectory(directory, run),
+    );
 
-    console.log(chalk.green(`✔ Ingested ${summary.successCount}/${summary.totalFiles} files`));
+    const chunkCount = summary.summaries.reduce((sum, file) => sum + file.chunkCount, 0);
+    console.log(
+      chalk.green(
+        options.dryRun
+          ? `✔ Estimated ${summary.successCount}/${summary.totalFiles} files (${chunkCount} chunks)`
+          : `✔ Ingested ${summary.successCount}/${summary.totalFiles} files`,
+      ),
+    );
+    if (summary.cancelled) {
+      console.warn(chalk.yellow(`⚠ Cancelled; ${summary.totalFiles - summary.summaries.length - summary.failureCount} files were not processed`));
+    }
+    if (options.dryRun) {
+      printCostEstimate(ingestion, summary.summaries);
+    }
     if (summary.failureCount > 0) {
       console.error(chalk.red(`✖ ${summary.failureCount} files failed to ingest:`));
       summary.failures.forEach((failure) => {
@@ -65,10 +125,29 @@ program
   .description('Delete and re-ingest chunks for a specific circular')
   .action(async (circularId: string, pdf: string) => {
     const ingestion = createIngestion();
-    const summary = await runWithSpinner(`Updating ${circularId}`, () => ingestion.updateCorpus(circularId, pdf));
+    const summary = await runWithProgress(`Updating ${circularId}`, (run) => ingestion.updateCorpus(circularId, pdf, run));
     printSummary(summary);
   });
 
+program
+  .command('reembed')
+  .option('--circular-id <id>', 'Only re-embed chunks of this circular')
+  .option('--category <category>', 'Only re-embed chunks of this category')
+  .description('Re-embed stored chunks with the current embedding provider and template')
+  .action(async (options: { circularId?: string; category?: SEBICategory }) => {
+    if (options.category && !CATEGORY_OPTIONS.includes(options.category)) {
+      throw new Error(`Invalid category: ${options.category}`);
+    }
+
+    const ingestion = createIngestion();
+    const summary = await runWithSpinner('Re-embedding chunks', () =>
+      ingestion.reembedCorpus({ circularId: options.circularId, category: options.category }),
+    );
+
+    console.log(chalk.green(`✔ Re-embedded ${summary.chunkCount} chunks`));
+    console.log(`  duration: ${(summary.durationMs / 1000).toFixed(2)}s`);
+  });
+
 program
   .command('stats')
   .description('Display collection statistics from Qdrant')
@@ -80,35 +159,106 @@ program
     Object.entries(stats.categories).forEach(([category, count]) => {
       console.log(`  • ${category}: ${count}`);
     });
+    if (stats.totalChunks > 0) {
+      const share = ((stats.boilerplateChunks / stats.totalChunks) * 100).toFixed(1);
+      console.log(`Boilerplate chunks: ${stats.boilerplateChunks} (${share}%)`);
+    }
     if (stats.latestIngestion) {
       console.log(`Latest ingestion: ${stats.latestIngestion}`);
     }
   });
 
+const cache = program.command('cache').description('Inspect and manage the on-disk embedding cache');
+
+cache
+  .command('stats')
+  .option('--dir <path>', 'Cache directory (default: EMBEDDING_CACHE_DIR or ~/.cache/sebi-corpus/embeddings)')
+  .description('Show cached embeddings per provider and model')
+  .action(async (options: CacheOptions) => {
+    const stats = await createDiskCache(options.dir).stats();
+
+    console.log(chalk.cyan(`Cache directory: ${stats.directory}`));
+    console.log(`Entries: ${stats.entries}`);
+    console.log(`Size: ${formatMegabytes(stats.sizeBytes)} of ${formatMegabytes(stats.maxSizeBytes)}`);
+    Object.entries(stats.namespaces).forEach(([namespace, summary]) => {
+      console.log(`  • ${namespace}: ${summary.entries} (${formatMegabytes(summary.sizeBytes)})`);
+    });
+    if (stats.oldestAccess && stats.newestAccess) {
+      console.log(`Last used: ${stats.oldestAccess.toISOString()} – ${stats.newestAccess.toISOString()}`);
+    }
+  });
+
+cache
+  .command('prune')
+  .option('--dir <path>', 'Cache directory (default: EMBEDDING_CACHE_DIR or ~/.cache/sebi-corpus/embeddings)')
+  .option('--max-size <mb>', 'Evict least recently used entries until the cache fits in this many MB')
+  .option('--unused-days <days>', 'Remove entries not used in this many days')
+  .description('Evict old or least recently used embeddings')
+  .action(async (options: CacheOptions & { maxSize?: string; unusedDays?: string }) => {
+    const maxSizeBytes = options.maxSize ? parsePositiveNumber(options.maxSize, 'max size') * 1024 ** 2 : undefined;
+    const unusedSince = options.unusedDays
+      ? new Date(Date.now() - parsePositiveNumber(options.unusedDays, 'unused days') * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const result = await createDiskCache(options.dir).prune({ maxSizeBytes, unusedSince });
+    console.log(chalk.green(`✔ Removed ${result.removed} entries (${formatMegabytes(result.freedBytes)})`));
+  });
+
+cache
+  .command('clear')
+  .option('--dir <path>', 'Cache directory (default: EMBEDDING_CACHE_DIR or ~/.cache/sebi-corpus/embeddings)')
+  .description('Delete every cached embedding')
+  .action(async (options: CacheOptions) => {
+    const removed = await createDiskCache(options.dir).clear();
+    console.log(chalk.green(`✔ Removed ${removed} entries`));
+  });
+
+interface CacheOptions {
+  dir?: string;
+}
+
 interface FileOptions {
   circularId?: string;
   category?: SEBICategory;
   title?: string;
   date?: string;
   url?: string;
+  language?: string;
+  parentTokens?: string;
+  chunker?: string;
+  dryRun?: boolean;
+}
+
+interface DirectoryOptions {
+  source?: string;
+  language?: string;
+  parentTokens?: string;
+  chunker?: string;
+  dryRun?: boolean;
 }
 
 interface IngestionOverrides {
   sourcePath?: string;
+  language?: LanguageMode;
+  parentMaxTokens?: number;
+  chunkingStrategy?: ChunkingStrategy;
+  dryRun?: boolean;
 }
 
 function createIngestion(overrides: IngestionOverrides = {}): CorpusIngestion {
-  const openAiKey = getEnvVar('OPENAI_API_KEY');
   const qdrantUrl = getEnvVar('QDRANT_URL');
   const qdrantApiKey = process.env.QDRANT_API_KEY;
   const sourcePath = overrides.sourcePath ?? process.env.CORPUS_SOURCE_PATH;
 
-  const embedder = new EmbeddingGenerator(openAiKey, {
+  const embedder = new EmbeddingGenerator(createProviderFromEnv(), {
+    diskCache: createDiskCache(),
     logger: console,
   });
   const qdrant = new QdrantManager({
     url: qdrantUrl,
     apiKey: qdrantApiKey,
+    vectorSize: embedder.dimensions,
+    vocabularyPath: process.env.KEYWORD_VOCABULARY_PATH || path.join(DEFAULT_VOCABULARY_DIR, 'sebi_regulations.json'),
     logger: console,
   });
 
@@ -119,6 +269,15 @@ function createIngestion(overrides: IngestionOverrides = {}): CorpusIngestion {
     },
     {
       sourcePath,
+      language: overrides.language,
+      chunkOptions: {
+        ...(overrides.parentMaxTokens ? { parentMaxTokens: overrides.parentMaxTokens } : {}),
+        ...(overrides.chunkingStrategy ? { strategy: overrides.chunkingStrategy } : {}),
+      },
+      embeddingTemplate: readEmbeddingTemplate(),
+      dryRun: overrides.dryRun,
+      boilerplateIndexPath:
+        process.env.BOILERPLATE_INDEX_PATH || path.join(DEFAULT_BOILERPLATE_DIR, 'sebi_regulations.json'),
       logger: console,
     },
   );
@@ -128,7 +287,11 @@ function buildMetadataOverrides(options: FileOptions): Partial<SEBIDocument> | u
   const overrides: Partial<SEBIDocument> = {};
 
   if (options.circularId) {
-    overrides.circular_id = options.circularId;
+    const circularId = CircularId.parse(options.circularId);
+    if (!circularId) {
+      throw new Error(`Invalid circular ID: ${options.circularId}`);
+    }
+    overrides.circular_id = circularId.canonical;
   }
 
   if (options.category) {
@@ -143,8 +306,8 @@ function buildMetadataOverrides(options: FileOptions): Partial<SEBIDocument> | u
   }
 
   if (options.date) {
-    const parsed = new Date(options.date);
-    if (Number.isNaN(parsed.getTime())) {
+    const parsed = parseSEBIDate(options.date);
+    if (!parsed) {
       throw new Error(`Invalid date: ${options.date}`);
     }
     overrides.date = parsed;
@@ -157,6 +320,92 @@ function buildMetadataOverrides(options: FileOptions): Partial<SEBIDocument> | u
   return Object.keys(overrides).length > 0 ? overrides : undefined;
 }
 
+function parseLanguage(value?: string): LanguageMode | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!LANGUAGE_OPTIONS.includes(value as LanguageMode)) {
+    throw new Error(`Invalid language: ${value}`);
+  }
+  return value as LanguageMode;
+}
+
+function parseChunkingStrategy(value?: string): ChunkingStrategy | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!CHUNKING_STRATEGIES.includes(value as ChunkingStrategy)) {
+    throw new Error(`Invalid chunking strategy: ${value}`);
+  }
+  return value as ChunkingStrategy;
+}
+
+/**
+ * Embedding provider selected by EMBEDDING_PROVIDER ("openai" by default), with
+ * optional EMBEDDING_MODEL and EMBEDDING_DIMENSIONS.
+ */
+function createProviderFromEnv(): EmbeddingProvider {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid embedding provider: ${provider}`);
+  }
+
+  const rawDimensions = process.env.EMBEDDING_DIMENSIONS;
+  const dimensions = rawDimensions ? Number(rawDimensions) : undefined;
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+    throw new Error(`Invalid embedding dimensions: ${rawDimensions}`);
+  }
+
+  return createEmbeddingProvider({
+    provider,
+    apiKey: provider === 'openai' ? getEnvVar('OPENAI_API_KEY') : undefined,
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimensions,
+  });
+}
+
+/**
+ * Embedding text template from the file named by EMBEDDING_TEMPLATE_FILE, if set.
+ */
+function readEmbeddingTemplate(): string | undefined {
+  const file = process.env.EMBEDDING_TEMPLATE_FILE;
+  return file ? readFileSync(file, 'utf8').trimEnd() : undefined;
+}
+
+/**
+ * On-disk embedding cache in EMBEDDING_CACHE_DIR, limited to EMBEDDING_CACHE_MAX_MB.
+ */
+function createDiskCache(directory?: string): DiskEmbeddingCache {
+  const maxSize = process.env.EMBEDDING_CACHE_MAX_MB;
+  return new DiskEmbeddingCache({
+    directory: directory ?? (process.env.EMBEDDING_CACHE_DIR || undefined),
+    maxSizeBytes: maxSize ? parsePositiveNumber(maxSize, 'EMBEDDING_CACHE_MAX_MB') * 1024 ** 2 : undefined,
+  });
+}
+
+function parsePositiveNumber(value: string, label: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+  return parsed;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+function parseParentTokens(value?: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const tokens = parsePositiveNumber(value, 'parent tokens');
+  if (!Number.isInteger(tokens)) {
+    throw new Error(`Invalid parent tokens: ${value}`);
+  }
+  return tokens;
+}
+
 function getEnvVar(key: string): string {
   const value = process.env[key];
   if (!value) {
@@ -177,13 +426,101 @@ async function runWithSpinner<T>(text: string, task: () => Promise<T>): Promise<
   }
 }
 
+/**
+ * Run an ingestion with its progress shown on a spinner. The first Ctrl-C cancels the
+ * run after the current embedding batch; a second one exits immediately.
+ */
+async function runWithProgress<T>(text: string, task: (run: IngestionRunOptions) => Promise<T>): Promise<T> {
+  const spinner = ora(text).start();
+  const controller = new AbortController();
+  let position = '';
+  const onInterrupt = () => {
+    if (controller.signal.aborted) {
+      spinner.fail(`${text} (interrupted)`);
+      process.exit(130);
+    }
+    controller.abort();
+    spinner.text = 'Stopping after the current batch (Ctrl-C again to exit now)';
+  };
+  process.on('SIGINT', onInterrupt);
+
+  try {
+    const result = await task({
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.type === 'file-started') {
+          position = event.total > 1 ? `[${event.index + 1}/${event.total}] ` : '';
+        }
+        if (!controller.signal.aborted) {
+          spinner.text = position + formatProgress(event);
+        }
+      },
+    });
+    if (controller.signal.aborted) {
+      spinner.warn(`${text} (cancelled)`);
+    } else {
+      spinner.succeed(text);
+    }
+    return result;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      spinner.warn(`${text} (cancelled)`);
+      throw new Error('Cancelled; the interrupted PDF was not written');
+    }
+    spinner.fail(text);
+    throw error;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
+
+function formatProgress(event: IngestionProgressEvent): string {
+  const file = path.basename(event.file);
+  switch (event.type) {
+    case 'file-started':
+      return `Parsing ${file}`;
+    case 'parsed':
+      return `Parsed ${file} (${event.documents} ${event.documents === 1 ? 'document' : 'documents'})`;
+    case 'chunked':
+      return `Chunked ${event.circularId} into ${event.chunks} chunks`;
+    case 'embedding':
+      return `Embedding ${event.circularId}: ${event.embedded}/${event.total} chunks`;
+    case 'upserted':
+      return `Stored ${event.chunks} chunks of ${event.circularId}`;
+    case 'failed':
+      return `Failed ${file}: ${event.error}`;
+  }
+}
+
 function printSummary(summary: IngestionSummary): void {
-  console.log(chalk.green(`✔ ${summary.circularId} ingested`));
+  console.log(chalk.green(`✔ ${summary.circularId} ${summary.dryRun ? 'estimated' : 'ingested'}`));
+  if (summary.languages) {
+    console.log(`  languages: ${summary.languages.join(', ')}`);
+  }
   console.log(`  chunks: ${summary.chunkCount}`);
-  console.log(`  embeddings: ${summary.embeddingCount}`);
+  if (!summary.dryRun) {
+    console.log(`  embeddings: ${summary.embeddingCount}`);
+  }
+  console.log(`  tokens: ${summary.embeddingTokens} (${summary.cachedTokens} cached)`);
   console.log(`  duration: ${(summary.durationMs / 1000).toFixed(2)}s`);
 }
 
+/**
+ * Print the tokens of dry-run summaries and the projected spend per model.
+ */
+function printCostEstimate(ingestion: CorpusIngestion, summaries: IngestionSummary[]): void {
+  const cachedTokens = summaries.reduce((sum, summary) => sum + summary.cachedTokens, 0);
+  const tokens = summaries.reduce((sum, summary) => sum + summary.embeddingTokens, 0) + cachedTokens;
+
+  console.log(chalk.cyan(`Tokens: ${tokens} (${cachedTokens} cached, ${tokens - cachedTokens} to embed)`));
+  console.log('Projected spend:');
+  for (const estimate of ingestion.estimateCost({ tokens, cachedTokens })) {
+    const cost = estimate.costUsd === null ? 'unknown price' : `$${estimate.costUsd.toFixed(4)}`;
+    const label = estimate.configured ? `${estimate.model} (configured)` : estimate.model;
+    console.log(`  • ${label}: ${cost} for ${estimate.billableTokens} tokens`);
+  }
+}
+
 program.parseAsync(process.argv).catch((error: unknown) => {
   const message = error instanceof Error ? error.message : String(error);
   console.error(chalk.red(message));
@@ -0,0 +1,341 @@
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { fnv1a } from './hashing.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Near-Duplicate Detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default directory for boilerplate indexes, one file per collection. */
+export const DEFAULT_BOILERPLATE_DIR = path.join(os.homedir(), '.cache', 'sebi-corpus', 'boilerplate');
+
+/** Words per shingle. */
+const DEFAULT_SHINGLE_SIZE = 5;
+
+/** Hash functions per MinHash signature. */
+const SIGNATURE_SIZE = 64;
+
+/**
+ * Signature values per LSH band. With 16 bands of 4 rows, chunks with a similarity of
+ * 0.8 share a band with probability above 0.99, and chunks at 0.3 rarely do.
+ */
+const BAND_ROWS = 4;
+
+const DEFAULT_THRESHOLD = 0.8;
+const DEFAULT_MIN_CIRCULARS = 3;
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * MurmurHash3 finaliser: a cheap, well-mixed permutation of 32-bit integers.
+ */
+function mix(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/** One seed per hash function of the signature. */
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => mix(index + 1));
+
+/**
+ * Hashes of the overlapping word n-grams of a text.
+ *
+ * Text is lower-cased and digits are folded to "0", so the same paragraph citing a
+ * different circular number or date still produces the same shingles. Combining marks
+ * stay part of their word, so Devanagari vowel signs do not split words. Texts shorter
+ * than one shingle yield a single shingle of all their words.
+ */
+export function shingleHashes(text: string, size = DEFAULT_SHINGLE_SIZE): Set<number> {
+  const words = (text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? []).map((word) => word.replace(/\d/g, '0'));
+  const hashes = new Set<number>();
+  if (words.length === 0) {
+    return hashes;
+  }
+
+  const last = Math.max(words.length - size, 0);
+  for (let i = 0; i <= last; i++) {
+    hashes.add(fnv1a(words.slice(i, i + size).join(' ')));
+  }
+  return hashes;
+}
+
+/**
+ * MinHash signature of a text's shingles, for estimating Jaccard similarity.
+ *
+ * @returns The signature, or null for a text without words.
+ */
+export function minHashSignature(text: string, shingleSize = DEFAULT_SHINGLE_SIZE): Uint32Array | null {
+  const shingles = shingleHashes(text, shingleSize);
+  if (shingles.size === 0) {
+    return null;
+  }
+
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = mix(shingle ^ SEEDS[i]);
+      if (hash < signature[i]) {
+        signature[i] = hash;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two texts from their MinHash signatures.
+ */
+export function signatureSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal += 1;
+  }
+  return equal / a.length;
+}
+
+/**
+ * LSH band keys of a signature: each run of {@link BAND_ROWS} values, tagged with its
+ * position.
+ */
+function signatureBands(signature: Uint32Array): string[] {
+  const bands: string[] = [];
+  for (let start = 0; start < signature.length; start += BAND_ROWS) {
+    bands.push(`${start}:${signature.subarray(start, start + BAND_ROWS).join(',')}`);
+  }
+  return bands;
+}
+
+export interface BoilerplateOptions {
+  /** Estimated similarity at which two chunks are near-duplicates (default 0.8). */
+  threshold?: number;
+  /** Distinct circulars a passage must appear in to count as boilerplate (default 3). */
+  minCirculars?: number;
+  /** Words per shingle (default 5). */
+  shingleSize?: number;
+}
+
+/**
+ * Serialised form of a {@link BoilerplateDetector}.
+ */
+export interface BoilerplateSnapshot {
+  version: number;
+  threshold: number;
+  minCirculars: number;
+  shingleSize: number;
+  /** Chunk ID, circular ID and base64 MinHash signature (null for a chunk without words). */
+  entries: Array<[string, string, string | null]>;
+  flagged: string[];
+}
+
+/**
+ * A chunk checked for boilerplate.
+ */
+export interface BoilerplateCandidate {
+  chunkId: string;
+  circularId: string;
+  content: string;
+}
+
+/**
+ * Finds passages repeated across circulars, such as the "issued in exercise of powers
+ * conferred under Section 11(1)" paragraph, the "Yours faithfully" block and addressee
+ * lists.
+ *
+ * Chunks are indexed by MinHash signature with locality-sensitive hashing, so each
+ * addition only compares against likely near-duplicates. A chunk is boilerplate once
+ * near-duplicates of it appear in enough distinct circulars, or when it is a
+ * near-duplicate of a chunk already known to be boilerplate.
+ *
+ * @example
+ * ```ts
+ * const detector = new BoilerplateDetector();
+ * for (const chunk of chunks) {
+ *   detector.add({ chunkId: chunk.chunk_id, circularId, content: chunk.content });
+ * }
+ * const boilerplate = chunks.filter((chunk) => detector.isBoilerplate(chunk.chunk_id));
+ * ```
+ */
+export class BoilerplateDetector {
+  private readonly threshold: number;
+  private readonly minCirculars: number;
+  private readonly shingleSize: number;
+  private readonly entries = new Map<
+    string,
+    { circularId: string; signature: Uint32Array | null; bands: string[] }
+  >();
+  private readonly buckets = new Map<string, Set<string>>();
+  private readonly flagged = new Set<string>();
+
+  constructor(options: BoilerplateOptions = {}) {
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    this.minCirculars = options.minCirculars ?? DEFAULT_MIN_CIRCULARS;
+    this.shingleSize = options.shingleSize ?? DEFAULT_SHINGLE_SIZE;
+  }
+
+  /** Number of indexed chunks, including those without words. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Index a chunk, replacing any earlier entry with the same ID.
+   *
+   * @returns IDs of chunks newly identified as boilerplate: possibly this chunk and
+   * earlier near-duplicates of it.
+   */
+  add(candidate: BoilerplateCandidate): string[] {
+    this.remove(candidate.chunkId);
+
+    const signature = minHashSignature(candidate.content, this.shingleSize);
+    if (!signature) {
+      // Still counted, so the index size matches the number of stored chunks
+      this.index(candidate.chunkId, candidate.circularId, null);
+      return [];
+    }
+
+    const matches = new Set<string>();
+    for (const band of signatureBands(signature)) {
+      for (const chunkId of this.buckets.get(band) ?? []) {
+        const entry = this.entries.get(chunkId);
+        if (
+          entry?.signature &&
+          !matches.has(chunkId) &&
+          signatureSimilarity(signature, entry.signature) >= this.threshold
+        ) {
+          matches.add(chunkId);
+        }
+      }
+    }
+
+    this.index(candidate.chunkId, candidate.circularId, signature);
+
+    const circulars = new Set([candidate.circularId]);
+    for (const chunkId of matches) {
+      circulars.add(this.entries.get(chunkId)?.circularId ?? '');
+    }
+    const knownBoilerplate = [...matches].some((chunkId) => this.flagged.has(chunkId));
+    if (circulars.size < this.minCirculars && !knownBoilerplate) {
+      return [];
+    }
+
+    const newlyFlagged = [candidate.chunkId, ...matches].filter((chunkId) => !this.flagged.has(chunkId));
+    newlyFlagged.forEach((chunkId) => this.flagged.add(chunkId));
+    return newlyFlagged;
+  }
+
+  isBoilerplate(chunkId: string): boolean {
+    return this.flagged.has(chunkId);
+  }
+
+  /**
+   * Drop every chunk of a circular, e.g. before it is re-ingested.
+   */
+  removeCircular(circularId: string): void {
+    for (const [chunkId, entry] of this.entries) {
+      if (entry.circularId === circularId) {
+        this.remove(chunkId);
+      }
+    }
+  }
+
+  toSnapshot(): BoilerplateSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      threshold: this.threshold,
+      minCirculars: this.minCirculars,
+      shingleSize: this.shingleSize,
+      entries: [...this.entries].map(([chunkId, { circularId, signature }]) => [
+        chunkId,
+        circularId,
+        signature
+          ? Buffer.from(signature.buffer, signature.byteOffset, signature.byteLength).toString('base64')
+          : null,
+      ]),
+      flagged: [...this.flagged],
+    };
+  }
+
+  static fromSnapshot(snapshot: BoilerplateSnapshot): BoilerplateDetector {
+    const detector = new BoilerplateDetector(snapshot);
+    for (const [chunkId, circularId, encoded] of snapshot.entries) {
+      const bytes = encoded === null ? null : Buffer.from(encoded, 'base64');
+      const signature = bytes
+        ? new Uint32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+        : null;
+      detector.index(chunkId, circularId, signature);
+    }
+    snapshot.flagged.forEach((chunkId) => detector.flagged.add(chunkId));
+    return detector;
+  }
+
+  /**
+   * Write the index to a JSON file, replacing it atomically.
+   */
+  async save(file: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(this.toSnapshot()));
+    await fs.rename(temporary, file);
+  }
+
+  /**
+   * Read an index saved by {@link BoilerplateDetector.save}.
+   *
+   * @returns The index, or null if the file is missing, unreadable, from another
+   * version or built with other options.
+   */
+  static async load(file: string, options: BoilerplateOptions = {}): Promise<BoilerplateDetector | null> {
+    try {
+      const snapshot = JSON.parse(await fs.readFile(file, 'utf8')) as BoilerplateSnapshot;
+      if (
+        snapshot.version !== SNAPSHOT_VERSION ||
+        snapshot.threshold !== (options.threshold ?? DEFAULT_THRESHOLD) ||
+        snapshot.minCirculars !== (options.minCirculars ?? DEFAULT_MIN_CIRCULARS) ||
+        snapshot.shingleSize !== (options.shingleSize ?? DEFAULT_SHINGLE_SIZE)
+      ) {
+        return null;
+      }
+      return BoilerplateDetector.fromSnapshot(snapshot);
+    } catch {
+      return null;
+    }
+  }
+
+  private index(chunkId: string, circularId: string, signature: Uint32Array | null): void {
+    const bands = signature ? signatureBands(signature) : [];
+    this.entries.set(chunkId, { circularId, signature, bands });
+    for (const band of bands) {
+      let bucket = this.buckets.get(band);
+      if (!bucket) {
+        bucket = new Set();
+        this.buckets.set(band, bucket);
+      }
+      bucket.add(chunkId);
+    }
+  }
+
+  private remove(chunkId: string): void {
+    const entry = this.entries.get(chunkId);
+    if (!entry) {
+      return;
+    }
+
+    for (const band of entry.bands) {
+      const bucket = this.buckets.get(band);
+      bucket?.delete(chunkId);
+      if (bucket?.size === 0) {
+        this.buckets.delete(band);
+      }
+    }
+    this.entries.delete(chunkId);
+    this.flagged.delete(chunkId);
+  }
+}
@@ -0,0 +1,175 @@
+import { CircularId } from './circular-id.js';
+import { extractOwnCircularId } from './cross-references.js';
+import { type SEBICategory } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Category Signals
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Categories with their own signals; anything else is classified as "general". */
+type SpecificCategory = Exclude<SEBICategory, 'general'>;
+
+/**
+ * A weighted signal for a category.
+ */
+interface CategorySignal {
+  category: SpecificCategory;
+  pattern: RegExp;
+  weight: number;
+}
+
+/**
+ * Keyword signals matched in the body text.
+ *
+ * Patterns are anchored on word boundaries so that, for example, "TER" does not match
+ * "after" or "terms". Acronyms are matched case-sensitively.
+ */
+const KEYWORD_SIGNALS: CategorySignal[] = [
+  { category: 'mutual_funds', pattern: /\bmutual funds?\b/gi, weight: 3 },
+  { category: 'mutual_funds', pattern: /\basset management compan(?:y|ies)\b/gi, weight: 3 },
+  { category: 'mutual_funds', pattern: /\bAMCs?\b/g, weight: 2 },
+  { category: 'mutual_funds', pattern: /\btotal expense ratio\b|\bTER\b/g, weight: 2 },
+  { category: 'mutual_funds', pattern: /\bNAV\b|\bnet asset value\b/gi, weight: 1 },
+  { category: 'portfolio_managers', pattern: /\bportfolio managers?\b/gi, weight: 3 },
+  { category: 'portfolio_managers', pattern: /\bportfolio management services?\b/gi, weight: 3 },
+  { category: 'portfolio_managers', pattern: /\bPMS\b/g, weight: 2 },
+  { category: 'invits', pattern: /\binfrastructure investment trusts?\b/gi, weight: 3 },
+  { category: 'invits', pattern: /\bInvITs?\b/gi, weight: 3 },
+  { category: 'reits', pattern: /\breal estate investment trusts?\b/gi, weight: 3 },
+  { category: 'reits', pattern: /\b(?:SM )?REITs?\b/gi, weight: 3 },
+];
+
+/** Department codes in circular identifiers and the categories they regulate. */
+const DEPARTMENT_SIGNALS: Record<string, Array<{ category: SpecificCategory; weight: number }>> = {
+  IMD: [
+    { category: 'mutual_funds', weight: 3 },
+    { category: 'portfolio_managers', weight: 1 },
+  ],
+  DDHS: [
+    { category: 'reits', weight: 2 },
+    { category: 'invits', weight: 2 },
+  ],
+};
+
+/** Addressee patterns, matched against the "To" lines of the circular header. */
+const ADDRESSEE_SIGNALS: CategorySignal[] = [
+  { category: 'mutual_funds', pattern: /\bmutual funds?\b|\basset management compan/i, weight: 6 },
+  { category: 'portfolio_managers', pattern: /\bportfolio managers?\b/i, weight: 6 },
+  { category: 'invits', pattern: /\binfrastructure investment trusts?\b|\bInvITs?\b/i, weight: 6 },
+  { category: 'reits', pattern: /\breal estate investment trusts?\b|\bREITs?\b/i, weight: 6 },
+];
+
+/** Number of leading lines searched for addressee lines. */
+const HEADER_LINES = 40;
+
+/** Minimum score for a category to be assigned instead of "general". */
+const MIN_SCORE = 4;
+
+/** Minimum score, relative to the primary category, for a secondary category. */
+const SECONDARY_RATIO = 0.5;
+
+/**
+ * Result of classifying a document into regulatory categories.
+ */
+export interface CategoryClassification {
+  /** Best-scoring category, or "general" when no category has enough evidence. */
+  primary: SEBICategory;
+  /** Other categories with substantial evidence, best first. */
+  secondary: SEBICategory[];
+  /** Confidence in the primary category, from 0 to 1. */
+  confidence: number;
+  /** Raw score of every category with at least one signal. */
+  scores: Partial<Record<SEBICategory, number>>;
+}
+
+/**
+ * Lines addressing the circular's recipients ("To, All Mutual Funds ...").
+ *
+ * Only header lines before the subject line are considered.
+ */
+function extractAddresseeLines(text: string): string[] {
+  const lines = text
+    .split('\n')
+    .slice(0, HEADER_LINES)
+    .map((line) => line.trim());
+  const subject = lines.findIndex((line) => /^(?:Sub(?:ject)?\b|Dear\b|Madam\b|Sir\b)/i.test(line));
+  const header = subject === -1 ? lines : lines.slice(0, subject);
+
+  return header.filter((line) => /^(?:To,?\s+)?(?:All|The)\s+/i.test(line) && line.length < 200);
+}
+
+/**
+ * Classify a SEBI document into a primary category and secondary categories.
+ *
+ * Scores combine body keywords (with diminishing returns for repeats), the issuing
+ * department in the circular identifier and the addressee lines of the header, which
+ * are the strongest evidence of who a circular regulates.
+ *
+ * @param text - Cleaned document text.
+ * @param circularId - The document's circular identifier, if known.
+ * @returns Primary and secondary categories with a confidence value.
+ *
+ * @example
+ * ```ts
+ * const result = classifyCategory(
+ *   'To,\nAll Infrastructure Investment Trusts\nAll Real Estate Investment Trusts\n...',
+ * );
+ * console.log(result.primary, result.secondary); // "invits", ["reits"]
+ * ```
+ */
+export function classifyCategory(text: string, circularId?: string | null): CategoryClassification {
+  const scores: Partial<Record<SEBICategory, number>> = {};
+  const addScore = (category: SpecificCategory, score: number) => {
+    scores[category] = (scores[category] ?? 0) + score;
+  };
+
+  for (const { category, pattern, weight } of KEYWORD_SIGNALS) {
+    const count = [...text.matchAll(pattern)].length;
+    if (count > 0) {
+      addScore(category, weight * Math.log2(1 + count));
+    }
+  }
+
+  const department = CircularId.parse(circularId ?? extractOwnCircularId(text) ?? '')?.department ?? '';
+  for (const { category, weight } of DEPARTMENT_SIGNALS[department] ?? []) {
+    addScore(category, weight);
+  }
+
+  for (const line of extractAddresseeLines(text)) {
+    for (const { category, pattern, weight } of ADDRESSEE_SIGNALS) {
+      if (pattern.test(line)) {
+        addScore(category, weight);
+      }
+    }
+  }
+
+  const ranked = (Object.entries(scores) as Array<[SEBICategory, number]>).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  const [best] = ranked;
+
+  if (!best || best[1] < MIN_SCORE) {
+    return {
+      primary: 'general',
+      secondary: [],
+      confidence: round(1 - (best?.[1] ?? 0) / MIN_SCORE),
+      scores,
+    };
+  }
+
+  return {
+    primary: best[0],
+    secondary: ranked
+      .slice(1)
+      .filter(([, score]) => score >= MIN_SCORE && score >= best[1] * SECONDARY_RATIO)
+      .map(([category]) => category),
+    confidence: round(best[1] / total),
+    scores,
+  };
+}
+
+/**
+ * Round a score to two decimal places.
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,336 @@
+import { countTokens, tokenWindows } from './tokens.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sentence Splitting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Words that end in a period without ending the sentence, lower-cased and without
+ * their final period ("i.e." → "i.e").
+ */
+const ABBREVIATIONS = new Set([
+  'rs',
+  're',
+  'reg',
+  'regs',
+  'i.e',
+  'e.g',
+  'viz',
+  'cf',
+  'no',
+  'nos',
+  'cl',
+  'para',
+  'paras',
+  'sec',
+  'secs',
+  'art',
+  'ch',
+  'annex',
+  'sch',
+  'sr',
+  'ltd',
+  'pvt',
+  'co',
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'smt',
+  'shri',
+  'govt',
+  'dept',
+  'w.e.f',
+  'vs',
+  'approx',
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'sept',
+  'oct',
+  'nov',
+  'dec',
+]);
+
+/** Sentence-final punctuation, with any closing quotes or brackets, then whitespace. */
+const SENTENCE_END_PATTERN = /([.!?।])["'”’)\]]*\s+/g;
+
+/**
+ * Where one clause ends and the next begins: after a semicolon not followed by "and"
+ * or "or", or at a line starting with a clause marker ("(a)", "(iv)", "(3)", "b.", "2.1").
+ */
+const CLAUSE_BOUNDARY_PATTERN =
+  /(?<=;)\s+(?!(?:and|or)\b)|\n(?=[ \t]*(?:\((?:[a-z]{1,2}|[ivxl]{1,6}|\d{1,3})\)|(?:[a-z]|[ivxl]{1,6}|\d{1,3}(?:\.\d{1,3})*)[.)]\s))/i;
+
+/** Paragraph and clause numbers written with a trailing period ("2.", "4.1.", "iv.", "b."). */
+const LIST_MARKER_PATTERN = /^(?:\d+(?:\.\d+)*|[ivxlc]+|[a-z])$/i;
+
+/**
+ * Whether the punctuation at `index` ends a sentence.
+ *
+ * A period does not end a sentence after a known abbreviation ("Rs. 500 crore",
+ * "Reg. 52", "i.e."), an initial, or a paragraph number at the start of a line, nor
+ * when the next word starts in lower case.
+ */
+function isSentenceEnd(text: string, index: number, next: string): boolean {
+  if (text[index] !== '.') {
+    return true;
+  }
+  if (/^\p{Ll}/u.test(next)) {
+    return false;
+  }
+
+  const token = /\S*$/.exec(text.slice(Math.max(0, index - 32), index))?.[0] ?? '';
+  const word = token.replace(/^["'“‘([]+/, '');
+  if (ABBREVIATIONS.has(word.toLowerCase()) || /^\p{L}$/u.test(word)) {
+    return false;
+  }
+
+  const tokenStart = index - token.length;
+  const lineStart = /(?:^|\n)[ \t]*$/.test(text.slice(Math.max(0, tokenStart - 32), tokenStart));
+  return !(lineStart && LIST_MARKER_PATTERN.test(word));
+}
+
+/**
+ * Split text into sentences.
+ *
+ * Sentences end at ".", "!", "?" or the Devanagari danda "।" followed by whitespace,
+ * except after abbreviations common in SEBI circulars, so "Rs. 500 crore", "Reg. 52 of
+ * the LODR Regulations" and "i.e. the scheme" stay in one sentence.
+ *
+ * @param text - Text to split.
+ * @returns The sentences, trimmed, in order.
+ *
+ * @example
+ * ```ts
+ * splitIntoSentences('The fee is Rs. 500 crore. It applies w.e.f. April 1, 2024.');
+ * // ["The fee is Rs. 500 crore.", "It applies w.e.f. April 1, 2024."]
+ * ```
+ */
+export function splitIntoSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    const end = match.index + match[0].length;
+    if (isSentenceEnd(text, match.index, text.slice(end, end + 1))) {
+      sentences.push(text.slice(start, end).trim());
+      start = end;
+    }
+  }
+  sentences.push(text.slice(start).trim());
+
+  return sentences.filter(Boolean);
+}
+
+/**
+ * Split text into clauses: numbered or lettered sub-paragraphs ("(a)", "(iv)", "2.1")
+ * starting on their own line, and items separated by semicolons. A trailing "and" or
+ * "or" stays with the item before it.
+ *
+ * @param text - Text to split.
+ * @returns The clauses, trimmed, in order.
+ */
+export function splitIntoClauses(text: string): string[] {
+  return text
+    .split(CLAUSE_BOUNDARY_PATTERN)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Chunkers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Built-in chunking strategies. */
+export const CHUNKING_STRATEGIES = ['section', 'clause', 'semantic', 'fixed'] as const;
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export interface ChunkerOptions {
+  /** Maximum tokens per chunk. */
+  maxTokens: number;
+  /** Tokens repeated between adjacent chunks, where the strategy supports overlap. */
+  overlap: number;
+}
+
+/**
+ * Splits the text of one section into chunks.
+ *
+ * Section extraction, table chunks and parent chunks are shared by every chunker;
+ * a chunker only decides where a section's text is cut.
+ */
+export interface Chunker {
+  /** Strategy name, recorded on every chunk as `chunking_strategy`. */
+  readonly name: string;
+  split(text: string, options: ChunkerOptions): string[];
+}
+
+/**
+ * Greedily pack units of text into chunks of at most `maxTokens`, repeating trailing
+ * units of each chunk at the start of the next until `overlap` tokens are covered.
+ * A single unit longer than `maxTokens` becomes a chunk of its own.
+ */
+function packUnits(units: string[], { maxTokens, overlap }: ChunkerOptions, separator = ' '): string[] {
+  const chunks: string[] = [];
+  let currentChunk: string[] = [];
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const unitTokens = countTokens(unit);
+
+    if (currentTokens + unitTokens > maxTokens && currentChunk.length > 0) {
+      chunks.push(currentChunk.join(separator));
+
+      // Carry units from the end of the chunk until the overlap target is reached
+      let overlapTokens = 0;
+      const overlapUnits: string[] = [];
+      for (let i = currentChunk.length - 1; i >= 0 && overlapTokens < overlap; i--) {
+        overlapUnits.unshift(currentChunk[i]);
+        overlapTokens += countTokens(currentChunk[i]);
+      }
+
+      currentChunk = overlapUnits;
+      currentTokens = overlapTokens;
+    }
+
+    currentChunk.push(unit);
+    currentTokens += unitTokens;
+  }
+
+  if (currentChunk.length > 0) {
+    chunks.push(currentChunk.join(separator));
+  }
+
+  return chunks;
+}
+
+/**
+ * Packs whole sentences into chunks, with sentence-level overlap. This is the default
+ * strategy.
+ */
+export const sectionChunker: Chunker = {
+  name: 'section',
+  split(text, options) {
+    return packUnits(splitIntoSentences(text), options);
+  },
+};
+
+/**
+ * Packs whole clauses into chunks, so a sub-paragraph such as "(b) the AMC shall ..."
+ * is not cut in half. Clauses longer than a chunk are split into sentences.
+ */
+export const clauseChunker: Chunker = {
+  name: 'clause',
+  split(text, options) {
+    const units = splitIntoClauses(text).flatMap((clause) =>
+      countTokens(clause) > options.maxTokens ? splitIntoSentences(clause) : [clause],
+    );
+    return packUnits(units, options, '\n');
+  },
+};
+
+/**
+ * Cuts text into windows of exactly `maxTokens` tokens, ignoring sentence boundaries.
+ * Useful as a baseline when comparing strategies.
+ */
+export const fixedChunker: Chunker = {
+  name: 'fixed',
+  split(text, { maxTokens, overlap }) {
+    return tokenWindows(text, maxTokens, Math.min(overlap, maxTokens - 1));
+  },
+};
+
+/**
+ * Word counts of a sentence, for comparing neighbouring sentences.
+ */
+function termFrequencies(sentence: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const word of sentence.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? []) {
+    terms.set(word, (terms.get(word) ?? 0) + 1);
+  }
+  return terms;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) {
+    dot += count * (b.get(term) ?? 0);
+  }
+  const norm = (terms: Map<string, number>) => Math.sqrt([...terms.values()].reduce((sum, n) => sum + n * n, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * Cuts text where the topic shifts. Text longer than a chunk is split at the sentence
+ * boundary whose neighbouring sentences share the fewest words, and each side is split
+ * again until it fits.
+ *
+ * Similarity is lexical rather than embedding-based, so chunking stays synchronous and
+ * costs nothing. Chunks do not overlap, since each cut is meant to separate topics.
+ */
+export const semanticChunker: Chunker = {
+  name: 'semantic',
+  split(text, { maxTokens }) {
+    const sentences = splitIntoSentences(text);
+    const terms = sentences.map(termFrequencies);
+    // gaps[i] is the similarity across the boundary after sentence i
+    const gaps = sentences.slice(1).map((_, i) => cosineSimilarity(terms[i], terms[i + 1]));
+    const chunks: string[] = [];
+
+    const segment = (from: number, to: number): void => {
+      const span = sentences.slice(from, to).join(' ');
+      if (to - from === 1 || countTokens(span) <= maxTokens) {
+        chunks.push(span);
+        return;
+      }
+
+      // Ties go to the boundary nearest the middle, keeping the two sides balanced
+      const middle = (from + to - 1) / 2;
+      let cut = from;
+      for (let i = from; i < to - 1; i++) {
+        const closer = Math.abs(i - middle) < Math.abs(cut - middle);
+        if (gaps[i] < gaps[cut] || (gaps[i] === gaps[cut] && closer)) cut = i;
+      }
+      segment(from, cut + 1);
+      segment(cut + 1, to);
+    };
+
+    if (sentences.length > 0) {
+      segment(0, sentences.length);
+    }
+    return chunks;
+  },
+};
+
+/**
+ * Get the chunker for a built-in strategy.
+ *
+ * @param strategy - Strategy name.
+ * @returns The chunker.
+ *
+ * @example
+ * ```ts
+ * const chunks = chunkDocument(document, { strategy: createChunker('clause') });
+ * ```
+ */
+export function createChunker(strategy: ChunkingStrategy): Chunker {
+  switch (strategy) {
+    case 'section':
+      return sectionChunker;
+    case 'clause':
+      return clauseChunker;
+    case 'semantic':
+      return semanticChunker;
+    case 'fixed':
+      return fixedChunker;
+    default:
+      throw new Error(`Unknown chunking strategy: ${String(strategy)}`);
+  }
+}
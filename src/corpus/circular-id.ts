@@ -0,0 +1,232 @@
+import crypto from 'node:crypto';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Circular Identifiers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A "/" separator, tolerating spaces and a line break on either side. */
+const SEPARATOR = '[ \\t]*(?:\\r?\\n[ \\t]*)?\\/[ \\t]*(?:\\r?\\n[ \\t]*)?';
+
+/** Current format: SEBI/<office>/<department>/.../<year>/<serial>. */
+const CURRENT_FORMAT = `SEBI${SEPARATOR}[A-Z]+${SEPARATOR}[A-Z0-9]+(?:-[A-Z0-9]+)*(?:${SEPARATOR}[A-Z0-9]+(?:-[A-Z0-9]+)*)*?${SEPARATOR}\\d{4}${SEPARATOR}\\d+`;
+
+/** Legacy format: CIR/<department>/<division>/<serial>/<year>. */
+const LEGACY_FORMAT = `CIR${SEPARATOR}[A-Z]+(?:${SEPARATOR}[A-Z0-9]+(?:-[A-Z0-9]+)*)*?${SEPARATOR}\\d+${SEPARATOR}\\d{4}`;
+
+/**
+ * Matches SEBI circular identifiers in current and legacy ("CIR/...") formats,
+ * including identifiers broken across a line at a "/".
+ */
+export const CIRCULAR_ID_PATTERN = new RegExp(`${CURRENT_FORMAT}(?!\\d)|${LEGACY_FORMAT}(?!\\d)`, 'gi');
+
+/**
+ * Lower-case text with runs of other characters replaced by single hyphens.
+ */
+function toSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/** Segments that mark the kind of issuance rather than the issuing division. */
+const ISSUE_TYPE_SEGMENTS = new Set(['CIR', 'P']);
+
+/**
+ * Identifier format: "current" (SEBI/HO/...) or "legacy" (CIR/...).
+ */
+export type CircularIdFormat = 'current' | 'legacy';
+
+/**
+ * A parsed SEBI circular identifier.
+ *
+ * The canonical form is upper case with whitespace removed, so the same circular
+ * cited as "SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90" and "SEBI/HO/IMD/IMD-POD-1/P/
+ * CIR/2024/90" compares equal.
+ *
+ * @example
+ * ```ts
+ * const id = CircularId.parse('SEBI/HO/IMD/DF2/CIR/P/2019/17');
+ * console.log(id?.department, id?.division, id?.year, id?.serial); // "IMD", "DF2", 2019, 17
+ * console.log(id?.slug); // "sebi-ho-imd-df2-cir-p-2019-17"
+ * ```
+ */
+export class CircularId {
+  private constructor(
+    /** Canonical identifier. */
+    readonly canonical: string,
+    readonly format: CircularIdFormat,
+    /** Issuing office ("HO" for head office); current format only. */
+    readonly office: string | null,
+    /** Issuing department (e.g. "IMD", "MRD", "DDHS"). */
+    readonly department: string,
+    /** Division within the department (e.g. "DF2", "IMD-POD-1"), if stated. */
+    readonly division: string | null,
+    /** Issuance markers such as "CIR/P", if stated. */
+    readonly issueType: string | null,
+    readonly year: number,
+    readonly serial: number,
+  ) {}
+
+  /**
+   * Parse a circular identifier.
+   *
+   * @param input - Identifier text; case, surrounding text and line breaks at "/" are tolerated.
+   * @returns The parsed identifier, or null if the input contains none.
+   */
+  static parse(input: string): CircularId | null {
+    const match = input.match(new RegExp(CIRCULAR_ID_PATTERN.source, 'i'));
+    if (!match) {
+      return null;
+    }
+
+    const canonical = match[0].replace(/\s+/g, '').toUpperCase();
+    const segments = canonical.split('/');
+
+    if (segments[0] === 'CIR') {
+      return new CircularId(
+        canonical,
+        'legacy',
+        null,
+        segments[1],
+        segments.slice(2, -2).join('/') || null,
+        'CIR',
+        Number(segments.at(-1)),
+        Number(segments.at(-2)),
+      );
+    }
+
+    const middle = segments.slice(3, -2);
+    const division = middle.filter((segment) => !ISSUE_TYPE_SEGMENTS.has(segment));
+    const issueType = middle.filter((segment) => ISSUE_TYPE_SEGMENTS.has(segment));
+
+    return new CircularId(
+      canonical,
+      'current',
+      segments[1],
+      segments[2],
+      division.join('/') || null,
+      issueType.join('/') || null,
+      Number(segments.at(-2)),
+      Number(segments.at(-1)),
+    );
+  }
+
+  /**
+   * Canonical form of an identifier, or the trimmed input if it cannot be parsed.
+   */
+  static normalize(input: string): string {
+    return CircularId.parse(input)?.canonical ?? input.trim();
+  }
+
+  /**
+   * Slug of an identifier: its {@link CircularId.slug} when it parses, otherwise the raw
+   * identifier in the same form (or a hash of it if nothing URL-safe is left), so the
+   * same identifier always yields the same document ID.
+   */
+  static slugify(input: string): string {
+    const parsed = CircularId.parse(input);
+    if (parsed) {
+      return parsed.slug;
+    }
+    return toSlug(input) || `id-${crypto.createHash('md5').update(input.trim()).digest('hex').slice(0, 12)}`;
+  }
+
+  /** Stable, URL-safe form used for document IDs (e.g. "sebi-ho-imd-df2-cir-p-2019-17"). */
+  get slug(): string {
+    return toSlug(this.canonical);
+  }
+
+  /**
+   * Whether another identifier refers to the same circular.
+   */
+  equals(other: CircularId | string): boolean {
+    const otherCanonical = typeof other === 'string' ? CircularId.normalize(other) : other.canonical;
+    return this.canonical === otherCanonical;
+  }
+
+  toString(): string {
+    return this.canonical;
+  }
+}
+
+/**
+ * Occurrence of a circular identifier in text.
+ */
+export interface CircularIdMatch {
+  id: CircularId;
+  start: number;
+  end: number;
+}
+
+/**
+ * Find every circular identifier in text with its position.
+ *
+ * @param text - Text to search.
+ * @returns Parsed identifiers in order of appearance.
+ */
+export function findCircularIds(text: string): CircularIdMatch[] {
+  return [...text.matchAll(CIRCULAR_ID_PATTERN)].flatMap((match) => {
+    const id = CircularId.parse(match[0]);
+    const start = match.index ?? 0;
+    return id ? [{ id, start, end: start + match[0].length }] : [];
+  });
+}
+
+/**
+ * Alphanumeric tokens of an identifier, with leading zeros removed from numbers.
+ */
+function tokenize(value: string): string[] {
+  return (value.toUpperCase().match(/[A-Z]+|\d+/g) ?? []).map((token) =>
+    /^\d+$/.test(token) ? String(Number(token)) : token,
+  );
+}
+
+/**
+ * Find the known circulars matching loosely typed user input.
+ *
+ * An exact identifier matches its canonical form; otherwise every token of the input
+ * ("imd pod1 2024 90", "2019/17") must appear in the candidate in the same order.
+ * Closer matches, with fewer unmatched tokens, come first.
+ *
+ * @param input - Identifier as typed by a user.
+ * @param candidates - Known circular identifiers.
+ * @returns Matching candidates, best first.
+ *
+ * @example
+ * ```ts
+ * matchCircularIds('imd df2 2019/17', ['SEBI/HO/IMD/DF2/CIR/P/2019/17', 'CIR/IMD/DF/21/2012']);
+ * // ["SEBI/HO/IMD/DF2/CIR/P/2019/17"]
+ * ```
+ */
+export function matchCircularIds(input: string, candidates: string[]): string[] {
+  const exact = CircularId.parse(input);
+  if (exact) {
+    const matches = candidates.filter((candidate) => exact.equals(candidate));
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+
+  const wanted = tokenize(input);
+  if (wanted.length === 0) {
+    return [];
+  }
+
+  const scored = candidates.flatMap((candidate) => {
+    const tokens = tokenize(candidate);
+    let position = 0;
+
+    for (const token of wanted) {
+      const found = tokens.indexOf(token, position);
+      if (found === -1) {
+        return [];
+      }
+      position = found + 1;
+    }
+
+    return [{ candidate, extra: tokens.length - wanted.length }];
+  });
+
+  return scored.sort((a, b) => a.extra - b.extra).map((entry) => entry.candidate);
+}
@@ -0,0 +1,253 @@
+import { type CircularIdMatch, findCircularIds } from './circular-id.js';
+import { type CircularReference, type CircularRelation } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cross-References
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Number of leading characters searched for a circular's own identifier. */
+const HEADER_LENGTH = 3000;
+
+/** Maximum characters inspected on either side of a reference for relationship cues. */
+const CONTEXT_WINDOW = 250;
+
+/** Cue phrases for each relationship, checked in order of precedence. */
+const RELATION_CUES: Array<{ relation: Exclude<CircularRelation, 'refers_to'>; pattern: RegExp }> = [
+  { relation: 'rescinds', pattern: /\b(?:rescind(?:s|ed|ing)?|rescission|repeal(?:s|ed|ing)?)\b/gi },
+  {
+    relation: 'supersedes',
+    pattern: /\b(?:supersed(?:e|es|ed|ing)|supersession|stands?\s+withdrawn|replac(?:e|es|ed|ing))\b/gi,
+  },
+  {
+    relation: 'modifies',
+    pattern: /\b(?:modif(?:y|ies|ied|ying|ication)|amend(?:s|ed|ing|ment|ments)?|partial\s+modification)\b/gi,
+  },
+];
+
+/** Phrases marking an identifier as a reference rather than the document's own number. */
+const REFERENCE_CUE = /\b(?:vide|refer(?:s|red|ence)?|read\s+with|in\s+terms\s+of|pursuant\s+to)\b/i;
+
+/**
+ * Text between the previous sentence boundary and a reference.
+ */
+function leadingContext(text: string, start: number): string {
+  const window = text.slice(Math.max(0, start - CONTEXT_WINDOW), start);
+  const boundaries = [...window.matchAll(/[.;]\s|\n\s*\n/g)];
+  const last = boundaries.at(-1);
+  return last ? window.slice((last.index ?? 0) + last[0].length) : window;
+}
+
+/**
+ * Text between a reference and the next sentence boundary.
+ */
+function trailingContext(text: string, end: number): string {
+  const window = text.slice(end, end + CONTEXT_WINDOW);
+  const boundary = window.search(/[.;]\s|\n\s*\n/);
+  return boundary === -1 ? window : window.slice(0, boundary);
+}
+
+/**
+ * Find the relationship cue closest to the reference in a context fragment.
+ */
+function closestCue(
+  fragment: string,
+  preferEnd: boolean,
+): Exclude<CircularRelation, 'refers_to'> | null {
+  let best: { relation: Exclude<CircularRelation, 'refers_to'>; distance: number } | null = null;
+
+  for (const { relation, pattern } of RELATION_CUES) {
+    for (const match of fragment.matchAll(pattern)) {
+      const position = match.index ?? 0;
+      const distance = preferEnd ? fragment.length - position : position;
+      if (!best || distance < best.distance) {
+        best = { relation, distance };
+      }
+    }
+  }
+
+  return best?.relation ?? null;
+}
+
+/**
+ * Classify how a document relates to the circular referenced at a position.
+ */
+function classifyReference(text: string, match: CircularIdMatch): CircularRelation {
+  return (
+    closestCue(leadingContext(text, match.start), true) ??
+    closestCue(trailingContext(text, match.end), false) ??
+    'refers_to'
+  );
+}
+
+/**
+ * Identify a circular's own identifier from its header.
+ *
+ * Identifiers introduced by reference phrases ("in partial modification of circular
+ * ...", "vide circular ...") are skipped, so a referenced circular quoted in the
+ * header is not mistaken for the document's own number.
+ *
+ * @param text - Cleaned document text.
+ * @returns The document's own circular identifier in canonical form, or null if none is found.
+ */
+export function extractOwnCircularId(text: string): string | null {
+  const header = text.slice(0, HEADER_LENGTH);
+  const matches = findCircularIds(header);
+
+  for (const match of matches) {
+    const lineStart = header.lastIndexOf('\n', match.start) + 1;
+    const before = header.slice(lineStart, match.start);
+    const hasCue = RELATION_CUES.some(({ pattern }) => new RegExp(pattern.source, 'i').test(before));
+
+    if (!hasCue && !REFERENCE_CUE.test(before)) {
+      return match.id.canonical;
+    }
+  }
+
+  return findCircularIds(text)[0]?.id.canonical ?? null;
+}
+
+/**
+ * Extract every circular referenced by a document, with its relationship.
+ *
+ * The relationship comes from the closest cue phrase in the same sentence, e.g.
+ * "in partial modification of" (modifies), "in supersession of" (supersedes) or
+ * "is hereby rescinded" (rescinds); references without a cue are "refers_to".
+ *
+ * @param text - Cleaned document text.
+ * @param ownCircularId - The document's own identifier, excluded from the result.
+ * @returns One reference per referenced circular and relationship, with canonical identifiers.
+ *
+ * @example
+ * ```ts
+ * const refs = extractCrossReferences(
+ *   'In partial modification of circular SEBI/HO/IMD/DF2/CIR/P/2019/17, ...',
+ * );
+ * console.log(refs[0].relation); // "modifies"
+ * ```
+ */
+export function extractCrossReferences(
+  text: string,
+  ownCircularId?: string | null,
+): CircularReference[] {
+  const references = new Map<string, CircularReference>();
+
+  for (const match of findCircularIds(text)) {
+    if (ownCircularId && match.id.equals(ownCircularId)) continue;
+
+    const relation = classifyReference(text, match);
+    const key = `${relation}:${match.id.canonical}`;
+    if (references.has(key)) continue;
+
+    const context = [
+      leadingContext(text, match.start),
+      text.slice(match.start, match.end),
+      trailingContext(text, match.end),
+    ]
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    references.set(key, { circular_id: match.id.canonical, relation, context });
+  }
+
+  return [...references.values()];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Citation Graph
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A directed edge in the circular citation graph.
+ */
+export interface CitationEdge {
+  /** Referencing circular. */
+  from: string;
+  /** Referenced circular. */
+  to: string;
+  /** How `from` relates to `to`. */
+  relation: CircularRelation;
+}
+
+/**
+ * In-memory graph of references between circulars.
+ *
+ * @example
+ * ```ts
+ * const graph = new CitationGraph();
+ * graph.addReferences('SEBI/HO/IMD/2024/10', document.metadata.references);
+ * graph.citedBy('SEBI/HO/IMD/DF2/CIR/P/2019/17', ['modifies']); // which circulars amend it
+ * graph.referencesOf('SEBI/HO/IMD/2024/10'); // what it depends on
+ * ```
+ */
+export class CitationGraph {
+  private readonly outgoing = new Map<string, CitationEdge[]>();
+  private readonly incoming = new Map<string, CitationEdge[]>();
+
+  /**
+   * Add the references made by a circular, replacing any recorded earlier.
+   */
+  addReferences(circularId: string, references: CircularReference[]): void {
+    this.removeCircular(circularId);
+
+    const edges = references.map((reference) => ({
+      from: circularId,
+      to: reference.circular_id,
+      relation: reference.relation,
+    }));
+
+    this.outgoing.set(circularId, edges);
+    for (const edge of edges) {
+      this.incoming.set(edge.to, [...(this.incoming.get(edge.to) ?? []), edge]);
+    }
+  }
+
+  /**
+   * Circulars that the given circular references ("what does X depend on").
+   */
+  referencesOf(circularId: string, relations?: CircularRelation[]): CitationEdge[] {
+    return this.filterEdges(this.outgoing.get(circularId) ?? [], relations);
+  }
+
+  /**
+   * Circulars that reference the given circular ("which circulars amend X").
+   */
+  citedBy(circularId: string, relations?: CircularRelation[]): CitationEdge[] {
+    return this.filterEdges(this.incoming.get(circularId) ?? [], relations);
+  }
+
+  /**
+   * Every circular reachable by following references from the given circular.
+   */
+  dependenciesOf(circularId: string): string[] {
+    const visited = new Set<string>();
+    const queue = [circularId];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const edge of this.outgoing.get(current) ?? []) {
+        if (edge.to !== circularId && !visited.has(edge.to)) {
+          visited.add(edge.to);
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    return [...visited];
+  }
+
+  private removeCircular(circularId: string): void {
+    for (const edge of this.outgoing.get(circularId) ?? []) {
+      const remaining = (this.incoming.get(edge.to) ?? []).filter((e) => e.from !== circularId);
+      if (remaining.length > 0) {
+        this.incoming.set(edge.to, remaining);
+      } else {
+        this.incoming.delete(edge.to);
+      }
+    }
+    this.outgoing.delete(circularId);
+  }
+
+  private filterEdges(edges: CitationEdge[], relations?: CircularRelation[]): CitationEdge[] {
+    return relations ? edges.filter((edge) => relations.includes(edge.relation)) : [...edges];
+  }
+}
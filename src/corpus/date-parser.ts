@@ -0,0 +1,182 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// SEBI Date Formats
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+const MONTH_NAME =
+  '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+/**
+ * Matches a date as written in SEBI circulars: "June 05, 2024", "05th June, 2024",
+ * "05-Jun-2024" or "05/06/2024" (numeric dates are day first).
+ */
+export const SEBI_DATE_PATTERN = new RegExp(
+  [
+    `\\d{1,2}(?:st|nd|rd|th)?[\\s-]+${MONTH_NAME}\\.?,?[\\s-]+\\d{4}`,
+    `${MONTH_NAME}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`,
+    '\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{4}',
+  ].join('|'),
+  'gi',
+);
+
+/** Number of leading lines treated as the circular header. */
+const HEADER_LINES = 25;
+
+/** A "Date:" or "Dated" label introducing the issue date. */
+const DATE_LABEL = /(?:^|\s)Dated?\s*[:\-–]\s*$|^\s*Dated?\s+$/i;
+
+/** Words that introduce the date of another circular rather than the issue date. */
+const REFERENCE_CUE = /\b(?:dated|vide|circular|of|on|from|till|until|by)\s*$/i;
+
+/**
+ * Where an issue date was found, from most to least reliable.
+ */
+export type IssueDateSource = 'dated_label' | 'header_line' | 'header' | 'body';
+
+/**
+ * The issue date of a circular with the evidence it was taken from.
+ */
+export interface IssueDate {
+  date: Date;
+  /** Confidence that this is the issue date, from 0 to 1. */
+  confidence: number;
+  source: IssueDateSource;
+  /** The date as written in the document. */
+  text: string;
+}
+
+const SOURCE_CONFIDENCE: Record<IssueDateSource, number> = {
+  dated_label: 0.95,
+  header_line: 0.85,
+  header: 0.6,
+  body: 0.3,
+};
+
+/**
+ * Parse a date written in SEBI's conventions.
+ *
+ * Numeric dates are read day first ("05/06/2024" is 5 June 2024); ISO dates
+ * ("2024-06-05") are also accepted.
+ *
+ * @param value - Date text such as "June 05, 2024", "05th June, 2024" or "05/06/2024".
+ * @returns The date at UTC midnight, or null if it is not a valid date.
+ *
+ * @example
+ * ```ts
+ * parseSEBIDate('05/06/2024')?.toISOString(); // "2024-06-05T00:00:00.000Z"
+ * ```
+ */
+export function parseSEBIDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const text = trimmed
+    .toLowerCase()
+    .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+    .replace(/[,.-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const dayFirst = text.match(/^(\d{1,2}) ([a-z]+) (\d{4})$/);
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2}) (\d{4})$/);
+
+  let day: number;
+  let month: number | undefined;
+  let year: number;
+
+  if (iso) {
+    [day, month, year] = [Number(iso[3]), Number(iso[2]) - 1, Number(iso[1])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]) - 1, Number(numeric[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), MONTHS[dayFirst[2].slice(0, 3)], Number(dayFirst[3])];
+  } else if (monthFirst) {
+    [day, month, year] = [Number(monthFirst[2]), MONTHS[monthFirst[1].slice(0, 3)], Number(monthFirst[3])];
+  } else {
+    return null;
+  }
+
+  if (month === undefined || month < 0 || month > 11 || day < 1) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Find every parseable date in a line with the text preceding it.
+ */
+function findDates(line: string): Array<{ date: Date; text: string; before: string }> {
+  return [...line.matchAll(SEBI_DATE_PATTERN)].flatMap((match) => {
+    const date = parseSEBIDate(match[0]);
+    return date ? [{ date, text: match[0], before: line.slice(0, match.index ?? 0) }] : [];
+  });
+}
+
+/**
+ * Extract the issue date of a circular.
+ *
+ * Header dates are preferred over dates in the body: a "Date:"/"Dated" label first,
+ * then a line holding only a date, then any other header date that is not introduced
+ * as the date of another circular ("circular dated ..."). Body dates are a last
+ * resort with low confidence.
+ *
+ * @param text - Cleaned document text.
+ * @returns The issue date with its confidence, or null if the text has no date.
+ *
+ * @example
+ * ```ts
+ * const issued = extractIssueDate('CIRCULAR\nSEBI/HO/IMD/2024/90\nDated: 05/06/2024');
+ * console.log(issued?.date, issued?.confidence); // 2024-06-05, 0.95
+ * ```
+ */
+export function extractIssueDate(text: string): IssueDate | null {
+  const lines = text.split('\n');
+  const header = lines.slice(0, HEADER_LINES);
+  const candidates: Array<{ date: Date; text: string; source: IssueDateSource }> = [];
+
+  for (const line of header) {
+    for (const found of findDates(line)) {
+      if (DATE_LABEL.test(found.before)) {
+        candidates.push({ ...found, source: 'dated_label' });
+      } else if (line.trim() === found.text.trim()) {
+        candidates.push({ ...found, source: 'header_line' });
+      } else if (!REFERENCE_CUE.test(found.before)) {
+        candidates.push({ ...found, source: 'header' });
+      }
+    }
+  }
+
+  const best = (['dated_label', 'header_line', 'header'] as const)
+    .map((source) => candidates.find((candidate) => candidate.source === source))
+    .find(Boolean);
+
+  if (best) {
+    return {
+      date: best.date,
+      confidence: SOURCE_CONFIDENCE[best.source],
+      source: best.source,
+      text: best.text,
+    };
+  }
+
+  const bodyDate = lines.slice(HEADER_LINES).flatMap(findDates)[0];
+  return bodyDate
+    ? { date: bodyDate.date, confidence: SOURCE_CONFIDENCE.body, source: 'body', text: bodyDate.text }
+    : null;
+}
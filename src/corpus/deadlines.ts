@@ -0,0 +1,170 @@
+import { parseSEBIDate, SEBI_DATE_PATTERN } from './date-parser.js';
+import { type ComplianceDate, type ComplianceDateKind } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Date Phrases
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  thirty: 30,
+  'forty-five': 45,
+  sixty: 60,
+  ninety: 90,
+};
+
+/** An absolute date in any format accepted by {@link parseSEBIDate}. */
+const DATE = `(?:${SEBI_DATE_PATTERN.source})`;
+
+/** A period length: "30 days", "three months". */
+const PERIOD = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')})\\s*(?:\\(\\d+\\)\\s*)?(days?|weeks?|months?)`;
+
+/** Reference to the circular's own issue: "of this circular", "from the date of issue". */
+const FROM_ISSUE =
+  '(?:of|from)\\s+(?:the\\s+)?(?:date\\s+of\\s+)?(?:(?:issue|issuance)\\s+of\\s+)?(?:this\\s+circular|issue|issuance)';
+
+const TAKES_EFFECT =
+  '(?:come\\s+into\\s+(?:force|effect)|(?:be(?:come)?\\s+)?(?:applicable|effective))';
+
+/** Phrase patterns; group 1 is an absolute date or, for relative patterns, the period amount. */
+const PHRASES: Array<{
+  kind: ComplianceDateKind;
+  pattern: RegExp;
+  resolve: 'absolute' | 'relative' | 'issue';
+}> = [
+  {
+    kind: 'effective',
+    pattern: new RegExp(`${TAKES_EFFECT}\\s+(?:with\\s+effect\\s+)?(?:from|on)\\s+(?:the\\s+)?(${DATE})`, 'gi'),
+    resolve: 'absolute',
+  },
+  {
+    kind: 'effective',
+    pattern: new RegExp(`(?:with\\s+effect\\s+from|w\\.e\\.f\\.?)\\s+(${DATE})`, 'gi'),
+    resolve: 'absolute',
+  },
+  {
+    kind: 'effective',
+    pattern: new RegExp(
+      `${TAKES_EFFECT}\\s+(?:from\\s+the\\s+\\w+\\s+day\\s+)?(?:after|from|on\\s+completion\\s+of)\\s+${PERIOD}\\s+${FROM_ISSUE}`,
+      'gi',
+    ),
+    resolve: 'relative',
+  },
+  {
+    kind: 'effective',
+    pattern: new RegExp(
+      `${TAKES_EFFECT}\\s+(?:with\\s+immediate\\s+effect|immediately|from\\s+the\\s+date\\s+of\\s+(?:its\\s+)?(?:issue|issuance))`,
+      'gi',
+    ),
+    resolve: 'issue',
+  },
+  {
+    kind: 'deadline',
+    pattern: new RegExp(`within\\s+(?:a\\s+period\\s+of\\s+)?${PERIOD}\\s+${FROM_ISSUE}`, 'gi'),
+    resolve: 'relative',
+  },
+  {
+    kind: 'deadline',
+    pattern: new RegExp(
+      `(?:\\bby|on\\s+or\\s+before|not\\s+later\\s+than|no\\s+later\\s+than|latest\\s+by|till|until)\\s+(${DATE})`,
+      'gi',
+    ),
+    resolve: 'absolute',
+  },
+];
+
+/**
+ * Add a period to a date in UTC.
+ */
+function addPeriod(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date.getTime());
+  if (unit.startsWith('month')) {
+    result.setUTCMonth(result.getUTCMonth() + amount);
+  } else {
+    result.setUTCDate(result.getUTCDate() + amount * (unit.startsWith('week') ? 7 : 1));
+  }
+  return result;
+}
+
+/**
+ * Extract effective dates and compliance deadlines from circular text.
+ *
+ * Recognises phrases such as "shall come into force with effect from April 1, 2024",
+ * "applicable from 01/04/2024", "within 30 days of this circular" and "by March 31,
+ * 2025". Relative phrases are resolved against the issue date and skipped without one.
+ *
+ * @param text - Cleaned document text.
+ * @param issueDate - The circular's issue date, used to resolve relative phrases.
+ * @returns Unique compliance dates in order of appearance.
+ *
+ * @example
+ * ```ts
+ * const dates = extractComplianceDates(
+ *   'AMCs shall comply within 30 days of this circular.',
+ *   new Date('2024-06-05'),
+ * );
+ * console.log(dates[0].date); // 2024-07-05
+ * ```
+ */
+export function extractComplianceDates(text: string, issueDate?: Date | null): ComplianceDate[] {
+  const found: Array<{ position: number; complianceDate: ComplianceDate }> = [];
+  const seen = new Set<string>();
+
+  for (const { kind, pattern, resolve } of PHRASES) {
+    for (const match of text.matchAll(pattern)) {
+      let date: Date | null = null;
+
+      if (resolve === 'absolute') {
+        date = parseSEBIDate(match[1]);
+      } else if (resolve === 'issue' && issueDate) {
+        date = new Date(issueDate.getTime());
+      } else if (issueDate) {
+        const amount = Number(match[1]) || NUMBER_WORDS[match[1].toLowerCase()];
+        date = addPeriod(issueDate, amount, match[2].toLowerCase());
+      }
+
+      if (!date) continue;
+
+      const key = `${kind}:${date.toISOString()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      found.push({
+        position: match.index ?? 0,
+        complianceDate: {
+          kind,
+          date,
+          text: match[0].replace(/\s+/g, ' ').trim(),
+          relative: resolve !== 'absolute',
+        },
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.position - b.position).map((entry) => entry.complianceDate);
+}
+
+/**
+ * Pick the effective date of a circular: the earliest stated effective date.
+ *
+ * @param dates - Compliance dates extracted from the circular.
+ * @returns The earliest effective date, or null if none is stated.
+ */
+export function resolveEffectiveDate(dates: ComplianceDate[]): Date | null {
+  const effective = dates
+    .filter((date) => date.kind === 'effective')
+    .map((date) => date.date.getTime());
+
+  return effective.length > 0 ? new Date(Math.min(...effective)) : null;
+}
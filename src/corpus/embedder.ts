@@ -1,24 +1,43 @@
-import { OpenAIEmbeddings } from '@langchain/openai';
-import NodeCache from 'node-cache';
 import crypto from 'node:crypto';
 
-import { type SEBIChunk, SEBIChunkSchema } from '../types/sebi-document.js';
+import { type DiskEmbeddingCache, type EmbeddingCacheKey, LruCache } from './embedding-cache.js';
+import { type EmbeddingProvider, OpenAIEmbeddingProvider } from './embedding-provider.js';
+import { countTokens, truncateToTokens } from './tokens.js';
+import { type SEBIChunk, createSEBIChunkSchema } from '../types/sebi-document.js';
 
-const DEFAULT_MODEL = 'text-embedding-3-large';
-const VECTOR_SIZE = 3072;
 const DEFAULT_BATCH_SIZE = 100;
 const DEFAULT_MAX_CONCURRENCY = 5;
 const MAX_CACHE_ENTRIES = 1000;
 const DEFAULT_RATE_LIMIT_PER_MINUTE = 3000;
+const DEFAULT_TOKENS_PER_MINUTE = 1_000_000;
+const DEFAULT_MAX_BATCH_TOKENS = 100_000;
+const DEFAULT_RETRY_ATTEMPTS = 5;
 
 const ONE_MINUTE_MS = 60_000;
 
 export interface EmbeddingGeneratorOptions {
+  /** OpenAI model, when the generator is created from an API key. */
   model?: string;
+  /** Maximum texts per request (default 100). */
   batchSize?: number;
+  /** Maximum tokens per request, across all texts (default 100,000). */
+  maxBatchTokens?: number;
+  /**
+   * Longest text sent to the provider, in tokens; longer texts are truncated with a
+   * warning (default: the provider's input limit).
+   */
+  maxInputTokens?: number;
   maxConcurrency?: number;
+  /** Lifetime of in-memory cache entries (default: no expiry). */
   cacheTtlSeconds?: number;
+  /** Maximum number of embeddings kept in memory (default 1000). */
+  cacheEntries?: number;
+  /** Persistent cache consulted before calling the provider. */
+  diskCache?: DiskEmbeddingCache;
+  /** Requests per minute (default 3000). */
   rateLimitPerMinute?: number;
+  /** Tokens per minute across all requests (default 1,000,000). */
+  tokensPerMinute?: number;
   logger?: Pick<typeof console, 'info' | 'warn' | 'error'>;
 }
 
@@ -26,6 +45,46 @@ export interface EmbeddingResult {
   embeddings: number[][];
 }
 
+/**
+ * Options for a single {@link EmbeddingGenerator.embedBatch} call.
+ */
+export interface EmbedBatchOptions {
+  /** Maximum texts per request (default: the generator's batch size). */
+  batchSize?: number;
+  /** Stops the run before the next batch; batches already sent are completed. */
+  signal?: AbortSignal;
+  /** Called after each batch with the number of texts embedded so far. */
+  onProgress?: (progress: EmbeddingProgress) => void;
+}
+
+export interface EmbeddingProgress {
+  embedded: number;
+  total: number;
+}
+
+/**
+ * Texts and tokens processed by a generator, including those served from the cache.
+ */
+export interface EmbeddingUsage {
+  texts: number;
+  tokens: number;
+  /** Texts served from the memory or disk cache, at no cost. */
+  cachedTexts: number;
+  cachedTokens: number;
+}
+
+/** A text ready to embed, with its token count. */
+interface EmbeddingInput {
+  text: string;
+  tokens: number;
+}
+
+/** Consecutive inputs sent in one request, starting at `start` in the original list. */
+interface EmbeddingBatch {
+  start: number;
+  items: EmbeddingInput[];
+}
+
 /**
  * Generate an MD5 based cache key for the provided text.
  */
@@ -33,98 +92,207 @@ export function cacheKey(text: string): string {
   return crypto.createHash('md5').update(text).digest('hex');
 }
 
+/**
+ * Delay requested by a rate-limited response, from its `retry-after-ms` or
+ * `retry-after` header (seconds or an HTTP date).
+ */
+export function retryAfterMs(error: unknown): number | null {
+  const source = error as { headers?: unknown; response?: { headers?: unknown } } | null;
+  const headers = source?.headers ?? source?.response?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+
+  const read = (name: string): string | undefined => {
+    if (typeof (headers as Headers).get === 'function') {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (read('retry-after-ms') && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const retryAfter = read('retry-after');
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a failed request is worth retrying: timeouts, conflicts, rate limits and
+ * server errors.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * HTTP status of a failed request, when the error carries one.
+ */
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown; response?: { status?: unknown } } | null)?.status ??
+    (error as { response?: { status?: unknown } } | null)?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
 /**
  * Utility helper to pause execution.
  */
-async function delay(ms: number): Promise<void> {
+async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
   if (ms <= 0) return;
-  await new Promise((resolve) => setTimeout(resolve, ms));
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
  * Embedding generator with caching, batching, and rate limiting support.
+ *
+ * Vectors come from an {@link EmbeddingProvider}; passing an API key instead uses
+ * OpenAI, as before providers were pluggable.
+ *
+ * @example
+ * ```ts
+ * const offline = new EmbeddingGenerator(new HashedEmbeddingProvider({ dimensions: 384 }));
+ * const openai = new EmbeddingGenerator(process.env.OPENAI_API_KEY!);
+ * ```
  */
 export class EmbeddingGenerator {
-  private readonly embeddings: OpenAIEmbeddings;
-  private readonly cache: NodeCache;
-  private readonly cacheSize: number;
+  readonly provider: EmbeddingProvider;
+  private readonly chunkSchema: ReturnType<typeof createSEBIChunkSchema>;
+  private readonly cache: LruCache<number[]>;
+  private readonly diskCache?: DiskEmbeddingCache;
   private readonly batchSize: number;
+  private readonly maxBatchTokens: number;
+  private readonly maxInputTokens: number;
   private readonly maxConcurrency: number;
   private readonly logger: Pick<typeof console, 'info' | 'warn' | 'error'>;
   private readonly rateLimitPerMinute: number;
-  private readonly requestTimestamps: number[] = [];
-
-  constructor(private readonly apiKey: string, options: EmbeddingGeneratorOptions = {}) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required for embeddings');
-    }
-
+  private readonly tokensPerMinute: number;
+  /** Requests sent in the last minute, with their token counts. */
+  private readonly requestLog: Array<{ time: number; tokens: number }> = [];
+  private readonly totals: EmbeddingUsage = { texts: 0, tokens: 0, cachedTexts: 0, cachedTokens: 0 };
+
+  constructor(provider: EmbeddingProvider | string, options: EmbeddingGeneratorOptions = {}) {
+    this.provider =
+      typeof provider === 'string' ? new OpenAIEmbeddingProvider(provider, { model: options.model }) : provider;
+    this.chunkSchema = createSEBIChunkSchema(this.provider.dimensions);
     this.logger = options.logger ?? console;
     this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxBatchTokens = options.maxBatchTokens ?? DEFAULT_MAX_BATCH_TOKENS;
+    this.maxInputTokens = options.maxInputTokens ?? this.provider.maxInputTokens ?? Number.POSITIVE_INFINITY;
     this.maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
-    this.cacheSize = MAX_CACHE_ENTRIES;
     this.rateLimitPerMinute = options.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+    this.tokensPerMinute = options.tokensPerMinute ?? DEFAULT_TOKENS_PER_MINUTE;
+    this.diskCache = options.diskCache;
 
-    this.cache = new NodeCache({
-      stdTTL: options.cacheTtlSeconds ?? 60 * 60,
-      checkperiod: 120,
-      useClones: false,
-    });
+    this.cache = new LruCache(
+      options.cacheEntries ?? MAX_CACHE_ENTRIES,
+      options.cacheTtlSeconds === undefined ? undefined : options.cacheTtlSeconds * 1000,
+    );
+  }
 
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: apiKey,
-      model: options.model ?? DEFAULT_MODEL,
-    });
+  /**
+   * Length of the vectors produced by the provider.
+   */
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  /**
+   * Texts and tokens embedded since the generator was created.
+   */
+  get usage(): EmbeddingUsage {
+    return { ...this.totals };
   }
 
   /**
    * Generate an embedding for a single text string.
    */
   async embedText(text: string): Promise<number[]> {
-    const trimmed = text.trim();
-    if (!trimmed) {
+    if (!text.trim()) {
       throw new Error('Cannot embed empty text');
     }
+    const { text: trimmed, tokens } = this.prepareInput(text.trim());
 
     const key = cacheKey(trimmed);
-    const cached = this.cache.get<number[]>(key);
+    const cached = await this.readCache(key);
     if (cached) {
+      this.recordUsage(1, tokens, 1, tokens);
       return cached;
     }
 
     const embedding = await this.executeWithRetry(async () => {
-      await this.enforceRateLimit();
-      const result = await this.embeddings.embedQuery(trimmed);
+      await this.enforceRateLimit(tokens);
+      const result = await this.provider.embedQuery(trimmed);
       return result;
     });
 
-    this.setCacheEntry(key, embedding);
     this.ensureVectorSize(embedding, trimmed);
+    await this.writeCache(key, embedding);
+    this.recordUsage(1, tokens, 0, 0);
     return embedding;
   }
 
   /**
    * Generate embeddings for a list of texts.
+   *
+   * Requests hold at most `batchSize` texts and `maxBatchTokens` tokens; texts over the
+   * input limit are truncated. Once `signal` is aborted no further batch is sent, and
+   * the call rejects with the abort reason after the batches in flight complete.
+   *
+   * @param texts - Texts to embed.
+   * @param options - Batch size, abort signal and progress callback; a number is taken as the batch size.
    */
-  async embedBatch(texts: string[], batchSize = this.batchSize): Promise<number[][]> {
+  async embedBatch(texts: string[], options: EmbedBatchOptions | number = {}): Promise<number[][]> {
     if (texts.length === 0) {
       return [];
     }
 
+    const { batchSize = this.batchSize, signal, onProgress } =
+      typeof options === 'number' ? { batchSize: options } : options;
     const results: Array<number[] | undefined> = new Array(texts.length);
-    const batches = this.createBatches(texts, batchSize);
+    const batches = this.createBatches(
+      texts.map((text) => this.prepareInput(text)),
+      batchSize,
+    );
     let processed = 0;
 
-    await this.runWithConcurrency(batches, async ({ start, items }) => {
-      const vectors = await this.embedTextsChunk(items);
-      vectors.forEach((vector, idx) => {
-        results[start + idx] = vector;
-      });
-      processed += items.length;
-      if (texts.length >= 50 && processed % 50 === 0) {
-        this.logger.info?.(`Embedded ${processed}/${texts.length} texts`);
-      }
-    });
+    await this.runWithConcurrency(
+      batches,
+      async ({ start, items }) => {
+        const vectors = await this.embedTextsChunk(items, signal);
+        vectors.forEach((vector, idx) => {
+          results[start + idx] = vector;
+        });
+        processed += items.length;
+        if (onProgress) {
+          onProgress({ embedded: processed, total: texts.length });
+        } else if (batches.length > 1) {
+          this.logger.info?.(`Embedded ${processed}/${texts.length} texts`);
+        }
+      },
+      signal,
+    );
 
     return results.map((vector, index) => {
       if (!vector) {
@@ -134,46 +302,116 @@ export class EmbeddingGenerator {
     });
   }
 
+  /**
+   * Count the tokens embedding a list of texts would use and how many of them are
+   * already cached, without calling the provider.
+   */
+  async estimateBatch(texts: string[]): Promise<EmbeddingUsage> {
+    const usage: EmbeddingUsage = { texts: 0, tokens: 0, cachedTexts: 0, cachedTokens: 0 };
+
+    for (const input of texts.map((text) => this.prepareInput(text))) {
+      usage.texts += 1;
+      usage.tokens += input.tokens;
+      if (await this.isCached(cacheKey(input.text))) {
+        usage.cachedTexts += 1;
+        usage.cachedTokens += input.tokens;
+      }
+    }
+
+    return usage;
+  }
+
   /**
    * Embed chunk content and attach embeddings to each chunk.
+   *
+   * @param chunks - Chunks to embed.
+   * @param texts - Text to embed for each chunk, such as the content with a contextual
+   * header (see {@link buildEmbeddingText}); defaults to the chunk content.
+   * @param options - Batch size, abort signal and progress callback.
    */
-  async embedChunks(chunks: SEBIChunk[]): Promise<SEBIChunk[]> {
+  async embedChunks(chunks: SEBIChunk[], texts?: string[], options: EmbedBatchOptions = {}): Promise<SEBIChunk[]> {
     if (chunks.length === 0) {
       return [];
     }
+    if (texts && texts.length !== chunks.length) {
+      throw new Error('Chunks and embedding texts length mismatch');
+    }
 
-    const embeddings = await this.embedBatch(chunks.map((chunk) => chunk.content));
+    const embeddings = await this.embedBatch(texts ?? chunks.map((chunk) => chunk.content), options);
 
     return chunks.map((chunk, idx) => {
       const enriched = {
         ...chunk,
         embedding: embeddings[idx],
       } satisfies SEBIChunk;
-      return SEBIChunkSchema.parse(enriched);
+      return this.chunkSchema.parse(enriched);
     });
   }
 
-  private createBatches(items: string[], batchSize: number): Array<{ start: number; items: string[] }> {
-    const batches: Array<{ start: number; items: string[] }> = [];
-    for (let i = 0; i < items.length; i += batchSize) {
-      batches.push({ start: i, items: items.slice(i, i + batchSize) });
+  /**
+   * Truncate a text to the input limit, returning it with its token count.
+   */
+  private prepareInput(text: string): EmbeddingInput {
+    const tokens = countTokens(text);
+    if (tokens <= this.maxInputTokens) {
+      return { text, tokens };
     }
+
+    this.logger.warn?.(
+      `Truncating embedding input from ${tokens} to ${this.maxInputTokens} tokens: ${text.slice(0, 32)}...`,
+    );
+    return { text: truncateToTokens(text, this.maxInputTokens), tokens: this.maxInputTokens };
+  }
+
+  /**
+   * Group consecutive inputs into batches within both the item and token budgets.
+   */
+  private createBatches(items: EmbeddingInput[], batchSize: number): EmbeddingBatch[] {
+    const batches: EmbeddingBatch[] = [];
+    let current: EmbeddingBatch | null = null;
+    let currentTokens = 0;
+
+    items.forEach((item, index) => {
+      const full =
+        current && (current.items.length >= batchSize || currentTokens + item.tokens > this.maxBatchTokens);
+      if (!current || full) {
+        current = { start: index, items: [] };
+        currentTokens = 0;
+        batches.push(current);
+      }
+      current.items.push(item);
+      currentTokens += item.tokens;
+    });
+
     return batches;
   }
 
+  /**
+   * Process batches with a bounded number of workers, stopping before the next batch
+   * once a batch fails or the signal is aborted. Batches in flight are always awaited.
+   */
   private async runWithConcurrency(
-    items: Array<{ start: number; items: string[] }>,
-    worker: (item: { start: number; items: string[] }) => Promise<void>,
+    items: EmbeddingBatch[],
+    worker: (item: EmbeddingBatch) => Promise<void>,
+    signal?: AbortSignal,
   ): Promise<void> {
     const queue = [...items];
     const workers: Promise<void>[] = [];
     const concurrency = Math.min(this.maxConcurrency, queue.length);
 
+    let failed = false;
+
     const runWorker = async (): Promise<void> => {
-      while (queue.length > 0) {
+      while (queue.length > 0 && !failed) {
+        signal?.throwIfAborted();
         const next = queue.shift();
         if (!next) break;
-        await worker(next);
+        try {
+          await worker(next);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
       }
     };
 
@@ -181,40 +419,54 @@ export class EmbeddingGenerator {
       workers.push(runWorker());
     }
 
-    await Promise.all(workers);
+    const settled = await Promise.allSettled(workers);
+    const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
   }
 
-  private async embedTextsChunk(texts: string[]): Promise<number[][]> {
-    const vectors: Array<number[] | undefined> = new Array(texts.length);
+  private async embedTextsChunk(inputs: EmbeddingInput[], signal?: AbortSignal): Promise<number[][]> {
+    const vectors: Array<number[] | undefined> = new Array(inputs.length);
     const uncachedTexts: string[] = [];
     const uncachedIndices: number[] = [];
+    let uncachedTokens = 0;
 
-    texts.forEach((text, index) => {
-      const key = cacheKey(text);
-      const cached = this.cache.get<number[]>(key);
+    const cachedVectors = await Promise.all(inputs.map((input) => this.readCache(cacheKey(input.text))));
+    cachedVectors.forEach((cached, index) => {
       if (cached) {
         vectors[index] = cached;
         return;
       }
-      uncachedTexts.push(text);
+      uncachedTexts.push(inputs[index].text);
       uncachedIndices.push(index);
+      uncachedTokens += inputs[index].tokens;
     });
 
     if (uncachedTexts.length > 0) {
       const fetched = await this.executeWithRetry(async () => {
-        await this.enforceRateLimit();
-        const result = await this.embeddings.embedDocuments(uncachedTexts);
+        await this.enforceRateLimit(uncachedTokens, signal);
+        const result = await this.provider.embedDocuments(uncachedTexts);
         return result;
-      });
-
-      fetched.forEach((vector, idx) => {
-        this.ensureVectorSize(vector, uncachedTexts[idx]);
-        const key = cacheKey(uncachedTexts[idx]);
-        this.setCacheEntry(key, vector);
-        vectors[uncachedIndices[idx]] = vector;
-      });
+      }, signal);
+
+      await Promise.all(
+        fetched.map(async (vector, idx) => {
+          this.ensureVectorSize(vector, uncachedTexts[idx]);
+          vectors[uncachedIndices[idx]] = vector;
+          await this.writeCache(cacheKey(uncachedTexts[idx]), vector);
+        }),
+      );
     }
 
+    const totalTokens = inputs.reduce((sum, input) => sum + input.tokens, 0);
+    this.recordUsage(
+      inputs.length,
+      totalTokens,
+      inputs.length - uncachedTexts.length,
+      totalTokens - uncachedTokens,
+    );
+
     return vectors.map((vector, idx) => {
       if (!vector) {
         throw new Error(`Missing embedding for batch entry ${idx}`);
@@ -223,25 +475,83 @@ export class EmbeddingGenerator {
     });
   }
 
-  private setCacheEntry(key: string, value: number[]): void {
-    if (this.cache.keys().length >= this.cacheSize && !this.cache.has(key)) {
-      const oldestKey = this.cache.keys()[0];
-      if (oldestKey) {
-        this.cache.del(oldestKey);
-      }
+  private recordUsage(texts: number, tokens: number, cachedTexts: number, cachedTokens: number): void {
+    this.totals.texts += texts;
+    this.totals.tokens += tokens;
+    this.totals.cachedTexts += cachedTexts;
+    this.totals.cachedTokens += cachedTokens;
+  }
+
+  /**
+   * Look up an embedding in memory, then on disk.
+   */
+  private async readCache(textHash: string): Promise<number[] | undefined> {
+    const cached = this.cache.get(textHash);
+    if (cached || !this.diskCache) {
+      return cached;
+    }
+
+    const stored = await this.diskCache.get(this.diskCacheKey(textHash));
+    if (!stored) {
+      return undefined;
+    }
+    this.cache.set(textHash, stored);
+    return stored;
+  }
+
+  /**
+   * Whether an embedding is cached, without reading it or refreshing its disk entry.
+   */
+  private async isCached(textHash: string): Promise<boolean> {
+    if (this.cache.has(textHash)) {
+      return true;
+    }
+    return (await this.diskCache?.has(this.diskCacheKey(textHash))) ?? false;
+  }
+
+  /**
+   * Cache an embedding in memory and on disk; disk failures only cost a later re-embed.
+   */
+  private async writeCache(textHash: string, vector: number[]): Promise<void> {
+    this.cache.set(textHash, vector);
+    if (!this.diskCache || vector.length !== this.provider.dimensions) {
+      return;
+    }
+
+    try {
+      await this.diskCache.set(this.diskCacheKey(textHash), vector);
+    } catch (error) {
+      this.logger.warn?.(`Failed to write embedding cache: ${this.stringifyError(error)}`);
     }
-    this.cache.set(key, value);
+  }
+
+  private diskCacheKey(textHash: string): EmbeddingCacheKey {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: this.provider.dimensions,
+      textHash,
+    };
   }
 
   private ensureVectorSize(vector: number[], sourceText: string): void {
-    if (vector.length !== VECTOR_SIZE) {
+    if (vector.length !== this.provider.dimensions) {
       this.logger.warn?.(
         `Unexpected embedding size (${vector.length}) for text snippet: ${sourceText.slice(0, 32)}...`,
       );
     }
   }
 
-  private async executeWithRetry<T>(fn: () => Promise<T>, attempts = 5): Promise<T> {
+  /**
+   * Run a request, retrying transient failures with exponential backoff. Rate-limited
+   * responses wait as long as their Retry-After header asks; client errors such as an
+   * invalid input are not retried.
+   */
+  private async executeWithRetry<T>(
+    fn: () => Promise<T>,
+    signal?: AbortSignal,
+    attempts = DEFAULT_RETRY_ATTEMPTS,
+  ): Promise<T> {
     let lastError: unknown;
 
     for (let attempt = 1; attempt <= attempts; attempt++) {
@@ -249,28 +559,52 @@ export class EmbeddingGenerator {
         return await fn();
       } catch (error) {
         lastError = error;
-        const delayMs = 2 ** attempt * 100;
-        this.logger.warn?.(`Embedding request failed (attempt ${attempt}): ${this.stringifyError(error)}`);
-        await delay(delayMs);
+        if (signal?.aborted) {
+          throw error;
+        }
+        const status = errorStatus(error);
+        if (status !== undefined && !isRetryableStatus(status)) {
+          throw error;
+        }
+
+        const delayMs = retryAfterMs(error) ?? 2 ** attempt * 100;
+        this.logger.warn?.(
+          `Embedding request failed (attempt ${attempt}, retrying in ${Math.round(delayMs)}ms): ` +
+            this.stringifyError(error),
+        );
+        if (attempt < attempts) {
+          await delay(delayMs, signal);
+        }
       }
     }
 
     throw lastError;
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    // Remove timestamps older than 1 minute
-    while (this.requestTimestamps.length > 0 && now - this.requestTimestamps[0] > ONE_MINUTE_MS) {
-      this.requestTimestamps.shift();
-    }
+  /**
+   * Wait until a request of the given size fits within both the requests-per-minute
+   * and tokens-per-minute limits, then record it.
+   */
+  private async enforceRateLimit(tokens: number, signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      // Remove requests older than 1 minute
+      while (this.requestLog.length > 0 && now - this.requestLog[0].time > ONE_MINUTE_MS) {
+        this.requestLog.shift();
+      }
 
-    if (this.requestTimestamps.length >= this.rateLimitPerMinute) {
-      const waitMs = ONE_MINUTE_MS - (now - this.requestTimestamps[0]) + 5;
-      await delay(waitMs);
-    }
+      const usedTokens = this.requestLog.reduce((sum, entry) => sum + entry.tokens, 0);
+      const withinRequests = this.requestLog.length < this.rateLimitPerMinute;
+      // A request larger than the whole budget still goes through once the window is empty
+      const withinTokens = usedTokens + tokens <= this.tokensPerMinute || this.requestLog.length === 0;
+
+      if (withinRequests && withinTokens) {
+        this.requestLog.push({ time: now, tokens });
+        return;
+      }
 
-    this.requestTimestamps.push(Date.now());
+      await delay(ONE_MINUTE_MS - (now - this.requestLog[0].time) + 5, signal);
+    }
   }
 
   private stringifyError(error: unknown): string {
@@ -0,0 +1,349 @@
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-Memory LRU
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Least-recently-used cache with a fixed number of entries and an optional TTL.
+ *
+ * Relies on {@link Map} preserving insertion order: reads re-insert the entry, so the
+ * first key is always the least recently used.
+ */
+export class LruCache<V> {
+  private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs = Number.POSITIVE_INFINITY,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// On-Disk Embedding Cache
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default cache location, shared by every corpus on the machine. */
+export const DEFAULT_EMBEDDING_CACHE_DIR = path.join(os.homedir(), '.cache', 'sebi-corpus', 'embeddings');
+
+/** Room for about 350k entries of 3072 dimensions, more than the full circular corpus. */
+const DEFAULT_MAX_SIZE_BYTES = 4 * 1024 ** 3;
+const ENTRY_EXTENSION = '.f32';
+const BYTES_PER_VALUE = Float32Array.BYTES_PER_ELEMENT;
+
+/**
+ * Identifies a cached embedding: the same text embedded by another provider, model or
+ * vector size is a different entry.
+ */
+export interface EmbeddingCacheKey {
+  provider: string;
+  model: string;
+  dimensions: number;
+  /** Hash of the embedded text. */
+  textHash: string;
+}
+
+export interface DiskEmbeddingCacheOptions {
+  /** Cache directory (default ~/.cache/sebi-corpus/embeddings). */
+  directory?: string;
+  /** Size above which least recently used entries are evicted (default 4 GiB). */
+  maxSizeBytes?: number;
+}
+
+/**
+ * Entry count and size of the cache, in total and per provider/model/dimensions.
+ */
+export interface EmbeddingCacheStats {
+  directory: string;
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  namespaces: Record<string, { entries: number; sizeBytes: number }>;
+  oldestAccess: Date | null;
+  newestAccess: Date | null;
+}
+
+export interface PruneOptions {
+  /** Evict least recently used entries until the cache is at most this size. */
+  maxSizeBytes?: number;
+  /** Remove entries not used since this date. */
+  unusedSince?: Date;
+}
+
+export interface PruneResult {
+  removed: number;
+  freedBytes: number;
+}
+
+interface EntryInfo {
+  namespace: string;
+  sizeBytes: number;
+  lastAccess: number;
+}
+
+/**
+ * Persistent embedding cache, so re-ingesting a corpus does not pay to embed
+ * unchanged text again.
+ *
+ * Each embedding is stored as a file of little-endian float32 values, the precision
+ * embedding APIs return, under a directory per provider, model and vector size. File modification times record the
+ * last access and drive LRU eviction once the cache exceeds its size limit.
+ *
+ * @example
+ * ```ts
+ * const cache = new DiskEmbeddingCache({ maxSizeBytes: 512 * 1024 ** 2 });
+ * const key = { provider: 'openai', model: 'text-embedding-3-large', dimensions: 3072, textHash: cacheKey(text) };
+ * const vector = (await cache.get(key)) ?? (await embed(text));
+ * await cache.set(key, vector);
+ * ```
+ */
+export class DiskEmbeddingCache {
+  readonly directory: string;
+  private readonly maxSizeBytes: number;
+  private index: Map<string, EntryInfo> | null = null;
+  private sizeBytes = 0;
+
+  constructor(options: DiskEmbeddingCacheOptions = {}) {
+    this.directory = path.resolve(options.directory ?? DEFAULT_EMBEDDING_CACHE_DIR);
+    this.maxSizeBytes = options.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+  }
+
+  /**
+   * Read a cached embedding, marking it as recently used.
+   *
+   * @returns The embedding, or null on a miss or an unreadable entry.
+   */
+  async get(key: EmbeddingCacheKey): Promise<number[] | null> {
+    const file = this.entryPath(key);
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(file);
+    } catch {
+      return null;
+    }
+
+    if (buffer.length !== key.dimensions * BYTES_PER_VALUE) {
+      await this.removeEntry(file);
+      return null;
+    }
+
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    const entry = this.index?.get(file);
+    if (entry) {
+      entry.lastAccess = now.getTime();
+    }
+
+    const vector = new Array<number>(key.dimensions);
+    for (let i = 0; i < key.dimensions; i++) {
+      vector[i] = buffer.readFloatLE(i * BYTES_PER_VALUE);
+    }
+    return vector;
+  }
+
+  /**
+   * Whether an embedding is cached, without marking it as recently used.
+   */
+  async has(key: EmbeddingCacheKey): Promise<boolean> {
+    const stat = await fs.stat(this.entryPath(key)).catch(() => null);
+    return stat?.size === key.dimensions * BYTES_PER_VALUE;
+  }
+
+  /**
+   * Store an embedding, evicting least recently used entries if the cache is full.
+   */
+  async set(key: EmbeddingCacheKey, vector: number[]): Promise<void> {
+    if (vector.length !== key.dimensions) {
+      throw new Error(`Embedding has ${vector.length} dimensions, expected ${key.dimensions}`);
+    }
+
+    const index = await this.loadIndex();
+    const file = this.entryPath(key);
+    const buffer = Buffer.alloc(vector.length * BYTES_PER_VALUE);
+    vector.forEach((value, i) => buffer.writeFloatLE(value, i * BYTES_PER_VALUE));
+
+    // Write to a temporary file first so readers never see a partial entry
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temporary, buffer);
+    await fs.rename(temporary, file);
+
+    this.sizeBytes -= index.get(file)?.sizeBytes ?? 0;
+    index.set(file, { namespace: namespaceOf(key), sizeBytes: buffer.length, lastAccess: Date.now() });
+    this.sizeBytes += buffer.length;
+
+    if (this.sizeBytes > this.maxSizeBytes) {
+      await this.prune({ maxSizeBytes: this.maxSizeBytes });
+    }
+  }
+
+  /**
+   * Summarise the cache contents.
+   */
+  async stats(): Promise<EmbeddingCacheStats> {
+    const index = await this.loadIndex();
+    const namespaces: EmbeddingCacheStats['namespaces'] = {};
+    let oldest = Number.POSITIVE_INFINITY;
+    let newest = Number.NEGATIVE_INFINITY;
+
+    for (const entry of index.values()) {
+      const summary = (namespaces[entry.namespace] ??= { entries: 0, sizeBytes: 0 });
+      summary.entries += 1;
+      summary.sizeBytes += entry.sizeBytes;
+      oldest = Math.min(oldest, entry.lastAccess);
+      newest = Math.max(newest, entry.lastAccess);
+    }
+
+    return {
+      directory: this.directory,
+      entries: index.size,
+      sizeBytes: this.sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      namespaces,
+      oldestAccess: index.size > 0 ? new Date(oldest) : null,
+      newestAccess: index.size > 0 ? new Date(newest) : null,
+    };
+  }
+
+  /**
+   * Remove stale entries, then least recently used entries until the cache fits.
+   *
+   * @param options - Age and size limits; with no options, the configured size limit applies.
+   * @returns Number of entries removed and bytes freed.
+   */
+  async prune(options: PruneOptions = {}): Promise<PruneResult> {
+    const index = await this.loadIndex();
+    const maxSizeBytes = options.maxSizeBytes ?? this.maxSizeBytes;
+    const cutoff = options.unusedSince?.getTime() ?? Number.NEGATIVE_INFINITY;
+    const byAge = [...index.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    const result: PruneResult = { removed: 0, freedBytes: 0 };
+
+    for (const [file, entry] of byAge) {
+      if (entry.lastAccess >= cutoff && this.sizeBytes <= maxSizeBytes) {
+        break;
+      }
+      await this.removeEntry(file);
+      result.removed += 1;
+      result.freedBytes += entry.sizeBytes;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete every cached embedding.
+   *
+   * Only entry files and the namespace directories they leave empty are removed, so
+   * pointing the cache at a directory holding other files does not delete them.
+   *
+   * @returns Number of entries removed.
+   */
+  async clear(): Promise<number> {
+    const index = await this.loadIndex();
+    const removed = index.size;
+    const directories = new Set([...index.keys()].map((file) => path.dirname(file)));
+
+    for (const file of [...index.keys()]) {
+      await this.removeEntry(file);
+    }
+    for (const directory of directories) {
+      // Fails, and keeps the directory, if anything else is in it
+      await fs.rmdir(directory).catch(() => undefined);
+    }
+    return removed;
+  }
+
+  private entryPath(key: EmbeddingCacheKey): string {
+    return path.join(this.directory, namespaceOf(key), `${key.textHash}${ENTRY_EXTENSION}`);
+  }
+
+  private async removeEntry(file: string): Promise<void> {
+    await fs.rm(file, { force: true });
+    const entry = this.index?.get(file);
+    if (entry) {
+      this.sizeBytes -= entry.sizeBytes;
+      this.index?.delete(file);
+    }
+  }
+
+  /**
+   * Scan the cache directory once, recording each entry's size and last access.
+   */
+  private async loadIndex(): Promise<Map<string, EntryInfo>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const index = new Map<string, EntryInfo>();
+    let size = 0;
+    const namespaces = await fs.readdir(this.directory, { withFileTypes: true }).catch(() => []);
+
+    for (const namespace of namespaces.filter((entry) => entry.isDirectory())) {
+      const dir = path.join(this.directory, namespace.name);
+      for (const name of await fs.readdir(dir)) {
+        if (!name.endsWith(ENTRY_EXTENSION)) continue;
+        const file = path.join(dir, name);
+        const stat = await fs.stat(file).catch(() => null);
+        if (!stat) continue;
+        index.set(file, { namespace: namespace.name, sizeBytes: stat.size, lastAccess: stat.mtimeMs });
+        size += stat.size;
+      }
+    }
+
+    // Another call may have finished loading while this one was scanning
+    if (!this.index) {
+      this.index = index;
+      this.sizeBytes = size;
+    }
+    return this.index;
+  }
+}
+
+/**
+ * Directory name for a provider, model and vector size ("openai-text-embedding-3-large-3072").
+ */
+function namespaceOf(key: EmbeddingCacheKey): string {
+  return `${key.provider}-${key.model}-${key.dimensions}`.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
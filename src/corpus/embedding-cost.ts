@@ -0,0 +1,76 @@
+import type { EmbeddingUsage } from './embedder.js';
+import type { EmbeddingProvider } from './embedding-provider.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Embedding Cost Estimates
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** OpenAI list prices, in US dollars per million input tokens. */
+export const EMBEDDING_PRICES_PER_MILLION_TOKENS: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.1,
+};
+
+/**
+ * Projected spend for embedding a workload with one model.
+ */
+export interface EmbeddingCostEstimate {
+  model: string;
+  /** Whether this is the configured model, whose cache hits are free. */
+  configured: boolean;
+  /** Tokens that would be sent to the provider. */
+  billableTokens: number;
+  /** Spend in US dollars, or null if the model's price is unknown. */
+  costUsd: number | null;
+}
+
+/**
+ * Project the spend of embedding a workload with the configured model and each
+ * priced OpenAI model.
+ *
+ * Cached embeddings belong to the configured provider and model, so only its estimate
+ * excludes cached tokens; any other model would embed every token. Local providers
+ * cost nothing.
+ *
+ * @param usage - Total and cached tokens of the workload.
+ * @param provider - The configured embedding provider.
+ * @returns One estimate per model, the configured model first.
+ *
+ * @example
+ * ```ts
+ * const usage = await embedder.estimateBatch(texts);
+ * for (const estimate of estimateEmbeddingCost(usage, embedder.provider)) {
+ *   console.log(estimate.model, estimate.costUsd?.toFixed(2));
+ * }
+ * ```
+ */
+export function estimateEmbeddingCost(
+  usage: Pick<EmbeddingUsage, 'tokens' | 'cachedTokens'>,
+  provider: Pick<EmbeddingProvider, 'name' | 'model'>,
+): EmbeddingCostEstimate[] {
+  const configuredTokens = usage.tokens - usage.cachedTokens;
+  const configuredPrice = provider.name === 'local' ? 0 : EMBEDDING_PRICES_PER_MILLION_TOKENS[provider.model];
+
+  const estimates: EmbeddingCostEstimate[] = [
+    {
+      model: provider.model,
+      configured: true,
+      billableTokens: configuredTokens,
+      costUsd: configuredPrice === undefined ? null : (configuredTokens / 1_000_000) * configuredPrice,
+    },
+  ];
+
+  for (const [model, price] of Object.entries(EMBEDDING_PRICES_PER_MILLION_TOKENS)) {
+    if (model !== provider.model) {
+      estimates.push({
+        model,
+        configured: false,
+        billableTokens: usage.tokens,
+        costUsd: (usage.tokens / 1_000_000) * price,
+      });
+    }
+  }
+
+  return estimates;
+}
@@ -0,0 +1,240 @@
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+import { fnv1a } from './hashing.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Embedding Providers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Embedding providers available to the CLI. */
+export const EMBEDDING_PROVIDERS = ['openai', 'local'] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-large';
+/** Vector size of each OpenAI embedding model when no reduced size is requested. */
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-large': 3072,
+  'text-embedding-3-small': 1536,
+  'text-embedding-ada-002': 1536,
+};
+/** OpenAI models whose vector size is fixed: they reject the `dimensions` parameter. */
+const FIXED_DIMENSION_MODELS = new Set(['text-embedding-ada-002']);
+/** Input limit of the OpenAI embedding models. */
+const OPENAI_MAX_INPUT_TOKENS = 8191;
+const DEFAULT_LOCAL_DIMENSIONS = 768;
+
+/**
+ * A source of dense text embeddings.
+ *
+ * Providers only turn text into vectors; caching, batching, retries and rate limiting
+ * are handled by {@link EmbeddingGenerator}.
+ */
+export interface EmbeddingProvider {
+  /** Provider name, such as "openai" or "local". */
+  readonly name: string;
+  /** Model identifier, recorded with cached embeddings. */
+  readonly model: string;
+  /** Length of every vector the provider returns. */
+  readonly dimensions: number;
+  /** Longest input the model accepts, in tokens, if limited. */
+  readonly maxInputTokens?: number;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export interface OpenAIEmbeddingProviderOptions {
+  model?: string;
+  /**
+   * Reduced output size; only supported by the text-embedding-3 models. Defaults to
+   * the model's full size, and must be given for models this module does not know.
+   */
+  dimensions?: number;
+}
+
+/**
+ * Embeddings from the OpenAI API.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxInputTokens = OPENAI_MAX_INPUT_TOKENS;
+  private readonly embeddings: OpenAIEmbeddings;
+
+  constructor(apiKey: string, options: OpenAIEmbeddingProviderOptions = {}) {
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required for embeddings');
+    }
+
+    this.model = options.model ?? DEFAULT_OPENAI_MODEL;
+    if (options.dimensions !== undefined && FIXED_DIMENSION_MODELS.has(this.model)) {
+      throw new Error(`OpenAI model ${this.model} does not support custom embedding dimensions`);
+    }
+    const dimensions = options.dimensions ?? OPENAI_MODEL_DIMENSIONS[this.model];
+    if (dimensions === undefined) {
+      throw new Error(`Unknown vector size of OpenAI model ${this.model}; set the embedding dimensions`);
+    }
+    this.dimensions = dimensions;
+    this.embeddings = new OpenAIEmbeddings({
+      openAIApiKey: apiKey,
+      model: this.model,
+      // EmbeddingGenerator retries, honouring Retry-After; LangChain's own backoff would hide rate limits from it
+      maxRetries: 0,
+      ...(options.dimensions ? { dimensions: options.dimensions } : {}),
+    });
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(texts);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local Hashed Embeddings
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HashedEmbeddingProviderOptions {
+  /** Vector size (default 768). */
+  dimensions?: number;
+  /** Length of the character n-grams taken from each word (default 3). */
+  ngramSize?: number;
+}
+
+/** Relative weight of each kind of feature. */
+const FEATURE_WEIGHTS = {
+  word: 1,
+  bigram: 0.5,
+  ngram: 0.5,
+};
+
+/**
+ * Deterministic embeddings computed locally, without network access.
+ *
+ * Words, word bigrams and character n-grams are hashed into a fixed number of
+ * dimensions with a hashed sign (the "hashing trick"), weighted by sublinear term
+ * frequency and L2-normalised, so cosine similarity reflects lexical overlap. Quality
+ * is well below a trained model, but identical input always yields identical vectors,
+ * which makes the provider suitable for CI and offline use.
+ *
+ * @example
+ * ```ts
+ * const provider = new HashedEmbeddingProvider({ dimensions: 256 });
+ * const [vector] = await provider.embedDocuments(['Total expense ratio of mutual funds']);
+ * console.log(vector.length); // 256
+ * ```
+ */
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimensions: number;
+  private readonly ngramSize: number;
+
+  constructor(options: HashedEmbeddingProviderOptions = {}) {
+    this.dimensions = options.dimensions ?? DEFAULT_LOCAL_DIMENSIONS;
+    this.ngramSize = options.ngramSize ?? 3;
+
+    if (!Number.isInteger(this.dimensions) || this.dimensions < 1) {
+      throw new Error(`Invalid embedding dimensions: ${this.dimensions}`);
+    }
+    if (!Number.isInteger(this.ngramSize) || this.ngramSize < 1) {
+      throw new Error(`Invalid n-gram size: ${this.ngramSize}`);
+    }
+
+    this.model = `hashed-ngram-${this.ngramSize}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, { count, weight }] of this.extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Count the features of a text, prefixed by kind so they hash independently.
+   */
+  private extractFeatures(text: string): Map<string, { count: number; weight: number }> {
+    const features = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = features.get(feature);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        features.set(feature, { count: 1, weight });
+      }
+    };
+
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    words.forEach((word, index) => {
+      add(`w:${word}`, FEATURE_WEIGHTS.word);
+      if (index > 0) {
+        add(`b:${words[index - 1]} ${word}`, FEATURE_WEIGHTS.bigram);
+      }
+
+      const padded = `<${word}>`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        add(`n:${padded.slice(i, i + this.ngramSize)}`, FEATURE_WEIGHTS.ngram);
+      }
+    });
+
+    return features;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EmbeddingProviderOptions {
+  provider: EmbeddingProviderName;
+  /** OpenAI API key; required for the "openai" provider. */
+  apiKey?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+/**
+ * Create an embedding provider by name.
+ *
+ * @param options - Provider name and its settings.
+ * @returns The configured provider.
+ *
+ * @example
+ * ```ts
+ * const provider = createEmbeddingProvider({ provider: 'local', dimensions: 384 });
+ * const embedder = new EmbeddingGenerator(provider);
+ * ```
+ */
+export function createEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  switch (options.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(options.apiKey ?? '', {
+        model: options.model,
+        dimensions: options.dimensions,
+      });
+    case 'local':
+      return new HashedEmbeddingProvider({ dimensions: options.dimensions });
+    default:
+      throw new Error(`Unknown embedding provider: ${String(options.provider)}`);
+  }
+}
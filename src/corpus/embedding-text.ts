@@ -0,0 +1,113 @@
+import { formatSectionPath } from './pdf-parser.js';
+
+import type { SEBIChunk, SEBIDocument } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Embedding Text Templates
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Default template: a header naming the circular, its date, category and section,
+ * followed by the chunk text.
+ */
+export const DEFAULT_EMBEDDING_TEMPLATE = [
+  'Circular: {title}',
+  'Circular ID: {circular_id}',
+  'Date: {date}',
+  'Category: {category}',
+  'Section: {section}',
+  '',
+  '{content}',
+].join('\n');
+
+/** Placeholders available to embedding templates. */
+export const EMBEDDING_TEMPLATE_FIELDS = [
+  'title',
+  'circular_id',
+  'date',
+  'category',
+  'categories',
+  'section',
+  'language',
+  'content',
+] as const;
+
+export type EmbeddingTemplateField = (typeof EMBEDDING_TEMPLATE_FIELDS)[number];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Check that a template only uses known placeholders and includes the chunk text.
+ *
+ * @throws If the template uses an unknown placeholder or lacks `{content}`.
+ */
+export function validateEmbeddingTemplate(template: string): void {
+  const fields = [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+  const unknown = fields.find((field) => !EMBEDDING_TEMPLATE_FIELDS.includes(field as EmbeddingTemplateField));
+
+  if (unknown) {
+    throw new Error(
+      `Unknown embedding template placeholder {${unknown}}; expected one of ${EMBEDDING_TEMPLATE_FIELDS.join(', ')}`,
+    );
+  }
+  if (!fields.includes('content')) {
+    throw new Error('Embedding template must include {content}');
+  }
+}
+
+/**
+ * Build the text embedded for a chunk: the chunk content with a contextual header.
+ *
+ * A chunk such as "the limit shall be 2.25%" says nothing about the circular or
+ * section it belongs to; the header restores that context for the embedding while the
+ * stored chunk content stays unchanged. Template lines whose placeholders are all
+ * empty (e.g. "Section: " for a chunk outside any section) are dropped.
+ *
+ * @param chunk - Chunk to embed.
+ * @param document - Document the chunk belongs to.
+ * @param template - Template with `{field}` placeholders (default {@link DEFAULT_EMBEDDING_TEMPLATE}).
+ * @returns Text to send to the embedding provider.
+ *
+ * @example
+ * ```ts
+ * buildEmbeddingText(chunk, document);
+ * // "Circular: Total Expense Ratio of Mutual Fund Schemes\nCircular ID: SEBI/HO/IMD/...\n...\n\nThe limit shall be 2.25%."
+ * ```
+ */
+export function buildEmbeddingText(
+  chunk: SEBIChunk,
+  document: SEBIDocument,
+  template = DEFAULT_EMBEDDING_TEMPLATE,
+): string {
+  const values: Record<EmbeddingTemplateField, string> = {
+    title: document.title,
+    circular_id: document.circular_id,
+    date: document.date?.toISOString().slice(0, 10) ?? '',
+    category: formatCategory(document.category),
+    categories: (document.categories ?? [document.category]).map(formatCategory).join(', '),
+    section: formatSectionPath(chunk.section_hierarchy),
+    language: chunk.language ?? document.language ?? '',
+    content: chunk.content,
+  };
+
+  return template
+    .split('\n')
+    .flatMap((line) => {
+      const fields = [...line.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+      const rendered = line.replace(
+        PLACEHOLDER_PATTERN,
+        (placeholder, field: string) => values[field as EmbeddingTemplateField] ?? placeholder,
+      );
+      const allEmpty = fields.length > 0 && fields.every((field) => !values[field as EmbeddingTemplateField]);
+      return allEmpty ? [] : [rendered];
+    })
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Human-readable category ("mutual_funds" → "mutual funds").
+ */
+function formatCategory(category: string): string {
+  return category.replace(/_/g, ' ');
+}
@@ -0,0 +1,139 @@
+import type { SearchResult } from './qdrant-client.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Result Fusion
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Ways of combining ranked result lists:
+ * - "rrf": reciprocal rank fusion, which only looks at ranks;
+ * - "minmax": scores rescaled to 0–1 by each list's minimum and maximum, then summed;
+ * - "dbsf": distribution-based score fusion, scores rescaled by each list's mean ± 3
+ *   standard deviations, then summed.
+ */
+export const FUSION_METHODS = ['rrf', 'minmax', 'dbsf'] as const;
+
+export type FusionMethod = (typeof FUSION_METHODS)[number];
+
+/** Retrieval legs of a hybrid search. */
+export type SearchLeg = 'semantic' | 'keyword';
+
+/** Default rank constant of reciprocal rank fusion. */
+const DEFAULT_RRF_K = 60;
+
+export interface FusionOptions {
+  /** Fusion method (default "rrf"). */
+  method?: FusionMethod;
+  /** Weight of each leg's contribution (default 1 for every leg). */
+  weights?: Partial<Record<SearchLeg, number>>;
+  /** Rank constant for "rrf" (default 60); larger values flatten the rank curve. */
+  rrfK?: number;
+}
+
+/**
+ * Where a result appeared in one leg and what that leg added to its fused score.
+ */
+export interface LegExplanation {
+  /** 1-based rank within the leg. */
+  rank: number;
+  /** Score the leg returned (cosine similarity or BM25). */
+  score: number;
+  /** Weighted amount added to the fused score. */
+  contribution: number;
+}
+
+/**
+ * How a fused score was computed, included in results when explanations are requested.
+ */
+export interface FusionExplanation {
+  method: FusionMethod;
+  /** Legs that returned the result; a leg that missed it contributed nothing. */
+  legs: Partial<Record<SearchLeg, LegExplanation>>;
+  /** Fused score, before any demotion of boilerplate chunks. */
+  fusedScore: number;
+}
+
+/**
+ * Combine the ranked results of several retrieval legs into one ranking.
+ *
+ * Results are matched across legs by chunk. Each leg adds a weighted contribution
+ * computed by the fusion method; results missing from a leg get nothing from it.
+ *
+ * @param legs - Each leg's results, best first.
+ * @param limit - Maximum number of results to return.
+ * @param options - Fusion method, leg weights and RRF constant.
+ * @param explain - Attach a {@link FusionExplanation} to every result.
+ * @returns Fused results, best first, with the fused score as `score`.
+ *
+ * @example
+ * ```ts
+ * const fused = fuseResults({ semantic: semanticHits, keyword: keywordHits }, 10, {
+ *   method: 'minmax',
+ *   weights: { semantic: 0.7, keyword: 0.3 },
+ * });
+ * ```
+ */
+export function fuseResults(
+  legs: Partial<Record<SearchLeg, SearchResult[]>>,
+  limit: number,
+  options: FusionOptions = {},
+  explain = false,
+): SearchResult[] {
+  const method = options.method ?? 'rrf';
+  const fused = new Map<string, { result: SearchResult; score: number; legs: FusionExplanation['legs'] }>();
+
+  for (const [leg, results] of Object.entries(legs) as Array<[SearchLeg, SearchResult[]]>) {
+    const weight = options.weights?.[leg] ?? 1;
+    const normalized = normalizeScores(
+      method,
+      results.map((result) => result.score),
+      options.rrfK ?? DEFAULT_RRF_K,
+    );
+
+    results.forEach((result, index) => {
+      const key = `${result.document.id}-${result.chunk.chunk_id}`;
+      const contribution = weight * normalized[index];
+      const entry = fused.get(key) ?? { result, score: 0, legs: {} };
+
+      entry.score += contribution;
+      entry.legs[leg] = { rank: index + 1, score: result.score, contribution };
+      fused.set(key, entry);
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => ({
+      ...entry.result,
+      score: entry.score,
+      ...(explain ? { explanation: { method, legs: entry.legs, fusedScore: entry.score } } : {}),
+    }));
+}
+
+/**
+ * Per-result values a leg contributes before weighting, in result order.
+ */
+function normalizeScores(method: FusionMethod, scores: number[], rrfK: number): number[] {
+  switch (method) {
+    case 'rrf':
+      return scores.map((_, index) => 1 / (rrfK + index + 1));
+    case 'minmax': {
+      const min = Math.min(...scores);
+      const max = Math.max(...scores);
+      return scores.map((score) => (max > min ? (score - min) / (max - min) : 1));
+    }
+    case 'dbsf': {
+      const count = scores.length || 1;
+      const mean = scores.reduce((sum, score) => sum + score, 0) / count;
+      const deviation = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / count);
+      if (deviation === 0) {
+        return scores.map(() => 0.5);
+      }
+      const lower = mean - 3 * deviation;
+      return scores.map((score) => Math.min(Math.max((score - lower) / (6 * deviation), 0), 1));
+    }
+    default:
+      throw new Error(`Unknown fusion method: ${String(method)}`);
+  }
+}
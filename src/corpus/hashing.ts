@@ -0,0 +1,18 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Hashing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * FNV-1a hash of a string, as an unsigned 32-bit integer.
+ *
+ * Used wherever text is hashed into a fixed space: keyword term indices, local
+ * embedding features and boilerplate shingles.
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,4 +1,25 @@
 export * from './pdf-parser.js';
+export * from './tokens.js';
+export * from './chunkers.js';
+export * from './category-classifier.js';
+export * from './master-circular.js';
+export * from './circular-id.js';
+export * from './cross-references.js';
+export * from './boilerplate.js';
+export * from './tables.js';
+export * from './pages.js';
+export * from './hashing.js';
+export * from './date-parser.js';
+export * from './language.js';
+export * from './deadlines.js';
 export * from './qdrant-client.js';
+export * from './search-filters.js';
+export * from './sparse-vectors.js';
+export * from './rerankers.js';
+export * from './fusion.js';
+export * from './embedding-provider.js';
+export * from './embedding-cache.js';
+export * from './embedding-text.js';
+export * from './embedding-cost.js';
 export * from './embedder.js';
 export * from './ingest.js';
@@ -2,27 +2,64 @@ import chalk from 'chalk';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 
-import type { EmbeddingGenerator } from './embedder.js';
+import type { EmbedBatchOptions, EmbeddingGenerator, EmbeddingUsage } from './embedder.js';
 import type { QdrantManager } from './qdrant-client.js';
-import { chunkDocument, parseSEBIPDF, type ChunkOptions } from './pdf-parser.js';
+import { BoilerplateDetector, type BoilerplateOptions } from './boilerplate.js';
+import { CircularId } from './circular-id.js';
+import { type EmbeddingCostEstimate, estimateEmbeddingCost } from './embedding-cost.js';
+import { buildEmbeddingText, DEFAULT_EMBEDDING_TEMPLATE, validateEmbeddingTemplate } from './embedding-text.js';
+import { type LanguageMode } from './language.js';
+import { chunkDocument, parseSEBIPDF, parseSEBIPDFByLanguage, type ChunkOptions } from './pdf-parser.js';
+import { type SearchFilters } from './search-filters.js';
 import {
+  CircularReferenceSchema,
+  type DocumentLanguage,
   type SEBICategory,
   type SEBIChunk,
   type SEBIDocument,
   SEBIDocumentSchema,
 } from '../types/sebi-document.js';
 
-const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
   maxTokens: 512,
   minTokens: 128,
   overlap: 50,
 };
 
+/** Chunks re-embedded per request to the embedder and Qdrant. */
+const REEMBED_BATCH_SIZE = 256;
+
 const CATEGORY_KEYS: SEBICategory[] = ['mutual_funds', 'portfolio_managers', 'invits', 'reits', 'general'];
 
 export interface IngestionConfig {
   sourcePath?: string;
   chunkOptions?: ChunkOptions;
+  /**
+   * Languages to ingest from bilingual PDFs; "both" stores each language as its own
+   * document. Defaults to the dominant language of each PDF.
+   */
+  language?: LanguageMode;
+  /**
+   * Template for the text embedded for each chunk (default
+   * {@link DEFAULT_EMBEDDING_TEMPLATE}). Stored chunk content is unaffected; run
+   * {@link CorpusIngestion.reembedCorpus} after changing it.
+   */
+  embeddingTemplate?: string;
+  /**
+   * Parse, chunk and count tokens without calling the embedding provider or writing to
+   * Qdrant; summaries report the tokens that would be embedded.
+   */
+  dryRun?: boolean;
+  /**
+   * Near-duplicate detection of passages repeated across circulars, which are tagged
+   * as boilerplate when stored; false disables tagging.
+   */
+  boilerplate?: BoilerplateOptions | false;
+  /**
+   * File in which the boilerplate index is kept between runs. Without it, or when the
+   * file is stale, the index is rebuilt from every stored chunk on the first write.
+   */
+  boilerplateIndexPath?: string;
   logger?: Pick<typeof console, 'info' | 'warn' | 'error'>;
 }
 
@@ -32,6 +69,19 @@ export interface IngestionSummary {
   chunkCount: number;
   embeddingCount: number;
   durationMs: number;
+  /** Languages of the documents ingested from the PDF. */
+  languages?: DocumentLanguage[];
+  /** Tokens sent to the embedding provider (in a dry run, tokens that would be sent). */
+  embeddingTokens: number;
+  /** Tokens of chunks served from the embedding cache. */
+  cachedTokens: number;
+  /** Whether the PDF was only estimated; nothing was embedded or stored. */
+  dryRun?: boolean;
+}
+
+export interface ReembedSummary {
+  chunkCount: number;
+  durationMs: number;
 }
 
 export interface DirectoryIngestionSummary {
@@ -40,79 +90,100 @@ export interface DirectoryIngestionSummary {
   failureCount: number;
   summaries: IngestionSummary[];
   failures: Array<{ file: string; error: string }>;
+  /** Whether the run was cancelled before every file was processed. */
+  cancelled?: boolean;
+}
+
+/**
+ * Progress of an ingestion run, emitted per file and stage.
+ */
+export type IngestionProgressEvent =
+  | { type: 'file-started'; file: string; index: number; total: number }
+  | { type: 'parsed'; file: string; documents: number }
+  | { type: 'chunked'; file: string; circularId: string; chunks: number; parents: number }
+  | { type: 'embedding'; file: string; circularId: string; embedded: number; total: number }
+  | { type: 'upserted'; file: string; circularId: string; chunks: number }
+  | { type: 'failed'; file: string; error: string };
+
+export interface IngestionRunOptions {
+  /**
+   * Cancels the run after the current embedding batch, without writing the interrupted
+   * PDF. Single-PDF calls reject with the abort reason; directory runs return the
+   * summary so far, marked as cancelled.
+   */
+  signal?: AbortSignal;
+  onProgress?: (event: IngestionProgressEvent) => void;
 }
 
 export interface CorpusStats {
   totalChunks: number;
+  /** Chunks tagged as boilerplate repeated across circulars. */
+  boilerplateChunks: number;
   categories: Record<SEBICategory, number>;
   latestIngestion?: string;
 }
 
+/** A document embedded and ready to store. */
+interface EmbeddedDocument {
+  document: SEBIDocument;
+  chunks: SEBIChunk[];
+  embeddings: number[][];
+  parents: SEBIChunk[];
+}
+
+/** Parses a PDF into one document, or one document per language. */
+type PdfParser = (buffer: Buffer) => Promise<SEBIDocument | SEBIDocument[]>;
+
 interface CorpusDependencies {
-  parser?: (buffer: Buffer) => Promise<SEBIDocument>;
+  parser?: PdfParser;
   embedder: EmbeddingGenerator;
   qdrant: QdrantManager;
 }
 
 export class CorpusIngestion {
-  private readonly parser: (buffer: Buffer) => Promise<SEBIDocument>;
+  private readonly parser: PdfParser;
   private readonly embedder: EmbeddingGenerator;
   private readonly qdrant: QdrantManager;
   private readonly config: IngestionConfig;
+  /** Index of stored chunks for boilerplate detection, loaded on first write. */
+  private boilerplate?: Promise<BoilerplateDetector>;
 
   constructor(deps: CorpusDependencies, config: IngestionConfig = {}) {
-    this.parser = deps.parser ?? parseSEBIPDF;
+    const { language } = config;
+    this.parser =
+      deps.parser ?? (language ? (buffer) => parseSEBIPDFByLanguage(buffer, language) : parseSEBIPDF);
     this.embedder = deps.embedder;
     this.qdrant = deps.qdrant;
     this.config = config;
+
+    if (config.embeddingTemplate !== undefined) {
+      validateEmbeddingTemplate(config.embeddingTemplate);
+    }
   }
 
   private get logger(): Pick<typeof console, 'info' | 'warn' | 'error'> {
     return this.config.logger ?? console;
   }
 
-  async ingestPDF(pdfPath: string, metadata?: Partial<SEBIDocument>): Promise<IngestionSummary> {
-    const absolutePath = this.resolvePath(pdfPath);
-    await this.qdrant.initializeCollection();
-
-    const start = Date.now();
-    this.logger.info?.(chalk.cyan(`Ingesting PDF: ${absolutePath}`));
-
-    const buffer = await fs.readFile(absolutePath);
-    const document = await this.parser(buffer);
-
-    const merged = this.mergeMetadata(document, metadata);
-    this.validateMetadata(merged);
-
-    const chunks = chunkDocument(merged, this.chunkOptions);
-    if (chunks.length === 0) {
-      throw new Error(`No chunks produced for ${merged.circular_id}`);
-    }
-    this.logger.info?.(`Chunked document into ${chunks.length} chunks`);
-
-    const embeddedChunks = await this.embedChunks(chunks);
-    const embeddings = embeddedChunks.map((chunk) => {
-      if (!chunk.embedding) {
-        throw new Error(`Missing embedding for chunk ${chunk.chunk_id}`);
-      }
-      return chunk.embedding;
-    });
-
-    await this.qdrant.upsertChunks(embeddedChunks, embeddings);
-
-    const summary: IngestionSummary = {
-      pdfPath: absolutePath,
-      circularId: merged.circular_id,
-      chunkCount: embeddedChunks.length,
-      embeddingCount: embeddings.length,
-      durationMs: Date.now() - start,
-    };
-
-    this.logger.info?.(chalk.green(`Ingested ${summary.circularId} (${summary.chunkCount} chunks)`));
-    return summary;
+  /**
+   * Parse, chunk, embed and store one PDF.
+   *
+   * Every document of the PDF is embedded before anything is written, so aborting the
+   * run through `options.signal` never leaves a circular partially stored.
+   */
+  async ingestPDF(
+    pdfPath: string,
+    metadata?: Partial<SEBIDocument>,
+    options: IngestionRunOptions = {},
+  ): Promise<IngestionSummary> {
+    return this.ingestFile(this.resolvePath(pdfPath), metadata, options, { index: 0, total: 1 });
   }
 
-  async ingestDirectory(dirPath: string): Promise<DirectoryIngestionSummary> {
+  /**
+   * Ingest every PDF under a directory. Failures are recorded and the run continues;
+   * aborting `options.signal` stops it after the current embedding batch.
+   */
+  async ingestDirectory(dirPath: string, options: IngestionRunOptions = {}): Promise<DirectoryIngestionSummary> {
     const directory = this.resolvePath(dirPath);
     const pdfFiles = await this.walkPdfFiles(directory);
 
@@ -122,12 +193,22 @@ export class CorpusIngestion {
 
     const summaries: IngestionSummary[] = [];
     const failures: Array<{ file: string; error: string }> = [];
+    let cancelled = false;
+
+    for (const [index, pdf] of pdfFiles.entries()) {
+      if (options.signal?.aborted) {
+        cancelled = true;
+        break;
+      }
 
-    for (const pdf of pdfFiles) {
       try {
-        const summary = await this.ingestPDF(pdf);
+        const summary = await this.ingestFile(pdf, undefined, options, { index, total: pdfFiles.length });
         summaries.push(summary);
       } catch (error) {
+        if (options.signal?.aborted) {
+          cancelled = true;
+          break;
+        }
         const message = error instanceof Error ? error.message : String(error);
         failures.push({ file: pdf, error: message });
         this.logger.error?.(chalk.red(`Failed to ingest ${pdf}: ${message}`));
@@ -140,16 +221,59 @@ export class CorpusIngestion {
       failureCount: failures.length,
       summaries,
       failures,
+      ...(cancelled ? { cancelled } : {}),
     };
   }
 
-  async updateCorpus(circularId: string, pdfPath: string): Promise<IngestionSummary> {
+  /**
+   * Replace the stored chunks of a circular with those of an updated PDF. The old
+   * chunks are deleted only once the new ones are embedded.
+   */
+  async updateCorpus(circularId: string, pdfPath: string, options: IngestionRunOptions = {}): Promise<IngestionSummary> {
     this.logger.info?.(chalk.yellow(`Updating corpus for ${circularId}`));
-    await this.qdrant.deleteChunksByCircularId(circularId);
-    return this.ingestPDF(pdfPath, {
-      circular_id: circularId,
-      metadata: { version: new Date().toISOString() },
-    });
+    return this.ingestFile(
+      this.resolvePath(pdfPath),
+      {
+        circular_id: CircularId.normalize(circularId),
+        metadata: { version: new Date().toISOString() },
+      },
+      options,
+      { index: 0, total: 1 },
+      () => this.qdrant.deleteChunksByCircularId(circularId),
+    );
+  }
+
+  /**
+   * Re-embed stored chunks with the current embedding template and provider,
+   * keeping their payloads. Unchanged texts are served from the embedding cache.
+   *
+   * @param filters - Only re-embed matching chunks (default: the whole collection).
+   */
+  async reembedCorpus(filters?: SearchFilters): Promise<ReembedSummary> {
+    const start = Date.now();
+    const results = await this.qdrant.listChunks(filters);
+
+    for (let i = 0; i < results.length; i += REEMBED_BATCH_SIZE) {
+      const batch = results.slice(i, i + REEMBED_BATCH_SIZE);
+      const vectors = await this.embedder.embedBatch(
+        batch.map((result) => this.embeddingText(result.chunk, result.document)),
+      );
+      await this.qdrant.updateVectors(
+        batch.map((result) => result.chunk),
+        vectors,
+      );
+      this.logger.info?.(`Re-embedded ${Math.min(i + REEMBED_BATCH_SIZE, results.length)}/${results.length} chunks`);
+    }
+
+    return { chunkCount: results.length, durationMs: Date.now() - start };
+  }
+
+  /**
+   * Project the embedding spend of a workload, such as the summed tokens of dry-run
+   * summaries, for the configured model and each priced alternative.
+   */
+  estimateCost(usage: Pick<EmbeddingUsage, 'tokens' | 'cachedTokens'>): EmbeddingCostEstimate[] {
+    return estimateEmbeddingCost(usage, this.embedder.provider);
   }
 
   async getCorpusStats(): Promise<CorpusStats> {
@@ -173,6 +297,7 @@ export class CorpusIngestion {
 
     return {
       totalChunks: chunks.length,
+      boilerplateChunks: chunks.filter((result) => result.chunk.is_boilerplate).length,
       categories,
       latestIngestion: latestTimestamp ? new Date(latestTimestamp).toISOString() : undefined,
     };
@@ -188,7 +313,12 @@ export class CorpusIngestion {
     }
 
     if (!metadata.date) {
-      throw new Error('Missing date in metadata');
+      // Parsed documents are flagged when the PDF states no issue date
+      throw new Error(
+        metadata.metadata?.dateMissing
+          ? 'Missing date in metadata: no issue date found in the document, supply it as an override'
+          : 'Missing date in metadata',
+      );
     }
 
     if (!metadata.category) {
@@ -200,6 +330,267 @@ export class CorpusIngestion {
     }
   }
 
+  /**
+   * Ingest one PDF in two phases: parse, chunk and embed every document, then write
+   * them all. Cancellation is checked before the first write, and `beforeWrite` runs
+   * just before it (e.g. to delete the chunks being replaced).
+   */
+  private async ingestFile(
+    absolutePath: string,
+    metadata: Partial<SEBIDocument> | undefined,
+    options: IngestionRunOptions,
+    position: { index: number; total: number },
+    beforeWrite?: () => Promise<unknown>,
+  ): Promise<IngestionSummary> {
+    const { signal } = options;
+    const emit = (event: IngestionProgressEvent) => options.onProgress?.(event);
+    const dryRun = this.config.dryRun ?? false;
+
+    try {
+      emit({ type: 'file-started', file: absolutePath, ...position });
+      signal?.throwIfAborted();
+      if (!dryRun) {
+        await this.qdrant.initializeCollection(this.embedder.dimensions);
+      }
+
+      const start = Date.now();
+      this.logger.info?.(chalk.cyan(`Ingesting PDF: ${absolutePath}`));
+
+      const buffer = await fs.readFile(absolutePath);
+      const parsed = await this.parser(buffer);
+      const documents = Array.isArray(parsed) ? parsed : [parsed];
+      if (documents.length === 0) {
+        throw new Error(`No content found in ${absolutePath}`);
+      }
+      emit({ type: 'parsed', file: absolutePath, documents: documents.length });
+
+      const mergedDocuments = documents.map((document) => this.mergeMetadata(document, metadata));
+      const prepared: EmbeddedDocument[] = [];
+      let chunkCount = 0;
+      let embeddingCount = 0;
+      let embeddingTokens = 0;
+      let cachedTokens = 0;
+
+      for (const merged of mergedDocuments) {
+        this.validateMetadata(merged);
+
+        const allChunks = chunkDocument(merged, this.chunkOptions);
+        // Parent chunks are stored as context on their children rather than embedded
+        const parents = allChunks.filter((chunk) => chunk.chunk_tier === 'parent');
+        const chunks = allChunks.filter((chunk) => chunk.chunk_tier !== 'parent');
+        if (chunks.length === 0) {
+          throw new Error(`No chunks produced for ${merged.circular_id}`);
+        }
+        this.logger.info?.(
+          `Chunked document into ${chunks.length} chunks` +
+            (parents.length > 0 ? ` with ${parents.length} parent spans` : ''),
+        );
+        emit({
+          type: 'chunked',
+          file: absolutePath,
+          circularId: merged.circular_id,
+          chunks: chunks.length,
+          parents: parents.length,
+        });
+
+        const texts = chunks.map((chunk) => this.embeddingText(chunk, merged));
+        if (dryRun) {
+          const usage = await this.embedder.estimateBatch(texts);
+          chunkCount += chunks.length;
+          embeddingTokens += usage.tokens - usage.cachedTokens;
+          cachedTokens += usage.cachedTokens;
+          continue;
+        }
+
+        const usageBefore = this.embedder.usage;
+        const embeddedChunks = await this.embedChunks(chunks, texts, {
+          signal,
+          onProgress: ({ embedded, total }) =>
+            emit({ type: 'embedding', file: absolutePath, circularId: merged.circular_id, embedded, total }),
+        });
+        const usageAfter = this.embedder.usage;
+        const embeddings = embeddedChunks.map((chunk) => {
+          if (!chunk.embedding) {
+            throw new Error(`Missing embedding for chunk ${chunk.chunk_id}`);
+          }
+          return chunk.embedding;
+        });
+
+        prepared.push({ document: merged, chunks: embeddedChunks, embeddings, parents });
+        chunkCount += embeddedChunks.length;
+        embeddingCount += embeddings.length;
+        const cached = usageAfter.cachedTokens - usageBefore.cachedTokens;
+        cachedTokens += cached;
+        embeddingTokens += usageAfter.tokens - usageBefore.tokens - cached;
+      }
+
+      if (!dryRun) {
+        // Nothing is written until every document is embedded, so a cancelled run leaves no partial circular
+        signal?.throwIfAborted();
+        await beforeWrite?.();
+
+        const storedBoilerplate = await this.tagBoilerplate(prepared);
+        for (const { document, chunks, embeddings, parents } of prepared) {
+          await this.qdrant.upsertDocumentChunks(document, chunks, embeddings, parents);
+          emit({ type: 'upserted', file: absolutePath, circularId: document.circular_id, chunks: chunks.length });
+        }
+        if (storedBoilerplate.length > 0) {
+          await this.qdrant.markBoilerplate(storedBoilerplate);
+          this.logger.info?.(`Tagged ${storedBoilerplate.length} previously stored chunks as boilerplate`);
+        }
+        await this.saveBoilerplateIndex();
+
+        // Language documents of one PDF share a circular ID, so supersession is applied once
+        await this.applySupersession(mergedDocuments[0]);
+      }
+
+      const languages = documents.flatMap((document) => (document.language ? [document.language] : []));
+      const summary: IngestionSummary = {
+        pdfPath: absolutePath,
+        circularId: mergedDocuments[0].circular_id,
+        chunkCount,
+        embeddingCount,
+        durationMs: Date.now() - start,
+        ...(languages.length > 0 ? { languages } : {}),
+        embeddingTokens,
+        cachedTokens,
+        ...(dryRun ? { dryRun } : {}),
+      };
+
+      this.logger.info?.(
+        dryRun
+          ? chalk.green(`Estimated ${summary.circularId} (${summary.chunkCount} chunks, ${embeddingTokens} tokens)`)
+          : chalk.green(`Ingested ${summary.circularId} (${summary.chunkCount} chunks)`),
+      );
+      return summary;
+    } catch (error) {
+      if (!signal?.aborted) {
+        emit({ type: 'failed', file: absolutePath, error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Tag the chunks of documents about to be stored that repeat boilerplate from other
+   * circulars.
+   *
+   * @returns IDs of already stored chunks that the new documents revealed as boilerplate.
+   */
+  private async tagBoilerplate(prepared: EmbeddedDocument[]): Promise<string[]> {
+    if (this.config.boilerplate === false || prepared.length === 0) {
+      return [];
+    }
+
+    const detector = await this.boilerplateDetector();
+    const newChunkIds = new Set(prepared.flatMap(({ chunks }) => chunks.map((chunk) => chunk.chunk_id)));
+    const flagged: string[] = [];
+
+    // Re-ingesting a circular replaces its chunks, so drop them from the index first
+    new Set(prepared.map(({ document }) => document.circular_id)).forEach((id) => detector.removeCircular(id));
+    for (const { document, chunks } of prepared) {
+      for (const chunk of chunks) {
+        flagged.push(
+          ...detector.add({ chunkId: chunk.chunk_id, circularId: document.circular_id, content: chunk.content }),
+        );
+      }
+    }
+
+    let tagged = 0;
+    for (const entry of prepared) {
+      entry.chunks = entry.chunks.map((chunk) => {
+        if (!detector.isBoilerplate(chunk.chunk_id)) {
+          return chunk;
+        }
+        tagged += 1;
+        return { ...chunk, is_boilerplate: true };
+      });
+    }
+    if (tagged > 0) {
+      this.logger.info?.(`Tagged ${tagged} chunks as boilerplate`);
+    }
+
+    return flagged.filter((chunkId) => !newChunkIds.has(chunkId));
+  }
+
+  /**
+   * The boilerplate index, loaded on first use from {@link IngestionConfig.boilerplateIndexPath}
+   * while it covers every stored chunk, otherwise built from the stored chunks. Stored
+   * chunks found to be boilerplate while building it (e.g. ingested before tagging
+   * existed) are tagged then.
+   */
+  private boilerplateDetector(): Promise<BoilerplateDetector> {
+    this.boilerplate ??= (async () => {
+      const options = this.config.boilerplate || {};
+      const file = this.config.boilerplateIndexPath;
+      const saved = file ? await BoilerplateDetector.load(file, options) : null;
+      const count = await this.qdrant.countChunks();
+      if (saved && saved.size === count) {
+        return saved;
+      }
+
+      const detector = new BoilerplateDetector(options);
+      if (count > 0) {
+        this.logger.info?.(`Rebuilding boilerplate index from ${count} stored chunks`);
+      }
+      const stored = count > 0 ? await this.qdrant.listChunks() : [];
+      const alreadyTagged = new Set(stored.filter(({ chunk }) => chunk.is_boilerplate).map(({ chunk }) => chunk.chunk_id));
+      const untagged: string[] = [];
+
+      for (const { chunk, document } of stored) {
+        const flagged = detector.add({ chunkId: chunk.chunk_id, circularId: document.circular_id, content: chunk.content });
+        untagged.push(...flagged.filter((chunkId) => !alreadyTagged.has(chunkId)));
+      }
+
+      if (untagged.length > 0) {
+        await this.qdrant.markBoilerplate(untagged);
+        this.logger.info?.(`Tagged ${untagged.length} stored chunks as boilerplate`);
+      }
+      return detector;
+    })().catch((error: unknown) => {
+      this.boilerplate = undefined;
+      throw error;
+    });
+    return this.boilerplate;
+  }
+
+  private async saveBoilerplateIndex(): Promise<void> {
+    if (this.boilerplate && this.config.boilerplateIndexPath) {
+      await (await this.boilerplate).save(this.config.boilerplateIndexPath);
+    }
+  }
+
+  /**
+   * Record supersession in both directions: circulars this circular rescinds or
+   * supersedes (a master circular's rescinded list, or "rescinds"/"supersedes"
+   * references of any circular), and a previously ingested circular that rescinds or
+   * supersedes this one.
+   */
+  private async applySupersession(document: SEBIDocument): Promise<void> {
+    const rescinded = document.metadata.rescindedCirculars;
+    const references = CircularReferenceSchema.array().safeParse(document.metadata.references);
+    const ids = new Set([
+      ...(Array.isArray(rescinded) ? rescinded.filter((id): id is string => typeof id === 'string') : []),
+      ...(references.success ? references.data : [])
+        .filter((reference) => reference.relation === 'rescinds' || reference.relation === 'supersedes')
+        .map((reference) => reference.circular_id),
+    ]);
+    if (ids.size > 0 && document.date) {
+      const updated = await this.qdrant.markSuperseded([...ids], document.circular_id, document.date);
+      this.logger.info?.(
+        `Marked ${updated} chunks from ${ids.size} circulars as superseded by ${document.circular_id}`,
+      );
+    }
+
+    const rescinding = await this.qdrant.findRescindingCircular(document.circular_id);
+    if (rescinding) {
+      await this.qdrant.markSuperseded([document.circular_id], rescinding.circularId, rescinding.date);
+      this.logger.info?.(
+        chalk.yellow(`${document.circular_id} is superseded by ${rescinding.circularId}`),
+      );
+    }
+  }
+
   private mergeMetadata(document: SEBIDocument, overrides?: Partial<SEBIDocument>): SEBIDocument {
     const merged = {
       ...document,
@@ -223,12 +614,16 @@ export class CorpusIngestion {
     return path.resolve(process.cwd(), inputPath);
   }
 
-  private async embedChunks(chunks: SEBIChunk[]): Promise<SEBIChunk[]> {
-    const enriched = await this.embedder.embedChunks(chunks);
+  private async embedChunks(chunks: SEBIChunk[], texts: string[], options: EmbedBatchOptions): Promise<SEBIChunk[]> {
+    const enriched = await this.embedder.embedChunks(chunks, texts, options);
     return enriched;
   }
 
-  private get chunkOptions(): Required<ChunkOptions> {
+  private embeddingText(chunk: SEBIChunk, document: SEBIDocument): string {
+    return buildEmbeddingText(chunk, document, this.config.embeddingTemplate ?? DEFAULT_EMBEDDING_TEMPLATE);
+  }
+
+  private get chunkOptions(): ChunkOptions {
     return {
       ...DEFAULT_CHUNK_OPTIONS,
       ...this.config.chunkOptions,
@@ -0,0 +1,132 @@
+import { PAGE_BREAK } from './pages.js';
+import { TABLE_MARKER_PATTERN } from './tables.js';
+import { type DocumentLanguage } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Script Detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Languages to keep from a bilingual PDF: one language, or each as its own document.
+ */
+export type LanguageMode = DocumentLanguage | 'both';
+
+const DEVANAGARI_LETTER = /[\u0900-\u097F]/g;
+const LATIN_LETTER = /[A-Za-z]/g;
+
+/** Share of minority-script letters above which a block is split line by line. */
+const MIXED_BLOCK_RATIO = 0.3;
+
+/**
+ * Letter counts of each script in a piece of text. Table markers ("[Table T1]") are
+ * not text of either language and are not counted.
+ */
+function countScripts(text: string): Record<DocumentLanguage, number> {
+  text = text.replace(TABLE_MARKER_PATTERN, '');
+  return {
+    hi: text.match(DEVANAGARI_LETTER)?.length ?? 0,
+    en: text.match(LATIN_LETTER)?.length ?? 0,
+  };
+}
+
+/**
+ * Detect the language of a piece of text from its script.
+ *
+ * Devanagari text is Hindi and Latin text is English; the script with more letters wins.
+ *
+ * @param text - Text to inspect.
+ * @returns The detected language, or null when the text has no letters.
+ *
+ * @example
+ * ```ts
+ * detectLanguage('भारतीय प्रतिभूति और विनिमय बोर्ड'); // "hi"
+ * detectLanguage('Securities and Exchange Board of India'); // "en"
+ * ```
+ */
+export function detectLanguage(text: string): DocumentLanguage | null {
+  const counts = countScripts(text);
+  if (counts.hi === 0 && counts.en === 0) {
+    return null;
+  }
+  return counts.hi > counts.en ? 'hi' : 'en';
+}
+
+/**
+ * Whether a block mixes scripts enough to be classified line by line.
+ */
+function isMixedBlock(block: string): boolean {
+  const counts = countScripts(block);
+  const total = counts.hi + counts.en;
+  return total > 0 && Math.min(counts.hi, counts.en) / total > MIXED_BLOCK_RATIO;
+}
+
+/**
+ * Split text into English and Hindi streams.
+ *
+ * Paragraphs are assigned to a language by script; paragraphs that mix scripts (such
+ * as bilingual headers) are split line by line. Paragraphs without letters, such as
+ * figures, are kept in both streams. {@link PAGE_BREAK} separators are preserved so
+ * page numbers remain valid in each stream.
+ *
+ * @param text - Raw document text, optionally with page breaks.
+ * @returns The text of each language.
+ *
+ * @example
+ * ```ts
+ * const { en, hi } = splitByLanguage('परिपत्र\n\nCircular');
+ * console.log(en, hi); // "Circular", "परिपत्र"
+ * ```
+ */
+export function splitByLanguage(text: string): Record<DocumentLanguage, string> {
+  const streams: Record<DocumentLanguage, string[]> = { en: [], hi: [] };
+
+  for (const page of text.split(PAGE_BREAK)) {
+    const units: Array<{ block: number; text: string; language: DocumentLanguage | null }> = [];
+
+    page.split(/\n[ \t]*\n/).forEach((block, blockIndex) => {
+      let previous: DocumentLanguage | null = null;
+      for (const unit of isMixedBlock(block) ? block.split('\n') : [block]) {
+        const language: DocumentLanguage | null = detectLanguage(unit) ?? previous;
+        units.push({ block: blockIndex, text: unit, language });
+        previous = language;
+      }
+    });
+
+    // A table marker goes with the text around it, preferring its own block
+    units.forEach((unit, index) => {
+      if (unit.language || !new RegExp(TABLE_MARKER_PATTERN.source).test(unit.text)) {
+        return;
+      }
+      const before = units.slice(0, index).reverse();
+      const after = units.slice(index + 1);
+      const sameBlock = (other: (typeof units)[number]) => other.block === unit.block;
+      unit.language =
+        [...before.filter(sameBlock), ...after.filter(sameBlock), ...before, ...after].find(
+          (other) => other.language,
+        )?.language ?? 'en';
+    });
+
+    for (const language of ['en', 'hi'] as const) {
+      const blocks = new Map<number, string[]>();
+      for (const unit of units) {
+        if (unit.language === null || unit.language === language) {
+          blocks.set(unit.block, [...(blocks.get(unit.block) ?? []), unit.text]);
+        }
+      }
+      const contents = [...blocks.values()].map((lines) => lines.join('\n'));
+      streams[language].push(contents.filter((content) => content.trim()).join('\n\n'));
+    }
+  }
+
+  return {
+    en: streams.en.join(PAGE_BREAK),
+    hi: streams.hi.join(PAGE_BREAK),
+  };
+}
+
+/**
+ * The language with the most letters in a piece of text, defaulting to English.
+ */
+export function dominantLanguage(text: string): DocumentLanguage {
+  return detectLanguage(text) ?? 'en';
+}
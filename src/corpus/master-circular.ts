@@ -0,0 +1,74 @@
+import { findCircularIds } from './circular-id.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Master Circulars
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Number of leading non-empty lines inspected when detecting a master circular. */
+const HEADER_LINE_COUNT = 15;
+
+/** Matches a master circular title line (e.g., "Master Circular for Mutual Funds"). */
+const MASTER_CIRCULAR_TITLE = /^Master\s+Circular\b/i;
+
+/** Matches the heading of the appendix listing rescinded circulars. */
+const RESCINDED_HEADING =
+  /\bcirculars?\b.*\b(?:rescinded|superseded|repealed)\b|\b(?:rescinded|superseded|repealed)\b.*\bcirculars?\b/i;
+
+/**
+ * Detect whether document text is a SEBI master circular.
+ *
+ * @param text - Cleaned document text.
+ * @returns True when one of the header lines is a "Master Circular ..." title.
+ *
+ * @example
+ * ```ts
+ * isMasterCircular('SEBI/HO/IMD/.../2024/90\nMaster Circular for Mutual Funds'); // true
+ * ```
+ */
+export function isMasterCircular(text: string): boolean {
+  const headerLines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, HEADER_LINE_COUNT);
+
+  return headerLines.some((line) => MASTER_CIRCULAR_TITLE.test(line));
+}
+
+/**
+ * Extract the circulars rescinded by a master circular.
+ *
+ * The list is read from the last heading mentioning rescinded/superseded circulars
+ * (usually the closing annexure) to the end of the document.
+ *
+ * @param text - Cleaned document text.
+ * @param ownCircularId - The master circular's own identifier, excluded from the result.
+ * @returns Unique rescinded circular identifiers, in canonical form and order of appearance.
+ */
+export function extractRescindedCirculars(text: string, ownCircularId?: string | null): string[] {
+  const lines = text.split('\n');
+  let headingIndex = -1;
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line.length < 150 && RESCINDED_HEADING.test(line)) {
+      headingIndex = i;
+      break;
+    }
+  }
+
+  if (headingIndex === -1) {
+    return [];
+  }
+
+  const appendix = lines.slice(headingIndex).join('\n');
+  const ids = new Set<string>();
+
+  for (const { id } of findCircularIds(appendix)) {
+    if (!ownCircularId || !id.equals(ownCircularId)) {
+      ids.add(id.canonical);
+    }
+  }
+
+  return [...ids];
+}
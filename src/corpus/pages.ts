@@ -0,0 +1,140 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Page Provenance
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Separator placed between pages in raw text until page offsets are computed. */
+export const PAGE_BREAK = '\f';
+
+/** Number of leading characters of a chunk used to find it in the document. */
+const LOCATE_PREFIX_LENGTH = 64;
+
+/**
+ * Document text assembled from individual pages.
+ */
+export interface PagedText {
+  /** Page texts joined with blank lines. */
+  content: string;
+  /** Character offset in `content` at which each page starts (index 0 = page 1). */
+  pageOffsets: number[];
+}
+
+/**
+ * Page range covered by a piece of text.
+ */
+export interface PageRange {
+  pageStart: number;
+  pageEnd: number;
+}
+
+/**
+ * Join text containing {@link PAGE_BREAK} separators into content with page offsets.
+ *
+ * @param text - Text with pages separated by form feeds.
+ * @returns Joined content and the offset of each page.
+ *
+ * @example
+ * ```ts
+ * const { content, pageOffsets } = joinPages('Page one\fPage two');
+ * console.log(content, pageOffsets); // "Page one\n\nPage two", [0, 10]
+ * ```
+ */
+export function joinPages(text: string): PagedText {
+  const pages = text.split(PAGE_BREAK).map((page) => page.trim());
+  const pageOffsets: number[] = [];
+  let content = '';
+
+  pages.forEach((page, index) => {
+    if (index > 0 && content && page) {
+      content += '\n\n';
+    }
+    pageOffsets.push(content.length);
+    content += page;
+  });
+
+  return { content, pageOffsets };
+}
+
+/**
+ * Find the 1-based page containing a character offset.
+ *
+ * @param pageOffsets - Page start offsets (index 0 = page 1).
+ * @param offset - Character offset in the document content.
+ * @returns The page number, or 1 when no offsets are known.
+ */
+export function pageAtOffset(pageOffsets: number[], offset: number): number {
+  let low = 0;
+  let high = pageOffsets.length - 1;
+  let page = 0;
+
+  // Last page whose start offset is at or before the position
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pageOffsets[mid] <= offset) {
+      page = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return page + 1;
+}
+
+/**
+ * Locates chunk text in document content to recover the pages it came from.
+ *
+ * Chunk text is compared with whitespace collapsed, since chunking re-joins lines
+ * and sentences. Lookups resume from the previous match so repeated passages resolve
+ * to the occurrence that follows the preceding chunk.
+ */
+export class PageLocator {
+  private readonly normalized: string;
+  private readonly originalOffsets: number[];
+  private cursor = 0;
+
+  constructor(
+    content: string,
+    private readonly pageOffsets: number[],
+  ) {
+    let normalized = '';
+    const originalOffsets: number[] = [];
+    let previousWasSpace = true;
+
+    for (let i = 0; i < content.length; i++) {
+      const isSpace = /\s/.test(content[i]);
+      if (isSpace && previousWasSpace) continue;
+      normalized += isSpace ? ' ' : content[i];
+      originalOffsets.push(i);
+      previousWasSpace = isSpace;
+    }
+
+    this.normalized = normalized;
+    this.originalOffsets = originalOffsets;
+  }
+
+  /**
+   * Find the page range of a piece of document text.
+   *
+   * @param text - Text taken from the document content.
+   * @returns The pages it spans, or null when it cannot be found.
+   */
+  locate(text: string): PageRange | null {
+    const needle = text.replace(/\s+/g, ' ').trim();
+    if (!needle) return null;
+
+    const prefix = needle.slice(0, LOCATE_PREFIX_LENGTH);
+    let start = this.normalized.indexOf(prefix, this.cursor);
+    if (start === -1) {
+      start = this.normalized.indexOf(prefix);
+    }
+    if (start === -1) return null;
+
+    const end = Math.min(start + needle.length, this.normalized.length) - 1;
+    this.cursor = start + 1;
+
+    return {
+      pageStart: pageAtOffset(this.pageOffsets, this.originalOffsets[start]),
+      pageEnd: pageAtOffset(this.pageOffsets, this.originalOffsets[end]),
+    };
+  }
+}
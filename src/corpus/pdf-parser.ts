@@ -1,10 +1,22 @@
 import pdfParse from 'pdf-parse';
-import { get_encoding } from 'tiktoken';
 
+import { classifyCategory } from './category-classifier.js';
+import { type Chunker, type ChunkingStrategy, createChunker, sectionChunker } from './chunkers.js';
+import { CircularId } from './circular-id.js';
+import { extractCrossReferences, extractOwnCircularId } from './cross-references.js';
+import { extractIssueDate, type IssueDate } from './date-parser.js';
+import { extractComplianceDates, resolveEffectiveDate } from './deadlines.js';
+import { detectLanguage, dominantLanguage, type LanguageMode, splitByLanguage } from './language.js';
+import { extractRescindedCirculars, isMasterCircular } from './master-circular.js';
+import { joinPages, PAGE_BREAK, pageAtOffset, PageLocator } from './pages.js';
+import { extractTables, renderTable, TABLE_MARKER_PATTERN } from './tables.js';
+import { countTokens } from './tokens.js';
 import {
-  type SEBICategory,
+  type DocumentLanguage,
+  type DocumentTable,
   type SEBIChunk,
   type SEBIDocument,
+  type SEBIDocumentType,
   SEBIChunkSchema,
   SEBIDocumentSchema,
 } from '../types/sebi-document.js';
@@ -17,64 +29,212 @@ import {
  * Represents a parsed section of a SEBI document.
  */
 export interface Section {
-  /** Section identifier (e.g., "2.3.1"). */
+  /** Section identifier (e.g., "2.3.1", "4", "b", "ii"). */
   id: string;
-  /** Section title. */
+  /** Section title (empty for clauses whose heading line is body text). */
   title: string;
   /** Section content (excluding nested sections). */
   content: string;
-  /** Hierarchical depth (1 = chapter, 2 = section, 3 = sub-section). */
+  /**
+   * Nesting rank of the heading style (1 = chapter, 2 = section or paragraph,
+   * 3 = sub-section, 4 = clause, 5 = sub-clause).
+   */
   level: number;
+  /** Label used in section hierarchies (e.g., "Para 4", "(b)"); defaults to "<id> <title>". */
+  label?: string;
+  /** First page (1-based) of the section, when page offsets are known. */
+  pageStart?: number;
+  /** Last page (1-based) of the section's own content, when page offsets are known. */
+  pageEnd?: number;
   /** Child sections. */
   children: Section[];
 }
 
+/**
+ * A heading style recognised by {@link extractSections}.
+ */
+export interface HeadingRule {
+  /** Name of the heading style (e.g., "chapter", "paragraph", "roman"). */
+  name: string;
+  /** Pattern matched against a trimmed line; group 1 is the id, group 2 the remainder. */
+  pattern: RegExp;
+  /** Nesting rank; a heading nests under the closest open heading with a lower rank. */
+  level: number;
+  /** Treat the remainder of the heading line as body content instead of a title. */
+  inlineContent?: boolean;
+  /** Build the hierarchy label for a matched id (defaults to "<id> <title>"). */
+  label?: (id: string) => string;
+  /**
+   * Decide whether a match really is this heading style, given the previous open
+   * heading of the same rank. Used to tell "(i)" after "(h)" apart from a roman numeral.
+   */
+  accepts?: (id: string, previous: Section | undefined) => boolean;
+}
+
+/**
+ * Options for extracting sections.
+ */
+export interface SectionExtractionOptions {
+  /** Ordered heading rules; the first matching rule wins (default: {@link DEFAULT_HEADING_GRAMMAR}). */
+  grammar?: HeadingRule[];
+  /** Character offset at which each page starts in the text, to record section pages. */
+  pageOffsets?: number[];
+}
+
 /**
  * Options for chunking a document.
  */
 export interface ChunkOptions {
   /** Maximum tokens per chunk (default: 512). */
   maxTokens?: number;
-  /** Minimum tokens per chunk (default: 128). */
+  /**
+   * Minimum tokens per chunk (default: 128); smaller sections are merged with a
+   * neighbouring section of the same top-level section.
+   */
   minTokens?: number;
   /** Token overlap between adjacent chunks (default: 50). */
   overlap?: number;
+  /**
+   * Also emit parent chunks of up to this many tokens: whole sections, split when
+   * longer. Child chunks reference their parent through `parent_id`; only children
+   * are meant to be embedded (default: disabled).
+   */
+  parentMaxTokens?: number;
+  /**
+   * Heading grammar used for section extraction (default: {@link MASTER_CIRCULAR_GRAMMAR}
+   * for master circulars, otherwise {@link DEFAULT_HEADING_GRAMMAR}).
+   */
+  headingGrammar?: HeadingRule[];
+  /**
+   * How section text is cut into chunks: a built-in strategy or a custom
+   * {@link Chunker} (default: "section"). Its name is recorded on every chunk.
+   */
+  strategy?: ChunkingStrategy | Chunker;
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Token Counting
-// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Options for parsing a SEBI PDF.
+ */
+export interface ParseOptions {
+  /**
+   * Document type to parse as; "auto" detects master circulars from the header
+   * (default: "auto").
+   */
+  documentType?: 'auto' | SEBIDocumentType;
+  /**
+   * Language to keep from bilingual (English/Hindi) PDFs; "auto" keeps the PDF's
+   * dominant language (default: "auto").
+   */
+  language?: 'auto' | DocumentLanguage;
+}
 
-/** Cached tiktoken encoder for cl100k_base. */
-let encoder: ReturnType<typeof get_encoding> | null = null;
+/** Letters that are also single-character roman numerals, keyed by the letter before them. */
+const ROMAN_LOOKALIKE_PREDECESSORS: Record<string, string> = { i: 'h', v: 'u', x: 'w' };
+
+/** "Chapter N" headings. */
+export const CHAPTER_HEADING: HeadingRule = {
+  name: 'chapter',
+  pattern: /^Chapter\s+(\d+|[IVXLCDM]+)[:.]?\s+(.+)/i,
+  level: 1,
+};
+
+/** "N.N.N" headings. */
+export const SUB_SECTION_HEADING: HeadingRule = {
+  name: 'sub-section',
+  pattern: /^(\d+\.\d+\.\d+)[:.]?\s+(.+)/,
+  level: 3,
+};
+
+/** "N.N" headings. */
+export const SECTION_HEADING: HeadingRule = {
+  name: 'section',
+  pattern: /^(\d+\.\d+)[:.]?\s+(.+)/,
+  level: 2,
+};
+
+/** Numbered paragraphs ("1. The AMC shall ..."). */
+export const PARAGRAPH_HEADING: HeadingRule = {
+  name: 'paragraph',
+  pattern: /^(\d{1,3})\.\s+(.+)/,
+  level: 2,
+  inlineContent: true,
+  label: (id) => `Para ${id}`,
+};
+
+/** Lettered clauses ("a)", "(b)"), telling "(i)" after "(h)" apart from a roman numeral. */
+export const CLAUSE_HEADING: HeadingRule = {
+  name: 'clause',
+  pattern: /^\(?([a-z])\)(?:\s+(.*))?$/,
+  level: 4,
+  inlineContent: true,
+  label: (id) => `(${id})`,
+  accepts: (id, previous) => {
+    const predecessor = ROMAN_LOOKALIKE_PREDECESSORS[id];
+    return !predecessor || previous?.id === predecessor;
+  },
+};
+
+/** Roman sub-clauses ("(i)", "(ii)"). */
+export const SUB_CLAUSE_HEADING: HeadingRule = {
+  name: 'sub-clause',
+  pattern: /^\(?([ivx]{1,6})\)(?:\s+(.*))?$/,
+  level: 5,
+  inlineContent: true,
+  label: (id) => `(${id})`,
+};
 
 /**
- * Get or initialize the tiktoken encoder.
+ * Annexure and appendix headings: the word alone or with a number or letter, optionally
+ * followed by a short title ("Annexure 5 - List of circulars rescinded", "APPENDIX A").
+ * Body sentences such as "Annexure 2 of this circular lists ..." do not match.
  */
-function getEncoder(): ReturnType<typeof get_encoding> {
-  if (!encoder) {
-    encoder = get_encoding('cl100k_base');
-  }
-  return encoder;
-}
+export const ANNEXURE_HEADING: HeadingRule = {
+  name: 'annexure',
+  pattern:
+    /^((?:Annexure|ANNEXURE|Appendix|APPENDIX)(?:[\s-]+(?:\d{1,2}|[IVX]{1,5}|[A-Z])\b)?)(?:(?:\s*[:.\-–]\s*|\s+(?=[A-Z(]))(.{0,79}[^.\s]))?$/,
+  level: 1,
+};
 
 /**
- * Count tokens in a string using tiktoken cl100k_base encoding.
- *
- * @param text - The text to count tokens for.
- * @returns The number of tokens.
- *
- * @example
- * ```ts
- * const count = countTokens('Hello, world!');
- * console.log(count); // e.g., 4
- * ```
+ * Heading grammar covering "Chapter N", "N.N" and "N.N.N" headings as well as the
+ * clause numbering used in most SEBI circulars: numbered paragraphs ("1."), lettered
+ * clauses ("a)", "(b)") and roman sub-clauses ("(i)", "(ii)").
  */
-export function countTokens(text: string): number {
-  const enc = getEncoder();
-  const tokens = enc.encode(text);
-  return tokens.length;
-}
+export const DEFAULT_HEADING_GRAMMAR: HeadingRule[] = [
+  CHAPTER_HEADING,
+  SUB_SECTION_HEADING,
+  SECTION_HEADING,
+  PARAGRAPH_HEADING,
+  CLAUSE_HEADING,
+  SUB_CLAUSE_HEADING,
+];
+
+/**
+ * Heading grammar for master circulars: "Chapter N" headings, "N.M" topic headings,
+ * "N.M.K" (and "N.M.K.L") numbered paragraphs, lettered/roman clauses beneath them and
+ * the closing annexures.
+ */
+export const MASTER_CIRCULAR_GRAMMAR: HeadingRule[] = [
+  CHAPTER_HEADING,
+  ANNEXURE_HEADING,
+  {
+    name: 'sub-paragraph',
+    pattern: /^(\d+\.\d+\.\d+\.\d+)[:.]?\s+(.+)/,
+    level: 4,
+    inlineContent: true,
+    label: (id) => `Para ${id}`,
+  },
+  {
+    name: 'paragraph',
+    pattern: /^(\d+\.\d+\.\d+)[:.]?\s+(.+)/,
+    level: 3,
+    inlineContent: true,
+    label: (id) => `Para ${id}`,
+  },
+  SECTION_HEADING,
+  { ...CLAUSE_HEADING, level: CLAUSE_HEADING.level + 1 },
+  { ...SUB_CLAUSE_HEADING, level: SUB_CLAUSE_HEADING.level + 1 },
+];
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Section Extraction
@@ -85,7 +245,7 @@ export function countTokens(text: string): number {
  */
 interface CircularMetadata {
   circularId: string | null;
-  date: Date | null;
+  issueDate: IssueDate | null;
   title: string | null;
 }
 
@@ -98,33 +258,15 @@ interface CircularMetadata {
 function extractCircularMetadata(text: string): CircularMetadata {
   const result: CircularMetadata = {
     circularId: null,
-    date: null,
+    issueDate: null,
     title: null,
   };
 
-  // Pattern for SEBI circular ID: SEBI/HO/XXX/XXX/YYYY/NNN
-  const circularIdMatch = text.match(/SEBI\/[A-Z]+\/[A-Z]+(?:\/[A-Z0-9-]+)*\/\d{4}\/\d+/i);
-  if (circularIdMatch) {
-    result.circularId = circularIdMatch[0];
-  }
+  // The document's own circular ID, skipping circulars referenced in the header
+  result.circularId = extractOwnCircularId(text);
 
-  // Pattern for date: various formats
-  const datePatterns = [
-    /(\d{1,2})[/-](\d{1,2})[/-](\d{4})/, // DD/MM/YYYY or DD-MM-YYYY
-    /(\w+)\s+(\d{1,2}),?\s+(\d{4})/, // Month DD, YYYY
-    /(\d{1,2})\s+(\w+)\s+(\d{4})/, // DD Month YYYY
-  ];
-
-  for (const pattern of datePatterns) {
-    const dateMatch = text.slice(0, 2000).match(pattern);
-    if (dateMatch) {
-      const parsed = new Date(dateMatch[0]);
-      if (!isNaN(parsed.getTime())) {
-        result.date = parsed;
-        break;
-      }
-    }
-  }
+  // Issue date in SEBI's day-first conventions, preferring the header
+  result.issueDate = extractIssueDate(text);
 
   // Extract title from first significant line
   const lines = text.split('\n').filter((line) => line.trim().length > 10);
@@ -146,35 +288,15 @@ function extractCircularMetadata(text: string): CircularMetadata {
   return result;
 }
 
-/**
- * Detect document category based on content keywords.
- *
- * @param text - Document text.
- * @returns Detected category.
- */
-function detectCategory(text: string): SEBICategory {
-  const lowerText = text.toLowerCase();
-
-  if (lowerText.includes('mutual fund') || lowerText.includes('amc') || lowerText.includes('ter')) {
-    return 'mutual_funds';
-  }
-  if (lowerText.includes('portfolio manager')) {
-    return 'portfolio_managers';
-  }
-  if (lowerText.includes('invit') || lowerText.includes('infrastructure investment trust')) {
-    return 'invits';
-  }
-  if (lowerText.includes('reit') || lowerText.includes('real estate investment trust')) {
-    return 'reits';
-  }
-
-  return 'general';
-}
-
 /**
  * Extract hierarchical sections from document text.
  *
+ * Headings are recognised with an ordered heading grammar; each heading nests under
+ * the closest open heading of a lower rank. Text before the first heading becomes a
+ * leading section with an empty id and title; text without headings yields no sections.
+ *
  * @param text - Full document text.
+ * @param options - Extraction options (e.g., a custom heading grammar).
  * @returns Array of top-level sections with nested children.
  *
  * @example
@@ -183,109 +305,181 @@ function detectCategory(text: string): SEBICategory {
  * console.log(sections[0].title); // "Chapter 1: Introduction"
  * ```
  */
-export function extractSections(text: string): Section[] {
+export function extractSections(text: string, options: SectionExtractionOptions = {}): Section[] {
+  const { grammar = DEFAULT_HEADING_GRAMMAR, pageOffsets } = options;
   const sections: Section[] = [];
   const lines = text.split('\n');
+  let lineOffset = 0;
 
-  let currentChapter: Section | null = null;
-  let currentSection: Section | null = null;
-  let currentSubSection: Section | null = null;
+  const openSections: Section[] = [];
   let contentBuffer: string[] = [];
+  // Text before the first heading, e.g. the addressees and subject line
+  let preamble = '';
 
   /**
-   * Flush accumulated content to the appropriate section.
+   * Flush accumulated content to the innermost open section.
    */
   function flushContent(): void {
     const content = contentBuffer.join('\n').trim();
+    contentBuffer = [];
     if (!content) return;
 
-    if (currentSubSection) {
-      currentSubSection.content += (currentSubSection.content ? '\n' : '') + content;
-    } else if (currentSection) {
-      currentSection.content += (currentSection.content ? '\n' : '') + content;
-    } else if (currentChapter) {
-      currentChapter.content += (currentChapter.content ? '\n' : '') + content;
+    const current = openSections.at(-1);
+    if (current) {
+      current.content += (current.content ? '\n' : '') + content;
+    } else {
+      preamble += (preamble ? '\n' : '') + content;
     }
-    contentBuffer = [];
   }
 
-  for (const line of lines) {
-    const trimmedLine = line.trim();
+  /**
+   * Find the first heading rule that matches a line.
+   */
+  function matchHeading(line: string): { rule: HeadingRule; match: RegExpMatchArray } | null {
+    for (const rule of grammar) {
+      const match = line.match(rule.pattern);
+      if (!match) continue;
 
-    // Check for chapter
-    const chapterMatch = trimmedLine.match(/^Chapter\s+(\d+|[IVXLCDM]+)[:.]?\s+(.+)/i);
-    if (chapterMatch) {
-      flushContent();
-      currentChapter = {
-        id: chapterMatch[1],
-        title: chapterMatch[2].trim(),
-        content: '',
-        level: 1,
-        children: [],
-      };
-      sections.push(currentChapter);
-      currentSection = null;
-      currentSubSection = null;
-      continue;
+      const previous = openSections.findLast((section) => section.level === rule.level);
+      if (rule.accepts && !rule.accepts(match[1], previous)) continue;
+
+      return { rule, match };
     }
+    return null;
+  }
 
-    // Check for section (e.g., "2.3 Title")
-    const sectionMatch = trimmedLine.match(/^(\d+\.\d+)[:.]?\s+(.+)/);
-    if (sectionMatch && !trimmedLine.match(/^\d+\.\d+\.\d+/)) {
-      flushContent();
-      currentSection = {
-        id: sectionMatch[1],
-        title: sectionMatch[2].trim(),
-        content: '',
-        level: 2,
-        children: [],
-      };
-      if (currentChapter) {
-        currentChapter.children.push(currentSection);
-      } else {
-        sections.push(currentSection);
+  for (const line of lines) {
+    const trimmedLine = line.trim();
+    const heading = trimmedLine ? matchHeading(trimmedLine) : null;
+    const page = pageOffsets ? pageAtOffset(pageOffsets, lineOffset) : undefined;
+    lineOffset += line.length + 1;
+
+    if (!heading) {
+      // Regular content line
+      if (trimmedLine) {
+        contentBuffer.push(trimmedLine);
+        const current = openSections.at(-1);
+        if (current && page !== undefined) {
+          current.pageEnd = page;
+        }
       }
-      currentSubSection = null;
       continue;
     }
 
-    // Check for sub-section (e.g., "2.3.1 Title")
-    const subSectionMatch = trimmedLine.match(/^(\d+\.\d+\.\d+)[:.]?\s+(.+)/);
-    if (subSectionMatch) {
-      flushContent();
-      currentSubSection = {
-        id: subSectionMatch[1],
-        title: subSectionMatch[2].trim(),
-        content: '',
-        level: 3,
-        children: [],
-      };
-      if (currentSection) {
-        currentSection.children.push(currentSubSection);
-      } else if (currentChapter) {
-        currentChapter.children.push(currentSubSection);
-      } else {
-        sections.push(currentSubSection);
-      }
-      continue;
+    flushContent();
+
+    const { rule, match } = heading;
+    const id = match[1];
+    const remainder = (match[2] ?? '').trim();
+    const section: Section = {
+      id,
+      title: rule.inlineContent ? '' : remainder,
+      content: '',
+      level: rule.level,
+      children: [],
+    };
+    if (rule.label) {
+      section.label = rule.label(id);
+    }
+    if (page !== undefined) {
+      section.pageStart = page;
+      section.pageEnd = page;
     }
 
-    // Regular content line
-    if (trimmedLine) {
-      contentBuffer.push(trimmedLine);
+    while (openSections.length > 0 && (openSections.at(-1)?.level ?? 0) >= rule.level) {
+      openSections.pop();
+    }
+
+    const parent = openSections.at(-1);
+    if (parent) {
+      parent.children.push(section);
+    } else {
+      sections.push(section);
+    }
+    openSections.push(section);
+
+    if (rule.inlineContent && remainder) {
+      contentBuffer.push(remainder);
     }
   }
 
   // Flush any remaining content
   flushContent();
 
+  if (sections.length > 0 && preamble) {
+    sections.unshift({ id: '', title: '', content: preamble, level: 0, children: [] });
+  }
   return sections;
 }
 
+/**
+ * Format a section hierarchy for citations (e.g., "Para 4 > (b) > (ii)").
+ *
+ * @param hierarchy - Section hierarchy labels.
+ * @returns The labels joined with " > ".
+ */
+export function formatSectionPath(hierarchy: string[]): string {
+  return hierarchy.join(' > ');
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PDF Parsing
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Minimal shape of a pdf.js text item passed to the pdf-parse page render hook. */
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+/** Minimal shape of the page object passed to the pdf-parse page render hook. */
+interface PdfPageData {
+  pageNumber?: number;
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: PdfTextItem[] }>;
+}
+
+/** Horizontal gap, in multiples of the font size, treated as a column break. */
+const COLUMN_GAP_FONT_RATIO = 1.5;
+
+/**
+ * Render a PDF page like pdf-parse's default renderer, but insert a tab wherever a
+ * wide horizontal gap separates text on the same line so table columns survive.
+ *
+ * @param pageData - pdf.js page object supplied by pdf-parse.
+ * @returns Page text with tab-separated columns.
+ */
+async function renderPageWithColumns(pageData: PdfPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let text = '';
+  let lastY: number | undefined;
+  let lastEndX = 0;
+
+  for (const item of textContent.items) {
+    const [scaleX, , , scaleY, x, y] = item.transform;
+    const fontSize = Math.abs(scaleY) || Math.abs(scaleX) || 10;
+
+    if (lastY === undefined || lastY === y) {
+      const gap = x - lastEndX;
+      text += lastY !== undefined && gap > fontSize * COLUMN_GAP_FONT_RATIO ? `\t${item.str}` : item.str;
+    } else {
+      text += `\n${item.str}`;
+    }
+
+    lastY = y;
+    lastEndX = x + item.width;
+  }
+
+  return text;
+}
+
 /**
  * Clean extracted PDF text by normalizing whitespace and removing artifacts.
  *
@@ -300,9 +494,9 @@ function cleanPdfText(text: string): string {
       .replace(/\r/g, '\n')
       // Remove excessive whitespace
       .replace(/[ \t]+/g, ' ')
-      // Remove page numbers and headers (common patterns)
-      .replace(/^Page\s+\d+\s*$/gm, '')
-      .replace(/^\d+\s*$/gm, '')
+      // Remove page numbers and headers (common patterns), keeping page breaks intact
+      .replace(/^Page\s+\d+[ \t]*$/gm, '')
+      .replace(/^\d+[ \t]*$/gm, '')
       // Fix hyphenated words split across lines
       .replace(/(\w)-\n(\w)/g, '$1$2')
       // Collapse multiple newlines
@@ -312,134 +506,200 @@ function cleanPdfText(text: string): string {
 }
 
 /**
- * Parse a SEBI PDF document and extract structured data.
- *
- * @param pdfBuffer - Buffer containing PDF file data.
- * @returns Parsed SEBI document.
- * @throws Error if PDF parsing fails.
- *
- * @example
- * ```ts
- * import { readFile } from 'fs/promises';
- *
- * const buffer = await readFile('circular.pdf');
- * const document = await parseSEBIPDF(buffer);
- * console.log(document.circular_id);
- * ```
+ * Raw text and document info read from a PDF.
+ */
+interface PdfContent {
+  /** Page texts separated by {@link PAGE_BREAK} lines. */
+  pagedText: string;
+  numpages: number;
+  info: unknown;
+}
+
+/**
+ * Read the text of every page of a PDF.
  */
-export async function parseSEBIPDF(pdfBuffer: Buffer): Promise<SEBIDocument> {
+async function readPdf(pdfBuffer: Buffer): Promise<PdfContent> {
   let pdfData;
+  const pageTexts: string[] = [];
 
   try {
-    pdfData = await pdfParse(pdfBuffer);
+    pdfData = await pdfParse(pdfBuffer, {
+      pagerender: async (pageData: PdfPageData) => {
+        const pageText = await renderPageWithColumns(pageData);
+        pageTexts[(pageData.pageNumber ?? pageTexts.length + 1) - 1] = pageText;
+        return pageText;
+      },
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(`Failed to parse PDF: ${message}`);
   }
 
-  const rawText = pdfData.text;
-  const cleanedText = cleanPdfText(rawText);
-  const metadata = extractCircularMetadata(cleanedText);
-  const category = detectCategory(cleanedText);
+  const pagedText =
+    pageTexts.length > 0
+      ? // On a line of its own, so a table row ending a page cannot absorb the break
+        Array.from(pageTexts, (page) => page ?? '').join(`\n${PAGE_BREAK}\n`)
+      : pdfData.text;
 
-  // Generate a unique ID
-  const id = metadata.circularId
-    ? metadata.circularId.replace(/\//g, '-').toLowerCase()
-    : `sebi-doc-${Date.now()}`;
+  return { pagedText, numpages: pdfData.numpages, info: pdfData.info };
+}
 
-  const slug = metadata.circularId?.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+/**
+ * Build the documents for the requested languages of a PDF.
+ *
+ * Circular metadata comes from the whole PDF, so each language document of a
+ * bilingual circular shares its identifier, date and references; content, pages
+ * and tables are specific to each language.
+ */
+function buildDocuments(
+  pdf: PdfContent,
+  languages: DocumentLanguage[],
+  options: ParseOptions,
+): SEBIDocument[] {
+  const { documentType = 'auto' } = options;
+
+  // Tables are lifted out before cleaning, which would collapse their column gaps
+  const { text: rawText, tables } = extractTables(pdf.pagedText);
+  const streams = splitByLanguage(rawText);
+  // Metadata is read with tables left in, as rescinded circulars and deadlines are often tabulated
+  const fullText = joinPages(cleanPdfText(pdf.pagedText)).content;
+
+  const metadata = extractCircularMetadata(fullText);
+  const classification = classifyCategory(fullText, metadata.circularId);
+  const resolvedType: SEBIDocumentType =
+    documentType === 'auto'
+      ? isMasterCircular(fullText)
+        ? 'master_circular'
+        : 'circular'
+      : documentType;
+
+  const rescindedCirculars =
+    resolvedType === 'master_circular'
+      ? extractRescindedCirculars(fullText, metadata.circularId)
+      : [];
+  // Circulars listed in a master circular's rescinded annexure are rescinded, whatever the wording
+  const references = extractCrossReferences(fullText, metadata.circularId)
+    .filter((ref) => !rescindedCirculars.includes(ref.circular_id))
+    .concat(
+      rescindedCirculars.map((circularId) => ({ circular_id: circularId, relation: 'rescinds' as const })),
+    );
+
+  const issueDate = metadata.issueDate?.date;
+  const complianceDates = extractComplianceDates(fullText, issueDate);
+  const effectiveDate = resolveEffectiveDate(complianceDates);
+
+  // IDs follow the circular number, so re-ingesting a PDF replaces its chunks
+  const slug = metadata.circularId ? CircularId.parse(metadata.circularId)?.slug : undefined;
+  const baseId = metadata.circularId ? CircularId.slugify(metadata.circularId) : `sebi-doc-${Date.now()}`;
   const fallbackUrl = slug ? `https://www.sebi.gov.in/circulars/${slug}.pdf` : 'https://www.sebi.gov.in/';
 
-  const document: SEBIDocument = {
-    id,
-    circular_id: metadata.circularId ?? `UNKNOWN-${Date.now()}`,
-    title: metadata.title ?? 'Untitled SEBI Circular',
-    date: metadata.date ?? new Date(),
-    category,
-    content: cleanedText,
-    url: fallbackUrl,
-    metadata: {
-      pageCount: pdfData.numpages,
-      pdfInfo: pdfData.info,
-      extractedAt: new Date().toISOString(),
-    },
-  };
-
-  // Validate with Zod schema
-  return SEBIDocumentSchema.parse(document);
+  return languages.map((language) => {
+    const { content, pageOffsets } = joinPages(cleanPdfText(streams[language]));
+    const languageTables = tables.filter((table) => content.includes(`[Table ${table.id}]`));
+
+    const document: SEBIDocument = {
+      id: language === 'en' ? baseId : `${baseId}-${language}`,
+      circular_id: metadata.circularId ?? `UNKNOWN-${Date.now()}`,
+      title: metadata.title ?? 'Untitled SEBI Circular',
+      date: issueDate,
+      category: classification.primary,
+      categories: [classification.primary, ...classification.secondary],
+      content,
+      url: fallbackUrl,
+      language,
+      page_offsets: pageOffsets,
+      ...(languageTables.length > 0 ? { tables: languageTables } : {}),
+      metadata: {
+        pageCount: pdf.numpages,
+        pdfInfo: pdf.info,
+        extractedAt: new Date().toISOString(),
+        documentType: resolvedType,
+        categoryConfidence: classification.confidence,
+        // Without an issue date the document is flagged rather than dated today
+        ...(metadata.issueDate
+          ? { dateConfidence: metadata.issueDate.confidence, dateSource: metadata.issueDate.source }
+          : { dateMissing: true }),
+        ...(resolvedType === 'master_circular' ? { rescindedCirculars } : {}),
+        references,
+        complianceDates,
+        ...(effectiveDate ? { effectiveDate } : {}),
+      },
+    };
+
+    // Validate with Zod schema
+    return SEBIDocumentSchema.parse(document);
+  });
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Chunking
-// ─────────────────────────────────────────────────────────────────────────────
-
 /**
- * Split text into sentences for finer-grained chunking.
+ * Parse a SEBI PDF document and extract structured data.
+ *
+ * Master circulars are detected automatically (see {@link ParseOptions}); their
+ * document type and rescinded-circular list are recorded in `metadata`, along with
+ * the effective date and compliance deadlines stated in the text. Only one language
+ * of a bilingual PDF is kept; use {@link parseSEBIPDFByLanguage} for both.
+ *
+ * @param pdfBuffer - Buffer containing PDF file data.
+ * @param options - Parsing options.
+ * @returns Parsed SEBI document.
+ * @throws Error if PDF parsing fails.
+ *
+ * @example
+ * ```ts
+ * import { readFile } from 'fs/promises';
  *
- * @param text - Text to split.
- * @returns Array of sentences.
+ * const buffer = await readFile('circular.pdf');
+ * const document = await parseSEBIPDF(buffer);
+ * console.log(document.circular_id);
+ * ```
  */
-function splitIntoSentences(text: string): string[] {
-  // Split on sentence boundaries while preserving the delimiter
-  return text
-    .split(/(?<=[.!?])\s+/)
-    .map((s) => s.trim())
-    .filter(Boolean);
+export async function parseSEBIPDF(
+  pdfBuffer: Buffer,
+  options: ParseOptions = {},
+): Promise<SEBIDocument> {
+  const { language = 'auto' } = options;
+  const pdf = await readPdf(pdfBuffer);
+  const resolvedLanguage = language === 'auto' ? dominantLanguage(pdf.pagedText) : language;
+
+  return buildDocuments(pdf, [resolvedLanguage], options)[0];
 }
 
 /**
- * Split text into chunks respecting token limits.
+ * Parse a bilingual SEBI PDF into one language-tagged document per language.
+ *
+ * English and Hindi text are separated by script (see {@link splitByLanguage}).
+ * Hindi documents get a "-hi" suffix on their ID so their chunks do not collide
+ * with the English ones.
  *
- * @param text - Text to split.
- * @param maxTokens - Maximum tokens per chunk.
- * @param overlap - Token overlap between chunks.
- * @returns Array of text chunks.
+ * @param pdfBuffer - Buffer containing PDF file data.
+ * @param mode - Languages to keep (default: "both").
+ * @param options - Parsing options.
+ * @returns A document for each requested language present in the PDF.
+ * @throws Error if PDF parsing fails.
+ *
+ * @example
+ * ```ts
+ * const documents = await parseSEBIPDFByLanguage(buffer, 'both');
+ * console.log(documents.map((doc) => doc.language)); // ["en", "hi"]
+ * ```
  */
-function splitByTokens(text: string, maxTokens: number, overlap: number): string[] {
-  const sentences = splitIntoSentences(text);
-  const chunks: string[] = [];
-  let currentChunk: string[] = [];
-  let currentTokens = 0;
-
-  for (const sentence of sentences) {
-    const sentenceTokens = countTokens(sentence);
-
-    if (currentTokens + sentenceTokens > maxTokens && currentChunk.length > 0) {
-      // Save current chunk
-      chunks.push(currentChunk.join(' '));
-
-      // Calculate overlap
-      if (overlap > 0) {
-        let overlapTokens = 0;
-        const overlapSentences: string[] = [];
-
-        // Add sentences from the end until we reach overlap target
-        for (let i = currentChunk.length - 1; i >= 0 && overlapTokens < overlap; i--) {
-          const sent = currentChunk[i];
-          overlapSentences.unshift(sent);
-          overlapTokens += countTokens(sent);
-        }
-
-        currentChunk = overlapSentences;
-        currentTokens = overlapTokens;
-      } else {
-        currentChunk = [];
-        currentTokens = 0;
-      }
-    }
-
-    currentChunk.push(sentence);
-    currentTokens += sentenceTokens;
-  }
-
-  // Add remaining content
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk.join(' '));
-  }
-
-  return chunks;
+export async function parseSEBIPDFByLanguage(
+  pdfBuffer: Buffer,
+  mode: LanguageMode = 'both',
+  options: Omit<ParseOptions, 'language'> = {},
+): Promise<SEBIDocument[]> {
+  const pdf = await readPdf(pdfBuffer);
+  const streams = splitByLanguage(pdf.pagedText);
+  const requested: DocumentLanguage[] = mode === 'both' ? ['en', 'hi'] : [mode];
+  const present = requested.filter((language) => detectLanguage(streams[language]) === language);
+
+  return buildDocuments(pdf, present, options);
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Chunking
+// ─────────────────────────────────────────────────────────────────────────────
+
 /**
  * Flatten section hierarchy into a list of content blocks with paths.
  */
@@ -459,7 +719,9 @@ function flattenSections(sections: Section[], parentPath: string[] = []): Conten
   const blocks: ContentBlock[] = [];
 
   for (const section of sections) {
-    const currentPath = [...parentPath, `${section.id} ${section.title}`.trim()];
+    // Text before the first heading belongs to no section
+    const label = section.label ?? `${section.id} ${section.title}`.trim();
+    const currentPath = label ? [...parentPath, label] : parentPath;
 
     if (section.content) {
       blocks.push({
@@ -476,9 +738,83 @@ function flattenSections(sections: Section[], parentPath: string[] = []): Conten
   return blocks;
 }
 
+/**
+ * Merge content blocks smaller than `minTokens` into a neighbour within the same
+ * top-level section, so clause-level sections too short to embed alone are kept
+ * rather than dropped. A merged block is cited by the hierarchy its parts share,
+ * e.g. "Para 2" for clauses (a) and (b) of it.
+ *
+ * @param blocks - Content blocks in document order.
+ * @param minTokens - Size below which a block is merged.
+ * @param maxTokens - Size a merged block may not exceed.
+ * @returns Blocks in document order; a block with no neighbour to merge into is kept as is.
+ */
+function mergeSmallBlocks(blocks: ContentBlock[], minTokens: number, maxTokens: number): ContentBlock[] {
+  const merged: Array<ContentBlock & { tokens: number }> = [];
+
+  for (const block of blocks) {
+    const tokens = countTokens(block.content);
+    const previous = merged.at(-1);
+
+    if (previous && (previous.tokens < minTokens || tokens < minTokens)) {
+      const content = `${previous.content}\n${block.content}`;
+      const combinedTokens = countTokens(content);
+      const shared = previous.hierarchy.findIndex((label, index) => block.hierarchy[index] !== label);
+      const sameTopLevel = shared === -1 ? previous.hierarchy.length > 0 : shared > 0;
+      if (sameTopLevel && combinedTokens <= maxTokens) {
+        merged[merged.length - 1] = {
+          content,
+          hierarchy: shared === -1 ? previous.hierarchy : previous.hierarchy.slice(0, shared),
+          tokens: combinedTokens,
+        };
+        continue;
+      }
+    }
+
+    merged.push({ ...block, tokens });
+  }
+
+  return merged.map(({ content, hierarchy }) => ({ content, hierarchy }));
+}
+
+/**
+ * Split a table into row groups whose rendered text fits within a token budget.
+ *
+ * @param table - Table to split.
+ * @param maxTokens - Maximum tokens per rendered piece.
+ * @returns Tables sharing the original id, caption and header.
+ */
+function splitTableByTokens(table: DocumentTable, maxTokens: number): DocumentTable[] {
+  const pieces: DocumentTable[] = [];
+  let rows: string[][] = [];
+
+  for (const row of table.rows) {
+    const candidate = { ...table, rows: [...rows, row] };
+    if (rows.length > 0 && countTokens(renderTable(candidate)) > maxTokens) {
+      pieces.push({ ...table, rows });
+      rows = [row];
+    } else {
+      rows = candidate.rows;
+    }
+  }
+
+  if (rows.length > 0 || pieces.length === 0) {
+    pieces.push({ ...table, rows });
+  }
+
+  return pieces;
+}
+
 /**
  * Chunk a SEBI document into smaller pieces suitable for embedding.
  *
+ * Tables referenced from the document text (see `SEBIDocument.tables`) are emitted
+ * as `table` chunks right after the text of the section that contains them.
+ *
+ * With `parentMaxTokens` set, the text chunks become "child" chunks and the
+ * sections they were cut from are appended as "parent" chunks, so a search can
+ * match a precise child and return its whole section as context.
+ *
  * @param document - The document to chunk.
  * @param options - Chunking options.
  * @returns Array of document chunks.
@@ -490,87 +826,156 @@ function flattenSections(sections: Section[], parentPath: string[] = []): Conten
  * ```
  */
 export function chunkDocument(document: SEBIDocument, options: ChunkOptions = {}): SEBIChunk[] {
-  const { maxTokens = 512, minTokens = 128, overlap = 50 } = options;
-
-  const sections = extractSections(document.content);
+  const { maxTokens = 512, minTokens = 128, overlap = 50, headingGrammar, parentMaxTokens } = options;
+  const chunker = typeof options.strategy === 'object' ? options.strategy : createChunker(options.strategy ?? 'section');
+  const splitSpan = (span: string) => chunker.split(span, { maxTokens, overlap });
+
+  const grammar =
+    headingGrammar ??
+    (document.metadata.documentType === 'master_circular'
+      ? MASTER_CIRCULAR_GRAMMAR
+      : DEFAULT_HEADING_GRAMMAR);
+  const pageOffsets = document.page_offsets;
+  const sections = extractSections(document.content, { grammar, pageOffsets });
+  const tables = new Map((document.tables ?? []).map((table) => [table.id, table]));
+  const locator = pageOffsets ? new PageLocator(document.content, pageOffsets) : null;
   const chunks: SEBIChunk[] = [];
+  const parents: SEBIChunk[] = [];
   let chunkIndex = 0;
 
-  // If no sections found, chunk the entire content
-  if (sections.length === 0) {
-    const textChunks = splitByTokens(document.content, maxTokens, overlap);
-
-    for (const text of textChunks) {
-      const tokens = countTokens(text);
-
-      // Skip chunks that are too small (unless it's the only chunk)
-      if (tokens < minTokens && textChunks.length > 1) {
-        continue;
-      }
-
-      const chunk: SEBIChunk = {
-        chunk_id: `${document.id}-chunk-${chunkIndex}`,
-        document_id: document.id,
-        chunk_index: chunkIndex,
-        content: text,
-        tokens,
-        section_hierarchy: [],
-      };
-
-      chunks.push(SEBIChunkSchema.parse(chunk));
-      chunkIndex++;
+  /**
+   * Validate and append a chunk with the next sequential index.
+   */
+  function pushChunk(
+    content: string,
+    tokens: number,
+    hierarchy: string[],
+    extra: Partial<SEBIChunk> = {},
+  ): void {
+    // Text that only points at tables adds nothing beyond the table chunks themselves
+    if (extra.chunk_type !== 'table' && !content.replace(TABLE_MARKER_PATTERN, '').trim()) {
+      return;
     }
 
-    return chunks;
+    const pages = locator?.locate(extra.table ? `[Table ${extra.table.id}]` : content);
+    const chunk: SEBIChunk = {
+      chunk_id: `${document.id}-chunk-${chunkIndex}`,
+      document_id: document.id,
+      chunk_index: chunkIndex,
+      content,
+      tokens,
+      section_hierarchy: hierarchy,
+      ...(pages ? { page_start: pages.pageStart, page_end: pages.pageEnd } : {}),
+      ...(document.language ? { language: document.language } : {}),
+      chunking_strategy: chunker.name,
+      ...extra,
+    };
+
+    chunks.push(SEBIChunkSchema.parse(chunk));
+    chunkIndex++;
   }
 
-  // Flatten sections and chunk each
-  const contentBlocks = flattenSections(sections);
+  /**
+   * Emit the child chunks of a span of text, recording the span as their parent when
+   * parent chunks are enabled. Spans longer than `parentMaxTokens` become several parents.
+   */
+  function pushWithParents(
+    text: string,
+    hierarchy: string[],
+    pushChildren: (span: string, extra: Partial<SEBIChunk>) => void,
+  ): void {
+    if (!parentMaxTokens) {
+      pushChildren(text, {});
+      return;
+    }
+
+    const spans =
+      countTokens(text) > parentMaxTokens
+        ? sectionChunker.split(text, { maxTokens: parentMaxTokens, overlap: 0 })
+        : [text];
 
-  // If all blocks are below minTokens, include them anyway
-  const allBlocksBelowMin = contentBlocks.every((b) => countTokens(b.content) < minTokens);
+    for (const span of spans) {
+      const parentId = `${document.id}-parent-${parents.length}`;
+      const childCount = chunks.length;
+      pushChildren(span, { chunk_tier: 'child', parent_id: parentId });
 
-  for (const block of contentBlocks) {
-    const blockTokens = countTokens(block.content);
+      // Spans whose children were all dropped as too small have nothing to give context to
+      if (chunks.length === childCount) continue;
 
-    if (blockTokens <= maxTokens) {
-      // Block fits in a single chunk
-      if (blockTokens >= minTokens || contentBlocks.length === 1 || allBlocksBelowMin) {
-        const chunk: SEBIChunk = {
-          chunk_id: `${document.id}-chunk-${chunkIndex}`,
+      const pages = locator?.locate(span);
+      parents.push(
+        SEBIChunkSchema.parse({
+          chunk_id: parentId,
           document_id: document.id,
-          chunk_index: chunkIndex,
-          content: block.content,
-          tokens: blockTokens,
-          section_hierarchy: block.hierarchy,
-        };
+          chunk_index: parents.length,
+          content: span,
+          tokens: countTokens(span),
+          section_hierarchy: hierarchy,
+          ...(pages ? { page_start: pages.pageStart, page_end: pages.pageEnd } : {}),
+          ...(document.language ? { language: document.language } : {}),
+          chunking_strategy: chunker.name,
+          chunk_tier: 'parent',
+        } satisfies SEBIChunk),
+      );
+    }
+  }
 
-        chunks.push(SEBIChunkSchema.parse(chunk));
-        chunkIndex++;
+  /**
+   * Emit table chunks for every not-yet-emitted table marker found in the text.
+   */
+  function pushReferencedTables(text: string, hierarchy: string[]): void {
+    for (const match of text.matchAll(TABLE_MARKER_PATTERN)) {
+      const table = tables.get(match[1]);
+      if (!table) continue;
+      tables.delete(table.id);
+
+      for (const piece of splitTableByTokens(table, maxTokens)) {
+        const content = renderTable(piece);
+        pushChunk(content, countTokens(content), hierarchy, { chunk_type: 'table', table: piece });
       }
-    } else {
-      // Block needs to be split
-      const textChunks = splitByTokens(block.content, maxTokens, overlap);
+    }
+  }
+
+  // If no sections found, chunk the entire content
+  if (sections.length === 0) {
+    pushWithParents(document.content, [], (span, extra) => {
+      const textChunks = splitSpan(span);
 
       for (const text of textChunks) {
         const tokens = countTokens(text);
 
-        if (tokens >= minTokens || textChunks.length === 1) {
-          const chunk: SEBIChunk = {
-            chunk_id: `${document.id}-chunk-${chunkIndex}`,
-            document_id: document.id,
-            chunk_index: chunkIndex,
-            content: text,
-            tokens,
-            section_hierarchy: block.hierarchy,
-          };
-
-          chunks.push(SEBIChunkSchema.parse(chunk));
-          chunkIndex++;
+        // Skip chunks that are too small (unless it's the only chunk)
+        if (tokens < minTokens && textChunks.length > 1) {
+          continue;
         }
+
+        pushChunk(text, tokens, [], extra);
       }
+    });
+  } else {
+    // Flatten sections, merging blocks too small to embed alone, and chunk each
+    const contentBlocks = mergeSmallBlocks(flattenSections(sections), minTokens, maxTokens);
+
+    for (const block of contentBlocks) {
+      pushWithParents(block.content, block.hierarchy, (span, extra) => {
+        // Every span goes through the chunker, so `chunking_strategy` names what cut it
+        const textChunks = splitSpan(span);
+
+        for (const text of textChunks) {
+          const tokens = countTokens(text);
+
+          if (tokens >= minTokens || textChunks.length === 1) {
+            pushChunk(text, tokens, block.hierarchy, extra);
+          }
+        }
+      });
+
+      pushReferencedTables(block.content, block.hierarchy);
     }
   }
 
-  return chunks;
+  // Tables whose marker fell outside any section (e.g., before the first heading)
+  pushReferencedTables(document.content, []);
+
+  return [...chunks, ...parents];
 }
@@ -1,32 +1,104 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
 
+import { CircularId } from './circular-id.js';
+import { type CitationEdge } from './cross-references.js';
+import { type FusionExplanation, type FusionOptions, fuseResults } from './fusion.js';
+import { type Reranker, rerankResults } from './rerankers.js';
 import {
+  type QdrantFilter,
+  type SearchFilters,
+  buildQdrantFilter,
+  sectionPathPrefixes,
+} from './search-filters.js';
+import { keywordTerms, KeywordVocabulary, type SparseVector } from './sparse-vectors.js';
+import {
+  type CircularReference,
+  type CircularRelation,
+  type ComplianceDate,
+  type DocumentLanguage,
   type SEBICategory,
   type SEBIChunk,
   type SEBIDocument,
-  SEBIChunkSchema,
+  type SEBIDocumentType,
+  CircularReferenceSchema,
+  ComplianceDateSchema,
   SEBIDocumentSchema,
+  SEBIDocumentTypeSchema,
+  createSEBIChunkSchema,
 } from '../types/sebi-document.js';
 
 export interface QdrantConfig {
   url: string;
   apiKey?: string;
   collectionName?: string;
+  /** Vector size of the embedding provider (default 3072). */
+  vectorSize?: number;
+  /**
+   * File in which keyword vocabulary statistics are kept between runs. Without it, or
+   * when the file is stale, they are rebuilt from the collection when first needed.
+   */
+  vocabularyPath?: string;
+  /** Reranker applied to hybrid search results unless a search overrides it. */
+  reranker?: Reranker;
+  /** Fusion of hybrid search legs unless a search overrides it (default: RRF, equal weights). */
+  fusion?: FusionOptions;
+  /**
+   * Document metadata keys given keyword payload indexes when the collection is
+   * created, for fast `metadata` search filters.
+   */
+  metadataIndexes?: string[];
   logger?: Pick<typeof console, 'info' | 'warn' | 'error'>;
 }
 
-export interface SearchFilters {
-  category?: SEBICategory;
-  dateFrom?: Date;
-  dateTo?: Date;
-  chapter?: string;
-  circularId?: string;
+/**
+ * A circular that rescinds another, as recorded on its stored chunks.
+ */
+export interface SupersedingCircular {
+  circularId: string;
+  date: Date;
 }
 
 export interface SearchResult {
   score: number;
+  /** The matching chunk. */
   chunk: SEBIChunk;
   document: SEBIDocument;
+  /** The larger span the chunk was cut from, when stored with parent chunks. */
+  parent?: SEBIChunk;
+  /**
+   * Every matching chunk of the same parent, best first, when results are grouped by
+   * parent ({@link QdrantManager.groupByParent}).
+   */
+  children?: Array<{ score: number; chunk: SEBIChunk }>;
+  /** Scores before and after reranking, when a reranker reordered the results. */
+  rerank?: RerankScores;
+  /** Each leg's rank, score and contribution, when a hybrid search was explained. */
+  explanation?: FusionExplanation;
+}
+
+export interface RerankScores {
+  /** Name of the reranker. */
+  reranker: string;
+  /** Score from retrieval (the fused score for hybrid search). */
+  preScore: number;
+  /** 1-based position in the retrieval order. */
+  preRank: number;
+  /** Score assigned by the reranker, scaled down like `score` when boilerplate is demoted. */
+  postScore: number;
+}
+
+export interface HybridSearchOptions {
+  /** How the semantic and keyword legs are combined (default: the configured fusion). */
+  fusion?: FusionOptions;
+  /** Include each leg's rank, raw score and fused contribution in `explanation`. */
+  explain?: boolean;
+  /**
+   * Reranker for the fused candidates (default: the configured reranker, if any);
+   * null disables reranking.
+   */
+  reranker?: Reranker | null;
+  /** Fused candidates handed to the reranker (default: 4 × limit). */
+  rerankCandidates?: number;
 }
 
 interface ChunkMetadata {
@@ -46,49 +118,98 @@ interface PayloadDocumentShape {
   title?: string;
   date?: string;
   category?: SEBICategory;
+  categories?: SEBICategory[];
   chapter?: string;
   section?: string;
   content?: string;
   url?: string;
+  language?: DocumentLanguage;
   metadata?: Record<string, unknown>;
 }
 
 interface PayloadShape {
   chunk?: SEBIChunk;
+  parent?: SEBIChunk;
+  parent_id?: string;
   document?: PayloadDocumentShape;
   circular_id?: string;
+  department?: string;
   category?: SEBICategory;
+  categories?: SEBICategory[];
   date?: string;
   chapter?: string;
+  section?: string;
+  section_paths?: string[];
+  page_start?: number;
+  page_end?: number;
   url?: string;
   title?: string;
+  language?: DocumentLanguage;
   metadata?: Record<string, unknown>;
+  document_type?: SEBIDocumentType;
+  rescinded_circulars?: string[];
+  referenced_circulars?: string[];
+  reference_keys?: string[];
+  effective_date?: string;
+  deadline_dates?: string[];
+  superseded_by?: string;
+  superseded_on?: string;
+  chunking_strategy?: string;
+  is_boilerplate?: boolean;
   [key: string]: unknown;
 }
 
-interface QdrantFilter {
-  must?: Array<
-    | {
-        key: string;
-        match: { value: string };
-      }
-    | {
-        key: string;
-        range: { gte?: number; lte?: number };
-      }
-  >;
-}
-
 interface QdrantPoint {
   id: string | number;
-  vector: number[];
+  vector: number[] | Record<string, number[] | SparseVector>;
   payload?: PayloadShape;
 }
 
+/**
+ * How the collection stores vectors: a single unnamed dense vector (collections created
+ * before keyword vectors were added), or named dense and sparse keyword vectors.
+ */
+interface VectorLayout {
+  named: boolean;
+  sparse: boolean;
+}
+
 const DEFAULT_COLLECTION = 'sebi_regulations';
-const VECTOR_SIZE = 3072;
+const DEFAULT_VECTOR_SIZE = 3072;
+/** Name of the embedding vector in collections with named vectors. */
+const DENSE_VECTOR = 'dense';
+/** Name of the sparse BM25 keyword vector. */
+const SPARSE_VECTOR = 'keywords';
 const DEFAULT_BATCH_SIZE = 100;
-const RRF_K = 60;
+/** Fused candidates per requested result when reranking. */
+const RERANK_CANDIDATES_PER_RESULT = 4;
+/** Child hits fetched per requested parent, since several children often share one. */
+const CHILDREN_PER_PARENT = 4;
+/** Score multiplier for boilerplate chunks when they are demoted. */
+const BOILERPLATE_WEIGHT = 0.5;
+
+/** Payload fields indexed for filtering, with the type of each index. */
+const PAYLOAD_INDEXES: Record<string, 'keyword' | 'datetime' | 'bool'> = {
+  circular_id: 'keyword',
+  department: 'keyword',
+  category: 'keyword',
+  categories: 'keyword',
+  chapter: 'keyword',
+  section_paths: 'keyword',
+  parent_id: 'keyword',
+  document_type: 'keyword',
+  language: 'keyword',
+  chunking_strategy: 'keyword',
+  rescinded_circulars: 'keyword',
+  referenced_circulars: 'keyword',
+  reference_keys: 'keyword',
+  superseded_by: 'keyword',
+  date: 'datetime',
+  superseded_on: 'datetime',
+  effective_date: 'datetime',
+  deadline_dates: 'datetime',
+  is_boilerplate: 'bool',
+};
 
 /**
  * Manages Qdrant vector database interactions for SEBI content.
@@ -96,7 +217,12 @@ const RRF_K = 60;
 export class QdrantManager {
   private readonly client: QdrantClient;
   private readonly collectionName: string;
+  private readonly vectorSize: number;
+  private readonly chunkSchema: ReturnType<typeof createSEBIChunkSchema>;
   private readonly logger: Pick<typeof console, 'info' | 'warn' | 'error'>;
+  private layout: VectorLayout | null = null;
+  private vocabulary: Promise<KeywordVocabulary> | null = null;
+  private warnedKeywordScan = false;
 
   constructor(private readonly config: QdrantConfig, client?: QdrantClient) {
     if (!config.url) {
@@ -104,24 +230,50 @@ export class QdrantManager {
     }
 
     this.collectionName = config.collectionName ?? DEFAULT_COLLECTION;
+    this.vectorSize = config.vectorSize ?? DEFAULT_VECTOR_SIZE;
+    this.chunkSchema = createSEBIChunkSchema(this.vectorSize);
     this.logger = config.logger ?? console;
     this.client = client ?? new QdrantClient({ url: config.url, apiKey: config.apiKey });
   }
 
   /**
-   * Initialize the Qdrant collection if it does not already exist.
+   * Initialize the Qdrant collection if it does not already exist. An existing
+   * collection gets any payload indexes it is missing; chunks stored before a field
+   * existed have no value for it until re-ingested.
+   *
+   * @param vectorSize - Vector size of the embedding provider; defaults to the configured size.
+   * @throws If the collection exists with vectors of a different size.
    */
-  async initializeCollection(): Promise<void> {
-    const exists = await this.collectionExists();
-    if (exists) {
+  async initializeCollection(vectorSize = this.vectorSize): Promise<void> {
+    const existing = await this.describeCollection();
+    if (existing !== null) {
+      if (existing.size !== undefined && existing.size !== vectorSize) {
+        throw new Error(
+          `Collection ${this.collectionName} stores ${existing.size}-dimensional vectors, ` +
+            `but the embedding provider produces ${vectorSize}`,
+        );
+      }
+
+      // Collections created by earlier versions lack the indexes of fields added since
+      const created = await this.createPayloadIndexes(existing.indexedFields);
+      if (created.length > 0) {
+        this.logger.info(`Indexed ${created.join(', ')} in existing collection ${this.collectionName}`);
+      }
       return;
     }
 
     await this.client.createCollection(this.collectionName, {
       vectors: {
-        size: VECTOR_SIZE,
-        distance: 'Cosine',
-        on_disk: true,
+        [DENSE_VECTOR]: {
+          size: vectorSize,
+          distance: 'Cosine',
+          on_disk: true,
+        },
+      },
+      sparse_vectors: {
+        [SPARSE_VECTOR]: {
+          index: { on_disk: true },
+        },
       },
       hnsw_config: {
         m: 16,
@@ -136,48 +288,78 @@ export class QdrantManager {
       },
     });
 
-    await Promise.all([
-      this.createKeywordIndex('circular_id'),
-      this.createKeywordIndex('category'),
-      this.createKeywordIndex('chapter'),
-      this.createDatetimeIndex('date'),
-    ]);
+    await this.createPayloadIndexes();
+    this.layout = { named: true, sparse: true };
   }
 
   /**
    * Upsert document chunks and embeddings into Qdrant in batches.
+   *
+   * Payload fields are read from an optional `metadata` property on each chunk.
+   * Prefer {@link QdrantManager.upsertDocumentChunks} when the parent document is available.
    */
   async upsertChunks(chunks: SEBIChunk[], embeddings: number[][]): Promise<number> {
+    return this.upsertPoints(chunks, embeddings, (chunk) => this.buildPayload(chunk));
+  }
+
+  /**
+   * Upsert chunks together with their parent document so every point carries the
+   * document's circular id, category, date, title, URL and section information.
+   *
+   * Parent chunks are not stored as points of their own: each child point carries its
+   * parent's text, so a search returns the context without a second lookup.
+   *
+   * @param parentChunks - Parent chunks referenced by the children's `parent_id`.
+   */
+  async upsertDocumentChunks(
+    document: SEBIDocument,
+    chunks: SEBIChunk[],
+    embeddings: number[][],
+    parentChunks: SEBIChunk[] = [],
+  ): Promise<number> {
+    const parent = SEBIDocumentSchema.parse(document);
+    const foreign = chunks.find((chunk) => chunk.document_id !== parent.id);
+    if (foreign) {
+      throw new Error(`Chunk ${foreign.chunk_id} does not belong to document ${parent.id}`);
+    }
+
+    const parentsById = new Map(parentChunks.map((chunk) => [chunk.chunk_id, chunk]));
+    const orphan = chunks.find((chunk) => chunk.parent_id && !parentsById.has(chunk.parent_id));
+    if (orphan) {
+      throw new Error(`Parent chunk ${orphan.parent_id} of chunk ${orphan.chunk_id} was not provided`);
+    }
+
+    return this.upsertPoints(chunks, embeddings, (chunk) => ({
+      ...this.buildDocumentPayload(parent, chunk),
+      ...(chunk.parent_id ? { parent: parentsById.get(chunk.parent_id), parent_id: chunk.parent_id } : {}),
+    }));
+  }
+
+  /**
+   * Replace the vectors of stored chunks, keeping their payloads (e.g. after the
+   * embedding text template changed).
+   *
+   * @returns Number of chunks updated.
+   */
+  async updateVectors(chunks: SEBIChunk[], embeddings: number[][]): Promise<number> {
     if (chunks.length !== embeddings.length) {
       throw new Error('Chunks and embeddings length mismatch');
     }
 
-    let success = 0;
-
+    // Keyword vectors depend only on chunk content, so they stay as stored
+    const { named } = await this.vectorLayout();
     for (let i = 0; i < chunks.length; i += DEFAULT_BATCH_SIZE) {
-      const chunkBatch = chunks.slice(i, i + DEFAULT_BATCH_SIZE);
-      const embeddingBatch = embeddings.slice(i, i + DEFAULT_BATCH_SIZE);
+      const points = chunks.slice(i, i + DEFAULT_BATCH_SIZE).map((chunk, index) => ({
+        id: chunk.chunk_id,
+        vector: named ? { [DENSE_VECTOR]: embeddings[i + index] } : embeddings[i + index],
+      }));
 
       await this.retry(async () => {
-        await this.client.upsert(this.collectionName, {
-          wait: true,
-          points: chunkBatch.map((chunk, index) => {
-            const embedding = embeddingBatch[index];
-            const payload = this.buildPayload(chunk);
-
-            return {
-              id: chunk.chunk_id,
-              vector: embedding,
-              payload,
-            } satisfies QdrantPoint;
-          }),
-        });
+        await this.client.updateVectors(this.collectionName, { wait: true, points });
       });
-
-      success += chunkBatch.length;
     }
 
-    return success;
+    return chunks.length;
   }
 
   /**
@@ -188,34 +370,118 @@ export class QdrantManager {
     filters?: SearchFilters,
     limit = 5,
   ): Promise<SearchResult[]> {
-    const filter = this.buildFilter(filters);
+    const filter = buildQdrantFilter(filters);
+    const demote = (filters?.boilerplate ?? 'demote') === 'demote';
+    const { named } = await this.vectorLayout();
 
     const hits = await this.client.search(this.collectionName, {
-      vector: embedding,
-      limit,
+      vector: named ? { name: DENSE_VECTOR, vector: embedding } : embedding,
+      // Demoted boilerplate can fall out of the top results, so fetch extra candidates
+      limit: demote ? limit * 2 : limit,
       with_payload: true,
       filter,
     });
 
-    return hits
+    const results = hits
       .map((hit) => this.mapHitToResult(hit))
       .filter((result): result is SearchResult => Boolean(result));
+    return demote ? this.demoteBoilerplate(results).slice(0, limit) : results;
   }
 
   /**
-   * Execute hybrid search by fusing semantic and keyword scores via RRF.
+   * Semantic search over child chunks, returning each matching parent span once.
+   *
+   * @returns Results grouped by parent, with the parent in `parent` and the matching
+   * children in `children`.
+   */
+  async searchParents(
+    embedding: number[],
+    filters?: SearchFilters,
+    limit = 5,
+  ): Promise<SearchResult[]> {
+    const hits = await this.semanticSearch(embedding, filters, limit * CHILDREN_PER_PARENT);
+    return this.groupByParent(hits, limit);
+  }
+
+  /**
+   * Deduplicate results that share a parent chunk.
+   *
+   * Each group keeps its best-scoring child as `chunk` and that child's score; results
+   * without a parent form groups of their own.
+   *
+   * @param results - Search results, best first.
+   * @param limit - Maximum number of groups to return.
+   */
+  groupByParent(results: SearchResult[], limit = results.length): SearchResult[] {
+    const groups = new Map<string, SearchResult>();
+
+    for (const result of results) {
+      const key = result.parent?.chunk_id ?? result.chunk.chunk_id;
+      const group = groups.get(key);
+      const child = { score: result.score, chunk: result.chunk };
+
+      if (group) {
+        group.children?.push(child);
+      } else {
+        groups.set(key, { ...result, children: [child] });
+      }
+    }
+
+    return [...groups.values()].slice(0, limit);
+  }
+
+  /**
+   * Execute hybrid search by fusing semantic and keyword results (RRF by default; see
+   * {@link fuseResults} for the other methods and leg weights).
+   *
+   * Both searches run in Qdrant, the keyword leg against the sparse BM25 vectors.
+   * Collections created without keyword vectors fall back to scoring every matching
+   * chunk in process.
+   *
+   * With a reranker, more candidates are fused and the reranker picks the best `limit`
+   * of them. If reranking fails, the fused order is returned.
    */
   async hybridSearch(
     query: string,
     semanticEmbedding: number[],
     limit = 5,
     filters?: SearchFilters,
+    options: HybridSearchOptions = {},
   ): Promise<SearchResult[]> {
-    const semanticHits = await this.semanticSearch(semanticEmbedding, filters, Math.max(limit * 2, 10));
-    const keywordHits = await this.keywordSearch(query, Math.max(limit * 2, 10), filters);
+    const reranker = options.reranker === undefined ? this.config.reranker : options.reranker;
+    const candidates = reranker
+      ? Math.max(options.rerankCandidates ?? limit * RERANK_CANDIDATES_PER_RESULT, limit)
+      : limit;
+
+    // Legs keep Qdrant's scores for fusion and explanations; boilerplate is demoted once, after fusion
+    const demote = (filters?.boilerplate ?? 'demote') === 'demote';
+    const legFilters: SearchFilters = demote ? { ...filters, boilerplate: 'include' } : { ...filters };
+    const demoted = (results: SearchResult[]) => (demote ? this.demoteBoilerplate(results) : results);
+
+    const [semanticHits, keywordHits] = await Promise.all([
+      this.semanticSearch(semanticEmbedding, legFilters, Math.max(candidates * 2, 10)),
+      this.keywordSearch(query, Math.max(candidates * 2, 10), legFilters),
+    ]);
 
-    const fused = this.reciprocalRankFusion([semanticHits, keywordHits], limit);
-    return fused;
+    const fused = fuseResults(
+      { semantic: semanticHits, keyword: keywordHits },
+      // Demoted boilerplate can fall out of the top results, so fuse extra candidates
+      demote ? candidates * 2 : candidates,
+      options.fusion ?? this.config.fusion,
+      options.explain,
+    );
+    if (!reranker) {
+      return demoted(fused).slice(0, limit);
+    }
+
+    try {
+      // Reranker scores replace the fused ones, so boilerplate is demoted again afterwards
+      const reranked = await rerankResults(reranker, query, demoted(fused).slice(0, candidates));
+      return demoted(reranked).slice(0, limit);
+    } catch (error) {
+      this.logger.warn(`Reranking with ${reranker.name} failed: ${this.stringifyError(error)}`);
+      return demoted(fused).slice(0, limit);
+    }
   }
 
   /**
@@ -239,6 +505,14 @@ export class QdrantManager {
     return this.fetchAllPoints(filters);
   }
 
+  /**
+   * Number of chunks stored in the collection.
+   */
+  async countChunks(): Promise<number> {
+    const { count } = await this.client.count(this.collectionName, { exact: true });
+    return count;
+  }
+
   /**
    * Remove all chunks associated with a SEBI circular identifier.
    */
@@ -251,7 +525,7 @@ export class QdrantManager {
       must: [
         {
           key: 'circular_id',
-          match: { value: circularId },
+          match: { value: CircularId.normalize(circularId) },
         },
       ],
     };
@@ -261,40 +535,335 @@ export class QdrantManager {
       exact: true,
     });
 
+    const { sparse } = await this.vectorLayout();
+    const removed = sparse ? await this.scrollPoints(filter) : [];
+
     await this.client.delete(this.collectionName, {
       wait: true,
       filter,
     });
 
+    if (removed.length > 0) {
+      const vocabulary = await this.keywordVocabulary();
+      removed.forEach((result) => vocabulary.remove(result.chunk.content));
+      await this.saveVocabulary(vocabulary);
+    }
+
     return Number(countResult.count ?? 0);
   }
 
+  /**
+   * Mark every chunk of the given circulars as superseded by another circular.
+   *
+   * @returns Number of chunks updated.
+   */
+  async markSuperseded(circularIds: string[], supersededBy: string, supersededOn: Date): Promise<number> {
+    const superseding = CircularId.normalize(supersededBy);
+    const targets = circularIds
+      .filter((id) => id.trim())
+      .map((id) => CircularId.normalize(id))
+      .filter((id) => id !== superseding);
+    if (targets.length === 0) {
+      return 0;
+    }
+
+    const filter: QdrantFilter = {
+      must: [
+        {
+          key: 'circular_id',
+          match: { any: targets },
+        },
+      ],
+    };
+
+    const countResult = await this.client.count(this.collectionName, {
+      filter,
+      exact: true,
+    });
+
+    await this.retry(async () => {
+      await this.client.setPayload(this.collectionName, {
+        wait: true,
+        filter,
+        payload: {
+          superseded_by: superseding,
+          superseded_on: supersededOn.toISOString(),
+        },
+      });
+    });
+
+    return Number(countResult.count ?? 0);
+  }
+
+  /**
+   * Mark chunks as boilerplate, so searches can demote or exclude them.
+   *
+   * @returns Number of chunk IDs marked.
+   */
+  async markBoilerplate(chunkIds: string[]): Promise<number> {
+    if (chunkIds.length === 0) {
+      return 0;
+    }
+
+    for (let i = 0; i < chunkIds.length; i += DEFAULT_BATCH_SIZE) {
+      const filter: QdrantFilter = { must: [{ has_id: chunkIds.slice(i, i + DEFAULT_BATCH_SIZE) }] };
+      await this.retry(async () => {
+        await this.client.setPayload(this.collectionName, {
+          wait: true,
+          filter,
+          payload: { is_boilerplate: true },
+        });
+      });
+    }
+
+    return chunkIds.length;
+  }
+
+  /**
+   * Find a stored circular that rescinds or supersedes the given circular: a master
+   * circular listing it as rescinded, or any circular citing it with a "rescinds" or
+   * "supersedes" reference.
+   */
+  async findRescindingCircular(circularId: string): Promise<SupersedingCircular | null> {
+    const id = CircularId.normalize(circularId);
+    const response = await this.client.scroll(this.collectionName, {
+      with_payload: true,
+      limit: 1,
+      filter: {
+        should: [
+          { key: 'rescinded_circulars', match: { value: id } },
+          {
+            key: 'reference_keys',
+            match: { any: [this.referenceKey('rescinds', id), this.referenceKey('supersedes', id)] },
+          },
+        ],
+      } satisfies QdrantFilter,
+    });
+
+    const payload = (response.points as QdrantPoint[])[0]?.payload;
+    if (!payload?.circular_id || !payload.date) {
+      return null;
+    }
+
+    return { circularId: payload.circular_id, date: new Date(payload.date) };
+  }
+
+  /**
+   * Find circulars that reference the given circular ("which circulars amend X").
+   *
+   * @param circularId - Referenced circular identifier.
+   * @param relations - Only return references with these relationships.
+   */
+  async findReferencingCirculars(
+    circularId: string,
+    relations?: CircularRelation[],
+  ): Promise<CitationEdge[]> {
+    const referencedId = CircularId.normalize(circularId);
+    const filter: QdrantFilter = relations
+      ? {
+          must: [
+            {
+              key: 'reference_keys',
+              match: { any: relations.map((relation) => this.referenceKey(relation, referencedId)) },
+            },
+          ],
+        }
+      : { must: [{ key: 'referenced_circulars', match: { value: referencedId } }] };
+
+    const results = await this.scrollPoints(filter);
+    const edges = new Map<string, CitationEdge>();
+
+    for (const result of results) {
+      for (const edge of this.readCitationEdges(result.document)) {
+        if (edge.to === referencedId && (!relations || relations.includes(edge.relation))) {
+          edges.set(`${edge.from}|${edge.relation}`, edge);
+        }
+      }
+    }
+
+    return [...edges.values()];
+  }
+
+  /**
+   * List the circulars referenced by the given circular ("what does X depend on").
+   */
+  async getCircularReferences(circularId: string): Promise<CitationEdge[]> {
+    const response = await this.client.scroll(this.collectionName, {
+      with_payload: true,
+      limit: 1,
+      filter: {
+        must: [{ key: 'circular_id', match: { value: CircularId.normalize(circularId) } }],
+      } satisfies QdrantFilter,
+    });
+
+    const point = (response.points as QdrantPoint[])[0];
+    const result = point ? this.mapHitToResult(point) : null;
+    return result ? this.readCitationEdges(result.document) : [];
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Internal helpers
   // ───────────────────────────────────────────────────────────────────────────
 
-  private async collectionExists(): Promise<boolean> {
+  /**
+   * Dense vector size and layout of the existing collection, or null if it does not
+   * exist. The size is undefined for vector configurations this client did not create.
+   */
+  private async describeCollection(): Promise<
+    (VectorLayout & { size?: number; indexedFields: Set<string> }) | null
+  > {
+    let info;
     try {
-      await this.client.getCollection(this.collectionName);
-      return true;
+      info = await this.client.getCollection(this.collectionName);
     } catch (error) {
       this.logger.warn(`Collection ${this.collectionName} not found: ${this.stringifyError(error)}`);
-      return false;
+      return null;
     }
+
+    const params = info.config?.params;
+    const vectors = params?.vectors as Record<string, unknown> | undefined;
+    const named = vectors?.[DENSE_VECTOR] as { size?: unknown } | undefined;
+    const size = named ? named.size : vectors?.size;
+    this.layout = { named: Boolean(named), sparse: Boolean(params?.sparse_vectors?.[SPARSE_VECTOR]) };
+    return {
+      ...this.layout,
+      size: typeof size === 'number' ? size : undefined,
+      indexedFields: new Set(Object.keys(info.payload_schema ?? {})),
+    };
   }
 
-  private async createKeywordIndex(field: string): Promise<void> {
-    await this.client.createPayloadIndex(this.collectionName, {
-      field_name: field,
-      field_schema: 'keyword',
-    });
+  /**
+   * Vector layout of the collection, read once. A collection that does not exist yet
+   * will be created with named vectors.
+   */
+  private async vectorLayout(): Promise<VectorLayout> {
+    if (!this.layout) {
+      const described = await this.describeCollection();
+      return described ?? { named: true, sparse: true };
+    }
+    return this.layout;
   }
 
-  private async createDatetimeIndex(field: string): Promise<void> {
-    await this.client.createPayloadIndex(this.collectionName, {
-      field_name: field,
-      field_schema: 'datetime',
-    });
+  /**
+   * Keyword statistics of the collection: the saved vocabulary when it matches the
+   * number of stored chunks, otherwise rebuilt by reading every chunk once.
+   */
+  private keywordVocabulary(): Promise<KeywordVocabulary> {
+    if (!this.vocabulary) {
+      this.vocabulary = this.loadVocabulary().catch((error: unknown) => {
+        this.vocabulary = null;
+        throw error;
+      });
+    }
+    return this.vocabulary;
+  }
+
+  private async loadVocabulary(): Promise<KeywordVocabulary> {
+    const file = this.config.vocabularyPath;
+    const saved = file ? await KeywordVocabulary.load(file, this.collectionName) : null;
+    const count = await this.countChunks();
+    if (saved && saved.documentCount === count) {
+      return saved;
+    }
+
+    const vocabulary = new KeywordVocabulary(this.collectionName);
+    if (count > 0) {
+      this.logger.info(`Rebuilding keyword vocabulary of ${this.collectionName} from ${count} chunks`);
+      for (const result of await this.scrollPoints()) {
+        vocabulary.add(result.chunk.content);
+      }
+    }
+    await this.saveVocabulary(vocabulary);
+    return vocabulary;
+  }
+
+  private async saveVocabulary(vocabulary: KeywordVocabulary): Promise<void> {
+    if (this.config.vocabularyPath) {
+      await vocabulary.save(this.config.vocabularyPath);
+    }
+  }
+
+  /**
+   * Create the payload indexes of {@link PAYLOAD_INDEXES} and the configured metadata
+   * keys that the collection does not have yet.
+   *
+   * @returns The fields indexed.
+   */
+  private async createPayloadIndexes(indexed: ReadonlySet<string> = new Set()): Promise<string[]> {
+    const indexes: typeof PAYLOAD_INDEXES = { ...PAYLOAD_INDEXES };
+    for (const key of this.config.metadataIndexes ?? []) {
+      indexes[`metadata.${key}`] = 'keyword';
+    }
+    const missing = Object.entries(indexes).filter(([field]) => !indexed.has(field));
+
+    await Promise.all(
+      missing.map(([field, schema]) =>
+        this.client.createPayloadIndex(this.collectionName, { field_name: field, field_schema: schema }),
+      ),
+    );
+    return missing.map(([field]) => field);
+  }
+
+  private async upsertPoints(
+    chunks: SEBIChunk[],
+    embeddings: number[][],
+    payloadFor: (chunk: SEBIChunk) => PayloadShape,
+  ): Promise<number> {
+    if (chunks.length !== embeddings.length) {
+      throw new Error('Chunks and embeddings length mismatch');
+    }
+
+    let success = 0;
+    const layout = await this.vectorLayout();
+    const vocabulary = layout.sparse ? await this.keywordVocabulary() : null;
+
+    for (let i = 0; i < chunks.length; i += DEFAULT_BATCH_SIZE) {
+      const chunkBatch = chunks.slice(i, i + DEFAULT_BATCH_SIZE);
+      const embeddingBatch = embeddings.slice(i, i + DEFAULT_BATCH_SIZE);
+
+      if (vocabulary) {
+        // Replaced chunks no longer count towards the keyword statistics
+        const existing = await this.client.retrieve(this.collectionName, {
+          ids: chunkBatch.map((chunk) => chunk.chunk_id),
+          with_payload: true,
+        });
+        for (const point of existing as QdrantPoint[]) {
+          const content = point.payload?.chunk?.content;
+          if (content !== undefined) {
+            vocabulary.remove(content);
+          }
+        }
+        chunkBatch.forEach((chunk) => vocabulary.add(chunk.content));
+      }
+
+      const points = chunkBatch.map((chunk, index) => {
+        const embedding = embeddingBatch[index];
+        const vector = layout.named
+          ? {
+              [DENSE_VECTOR]: embedding,
+              ...(vocabulary ? { [SPARSE_VECTOR]: vocabulary.encodeDocument(chunk.content) } : {}),
+            }
+          : embedding;
+
+        return {
+          id: chunk.chunk_id,
+          vector,
+          payload: payloadFor(chunk),
+        } satisfies QdrantPoint;
+      });
+
+      await this.retry(async () => {
+        await this.client.upsert(this.collectionName, { wait: true, points });
+      });
+
+      success += chunkBatch.length;
+    }
+
+    if (vocabulary) {
+      await this.saveVocabulary(vocabulary);
+    }
+
+    return success;
   }
 
   private extractChunkMetadata(chunk: SEBIChunk): ChunkMetadata {
@@ -313,10 +882,12 @@ export class QdrantManager {
       title: document.title,
       date: document.date ? new Date(document.date).toISOString() : undefined,
       category: document.category,
+      categories: document.categories,
       chapter: document.chapter,
       section: document.section,
       content: document.content,
       url: document.url,
+      language: document.language,
       metadata: document.metadata,
     } satisfies PayloadDocumentShape;
   }
@@ -327,61 +898,103 @@ export class QdrantManager {
     const dateValue = meta.date ? new Date(meta.date).toISOString() : null;
 
     return {
-      chunk,
+      chunk: this.withoutEmbedding(chunk),
       document: this.normalizeDocumentPayload(meta.document),
-      circular_id: meta.circular_id ?? chunk.document_id,
+      circular_id: meta.circular_id ? CircularId.normalize(meta.circular_id) : chunk.document_id,
       category: meta.category ?? 'general',
       date: dateValue ?? undefined,
       chapter: chapter ?? undefined,
+      section_paths: sectionPathPrefixes(chunk.section_hierarchy),
       url: meta.url ?? undefined,
       title: meta.title ?? undefined,
       metadata: meta.metadata ?? {},
     } satisfies PayloadShape;
   }
 
-  private buildFilter(filters?: SearchFilters): QdrantFilter | undefined {
-    if (!filters) {
-      return undefined;
-    }
+  private buildDocumentPayload(document: SEBIDocument, chunk: SEBIChunk): PayloadShape {
+    const chapter = chunk.section_hierarchy[0] ?? document.chapter;
+    const section = chunk.section_hierarchy.at(-1) ?? document.section;
+    const references = this.readReferences(document.metadata);
+    const complianceDates = this.readComplianceDates(document.metadata);
+    const effectiveDate = complianceDates
+      .filter((entry) => entry.kind === 'effective')
+      .map((entry) => entry.date.toISOString())
+      .sort()[0];
 
-    const must: NonNullable<QdrantFilter['must']> = [];
+    return {
+      chunk: this.withoutEmbedding(chunk),
+      // The full document text is omitted: each point already carries its own chunk content.
+      document: this.normalizeDocumentPayload({ ...document, content: undefined, chapter, section }),
+      circular_id: CircularId.normalize(document.circular_id),
+      department: CircularId.parse(document.circular_id)?.department,
+      category: document.category,
+      categories: document.categories ?? [document.category],
+      date: document.date?.toISOString(),
+      chapter,
+      section,
+      section_paths: sectionPathPrefixes(chunk.section_hierarchy),
+      page_start: chunk.page_start,
+      page_end: chunk.page_end,
+      url: document.url,
+      title: document.title,
+      language: document.language,
+      metadata: document.metadata,
+      document_type: this.readDocumentType(document.metadata),
+      rescinded_circulars: this.readStringList(document.metadata.rescindedCirculars),
+      referenced_circulars: [...new Set(references.map((reference) => reference.circular_id))],
+      reference_keys: references.map((reference) =>
+        this.referenceKey(reference.relation, reference.circular_id),
+      ),
+      effective_date: effectiveDate,
+      deadline_dates: complianceDates
+        .filter((entry) => entry.kind === 'deadline')
+        .map((entry) => entry.date.toISOString()),
+      chunking_strategy: chunk.chunking_strategy,
+      is_boilerplate: chunk.is_boilerplate ?? false,
+    } satisfies PayloadShape;
+  }
 
-    if (filters.category) {
-      must.push({
-        key: 'category',
-        match: { value: filters.category },
-      });
-    }
+  /**
+   * The chunk without its embedding, which is stored as the point vector and would go
+   * stale in the payload when the chunk is re-embedded.
+   */
+  private withoutEmbedding(chunk: SEBIChunk): SEBIChunk {
+    const { embedding, ...rest } = chunk;
+    return embedding ? rest : chunk;
+  }
 
-    if (filters.chapter) {
-      must.push({
-        key: 'chapter',
-        match: { value: filters.chapter },
-      });
-    }
+  private readComplianceDates(metadata: Record<string, unknown>): ComplianceDate[] {
+    const parsed = ComplianceDateSchema.array().safeParse(metadata.complianceDates);
+    return parsed.success ? parsed.data : [];
+  }
 
-    if (filters.circularId) {
-      must.push({
-        key: 'circular_id',
-        match: { value: filters.circularId },
-      });
-    }
+  private readReferences(metadata: Record<string, unknown>): CircularReference[] {
+    const parsed = CircularReferenceSchema.array().safeParse(metadata.references);
+    return parsed.success ? parsed.data : [];
+  }
 
-    if (filters.dateFrom || filters.dateTo) {
-      must.push({
-        key: 'date',
-        range: {
-          gte: filters.dateFrom ? filters.dateFrom.getTime() : undefined,
-          lte: filters.dateTo ? filters.dateTo.getTime() : undefined,
-        },
-      });
-    }
+  private readCitationEdges(document: SEBIDocument): CitationEdge[] {
+    return this.readReferences(document.metadata).map((reference) => ({
+      from: document.circular_id,
+      to: reference.circular_id,
+      relation: reference.relation,
+    }));
+  }
 
-    if (must.length === 0) {
+  private referenceKey(relation: CircularRelation, circularId: string): string {
+    return `${relation}:${circularId}`;
+  }
+
+  private readDocumentType(metadata: Record<string, unknown>): SEBIDocumentType {
+    const parsed = SEBIDocumentTypeSchema.safeParse(metadata.documentType);
+    return parsed.success ? parsed.data : 'circular';
+  }
+
+  private readStringList(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) {
       return undefined;
     }
-
-    return { must } satisfies QdrantFilter;
+    return value.filter((item): item is string => typeof item === 'string');
   }
 
   private mapHitToResult(
@@ -392,56 +1005,105 @@ export class QdrantManager {
       return null;
     }
 
-    const chunk = SEBIChunkSchema.safeParse(payload.chunk);
+    const chunk = this.chunkSchema.safeParse(payload.chunk);
     if (!chunk.success) {
       this.logger.warn('Failed to parse chunk payload', chunk.error);
       return null;
     }
 
     const document = this.payloadToDocument(payload, chunk.data);
+    const parent = payload.parent ? this.chunkSchema.safeParse(payload.parent) : null;
     return {
       score: hit.score ?? 0,
-      chunk: chunk.data,
+      // Chunks found to be boilerplate after they were stored are only flagged at the top level
+      chunk: payload.is_boilerplate ? { ...chunk.data, is_boilerplate: true } : chunk.data,
       document,
+      ...(parent?.success ? { parent: parent.data } : {}),
     };
   }
 
   private payloadToDocument(payload: PayloadShape, chunk: SEBIChunk): SEBIDocument {
     const rawDocument = payload.document ?? {};
-    const dateSource = rawDocument.date ?? payload.date ?? new Date().toISOString();
-    const parsedDate = new Date(dateSource);
-    const safeDate = Number.isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
+    // Top-level payload fields win over the nested document: they are what filters match on.
+    const dateSource = payload.date ?? rawDocument.date;
+    const parsedDate = dateSource ? new Date(dateSource) : undefined;
+    const safeDate = parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate : undefined;
 
     const docCandidate = {
       id: rawDocument.id ?? chunk.document_id,
-      circular_id: rawDocument.circular_id ?? payload.circular_id ?? chunk.document_id,
-      title: rawDocument.title ?? payload.title ?? `SEBI Circular ${chunk.document_id}`,
+      circular_id: payload.circular_id ?? rawDocument.circular_id ?? chunk.document_id,
+      title: payload.title ?? rawDocument.title ?? `SEBI Circular ${chunk.document_id}`,
       date: safeDate,
-      category: rawDocument.category ?? payload.category ?? ('general' as SEBICategory),
-      chapter: rawDocument.chapter ?? payload.chapter ?? chunk.section_hierarchy[0],
-      section: rawDocument.section ?? chunk.section_hierarchy.at(-1),
+      category: payload.category ?? rawDocument.category ?? ('general' as SEBICategory),
+      categories: payload.categories ?? rawDocument.categories,
+      chapter: payload.chapter ?? rawDocument.chapter ?? chunk.section_hierarchy[0],
+      section: payload.section ?? rawDocument.section ?? chunk.section_hierarchy.at(-1),
       content: rawDocument.content ?? chunk.content,
-      url: rawDocument.url ?? payload.url ?? '',
+      url: payload.url ?? rawDocument.url ?? '',
+      language: payload.language ?? rawDocument.language,
       metadata: rawDocument.metadata ?? payload.metadata ?? {},
     } satisfies SEBIDocument;
 
     return SEBIDocumentSchema.parse(docCandidate);
   }
 
+  /**
+   * BM25 keyword search against the sparse keyword vectors. A query without any term
+   * found in the corpus matches nothing. Scores are not adjusted for boilerplate;
+   * {@link QdrantManager.hybridSearch} demotes it after fusion.
+   */
   private async keywordSearch(
     query: string,
     limit: number,
     filters?: SearchFilters,
   ): Promise<SearchResult[]> {
+    if (!(await this.vectorLayout()).sparse) {
+      return this.scanKeywordSearch(query, limit, filters);
+    }
+
+    const vector = (await this.keywordVocabulary()).encodeQuery(query);
+    if (vector.indices.length === 0) {
+      return [];
+    }
+
+    const hits = await this.client.search(this.collectionName, {
+      vector: { name: SPARSE_VECTOR, vector },
+      limit,
+      with_payload: true,
+      filter: buildQdrantFilter(filters),
+    });
+
+    return hits
+      .map((hit) => this.mapHitToResult(hit))
+      .filter((result): result is SearchResult => Boolean(result));
+  }
+
+  /**
+   * BM25 keyword search computed in process over every matching chunk, for
+   * collections without sparse keyword vectors.
+   */
+  private async scanKeywordSearch(
+    query: string,
+    limit: number,
+    filters?: SearchFilters,
+  ): Promise<SearchResult[]> {
+    if (!this.warnedKeywordScan) {
+      this.warnedKeywordScan = true;
+      this.logger.warn(
+        `Collection ${this.collectionName} has no sparse keyword vectors; keyword search scans every chunk. ` +
+          'Re-create the collection and re-ingest to search keywords in Qdrant.',
+      );
+    }
+
     const candidates = await this.fetchAllPoints(filters);
     if (!query.trim()) {
       return candidates.slice(0, limit);
     }
 
-    const queryTokens = this.tokenize(query);
+    const queryTokens = keywordTerms(query);
     const documents = candidates.map((candidate) => ({
       ...candidate,
-      tokens: this.tokenize(candidate.chunk.content),
+      tokens: keywordTerms(candidate.chunk.content),
     }));
 
     const avgDocLength =
@@ -453,17 +1115,19 @@ export class QdrantManager {
       ...doc,
       score: this.computeBm25Score(doc.tokens, queryTokens, docFrequencies, documents.length, avgDocLength),
     }));
-
     return scored
       .sort((a, b) => b.score - a.score)
       .slice(0, limit)
-      .map((doc) => ({ score: doc.score, chunk: doc.chunk, document: doc.document }));
+      .map((doc) => ({ score: doc.score, chunk: doc.chunk, document: doc.document, parent: doc.parent }));
   }
 
   private async fetchAllPoints(filters?: SearchFilters): Promise<SearchResult[]> {
+    return this.scrollPoints(buildQdrantFilter(filters));
+  }
+
+  private async scrollPoints(filter?: QdrantFilter): Promise<SearchResult[]> {
     const results: SearchResult[] = [];
     let offset: string | number | Record<string, unknown> | null | undefined = undefined;
-    const filter = this.buildFilter(filters);
 
     while (true) {
       const response = await this.client.scroll(this.collectionName, {
@@ -490,13 +1154,6 @@ export class QdrantManager {
     return results;
   }
 
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .split(/[^a-z0-9]+/g)
-      .filter((token) => token.length > 0);
-  }
-
   private computeDocumentFrequency(
     documents: Array<{ tokens: string[] }>,
     queryTokens: string[],
@@ -554,27 +1211,21 @@ export class QdrantManager {
     return score;
   }
 
-  private reciprocalRankFusion(resultSets: SearchResult[][], limit: number): SearchResult[] {
-    const scores = new Map<string, { result: SearchResult; score: number }>();
-
-    resultSets.forEach((results) => {
-      results.forEach((result, index) => {
-        const key = `${result.document.id}-${result.chunk.chunk_id}`;
-        const existing = scores.get(key);
-        const increment = 1 / (RRF_K + index + 1);
-
-        if (existing) {
-          existing.score += increment;
-        } else {
-          scores.set(key, { result, score: increment });
+  /**
+   * Scale down the scores of boilerplate results and re-sort them. A reranked result's
+   * post-rerank score is scaled with it, so the two stay equal.
+   */
+  private demoteBoilerplate<T extends SearchResult>(results: T[]): T[] {
+    return results
+      .map((result) => {
+        if (!result.chunk.is_boilerplate) {
+          return result;
         }
-      });
-    });
-
-    return Array.from(scores.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map((entry) => ({ ...entry.result, score: entry.score }));
+        // Dividing a negative similarity lowers it, as multiplying a positive one does
+        const score = result.score >= 0 ? result.score * BOILERPLATE_WEIGHT : result.score / BOILERPLATE_WEIGHT;
+        return { ...result, score, ...(result.rerank ? { rerank: { ...result.rerank, postScore: score } } : {}) };
+      })
+      .sort((a, b) => b.score - a.score);
   }
 
   private async retry<T>(operation: () => Promise<T>, attempts = 3): Promise<T> {
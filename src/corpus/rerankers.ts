@@ -0,0 +1,301 @@
+import { ChatOpenAI } from '@langchain/openai';
+
+import { formatSectionPath } from './pdf-parser.js';
+import { keywordTerms } from './sparse-vectors.js';
+import { truncateToTokens } from './tokens.js';
+
+import type { SearchResult } from './qdrant-client.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reranking
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rescores search candidates against the query, after retrieval has narrowed the
+ * collection down to a few dozen chunks.
+ */
+export interface Reranker {
+  /** Reranker name, recorded on reranked results. */
+  readonly name: string;
+  /**
+   * Relevance of each candidate to the query, higher is better.
+   *
+   * @returns One score per candidate, in candidate order.
+   */
+  score(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+/**
+ * Reorder results by reranker score, keeping the retrieval order among equal scores.
+ *
+ * Each result's `score` becomes the reranker score; the score and rank it had before
+ * are kept in `rerank`.
+ *
+ * @param reranker - Reranker to score the results with.
+ * @param query - The search query.
+ * @param results - Results in retrieval order, best first.
+ * @param limit - Maximum number of results to return.
+ * @throws If the reranker does not return one score per result.
+ *
+ * @example
+ * ```ts
+ * const candidates = await qdrant.semanticSearch(embedding, undefined, 20);
+ * const top = await rerankResults(new LexicalReranker(), query, candidates, 5);
+ * console.log(top[0].rerank); // { reranker: 'lexical', preScore: 0.81, preRank: 3, postScore: 0.92 }
+ * ```
+ */
+export async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  results: SearchResult[],
+  limit = results.length,
+): Promise<SearchResult[]> {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const scores = await reranker.score(query, results);
+  if (scores.length !== results.length) {
+    throw new Error(`Reranker ${reranker.name} returned ${scores.length} scores for ${results.length} results`);
+  }
+
+  return results
+    .map((result, index) => ({
+      ...result,
+      score: scores[index],
+      rerank: { reranker: reranker.name, preScore: result.score, preRank: index + 1, postScore: scores[index] },
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Text a reranker judges a candidate by: its section path and content.
+ */
+function candidateText(result: SearchResult): string {
+  const section = formatSectionPath(result.chunk.section_hierarchy);
+  return section ? `${section}\n${result.chunk.content}` : result.chunk.content;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lexical Reranker
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Words ignored when matching query terms, unless the query has nothing else. */
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'what',
+  'which',
+  'with',
+]);
+
+export interface LexicalRerankerOptions {
+  /** Weight of the share of query terms found in the chunk (default 0.5). */
+  coverageWeight?: number;
+  /** Weight of how close together the matched terms occur (default 0.3). */
+  proximityWeight?: number;
+  /** Weight of the share of query word pairs found as adjacent words (default 0.2). */
+  phraseWeight?: number;
+}
+
+/**
+ * Reranks locally by lexical overlap and phrase proximity: chunks containing more of
+ * the query terms, close together and in the query's word order, score higher. Scores
+ * range from 0 to 1.
+ *
+ * @example
+ * ```ts
+ * const results = await qdrant.hybridSearch(query, embedding, 5, undefined, {
+ *   reranker: new LexicalReranker(),
+ * });
+ * ```
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+  private readonly weights: Required<LexicalRerankerOptions>;
+
+  constructor(options: LexicalRerankerOptions = {}) {
+    this.weights = {
+      coverageWeight: options.coverageWeight ?? 0.5,
+      proximityWeight: options.proximityWeight ?? 0.3,
+      phraseWeight: options.phraseWeight ?? 0.2,
+    };
+  }
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const queryWords = keywordTerms(query);
+    const significant = [...new Set(queryWords.filter((word) => !STOPWORDS.has(word)))];
+    const terms = significant.length > 0 ? significant : [...new Set(queryWords)];
+    const pairs = queryWords.slice(1).map((word, index) => `${queryWords[index]} ${word}`);
+
+    return candidates.map((candidate) => this.scoreText(terms, pairs, keywordTerms(candidateText(candidate))));
+  }
+
+  private scoreText(terms: string[], pairs: string[], words: string[]): number {
+    if (terms.length === 0 || words.length === 0) {
+      return 0;
+    }
+
+    const positions = new Map<string, number[]>();
+    words.forEach((word, index) => {
+      if (terms.includes(word)) {
+        positions.set(word, [...(positions.get(word) ?? []), index]);
+      }
+    });
+
+    const coverage = positions.size / terms.length;
+    const proximity = positions.size > 1 ? positions.size / shortestWindow(positions) : 0;
+
+    const adjacent = new Set(words.slice(1).map((word, index) => `${words[index]} ${word}`));
+    const phrase = pairs.length > 0 ? pairs.filter((pair) => adjacent.has(pair)).length / pairs.length : 0;
+
+    const { coverageWeight, proximityWeight, phraseWeight } = this.weights;
+    const total = coverageWeight + proximityWeight + phraseWeight || 1;
+    return (coverageWeight * coverage + proximityWeight * proximity + phraseWeight * phrase) / total;
+  }
+}
+
+/**
+ * Length in words of the shortest span containing at least one position of every term.
+ */
+function shortestWindow(positions: Map<string, number[]>): number {
+  const occurrences = [...positions.entries()]
+    .flatMap(([term, indexes]) => indexes.map((index) => ({ term, index })))
+    .sort((a, b) => a.index - b.index);
+  const inWindow = new Map<string, number>();
+  let best = Number.POSITIVE_INFINITY;
+  let start = 0;
+
+  for (const occurrence of occurrences) {
+    inWindow.set(occurrence.term, (inWindow.get(occurrence.term) ?? 0) + 1);
+
+    while (inWindow.size === positions.size) {
+      const first = occurrences[start];
+      best = Math.min(best, occurrence.index - first.index + 1);
+      const remaining = (inWindow.get(first.term) ?? 0) - 1;
+      if (remaining === 0) {
+        inWindow.delete(first.term);
+      } else {
+        inWindow.set(first.term, remaining);
+      }
+      start += 1;
+    }
+  }
+
+  return best;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LLM Reranker
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_LLM_RERANK_MODEL = 'gpt-4o-mini';
+const DEFAULT_PASSAGE_TOKENS = 300;
+const DEFAULT_LLM_BATCH_SIZE = 20;
+/** Highest relevance grade the model is asked for. */
+const MAX_GRADE = 10;
+
+export interface LLMRerankerOptions {
+  /** Chat model (default gpt-4o-mini). */
+  model?: string;
+  /** Tokens of each passage shown to the model (default 300). */
+  maxPassageTokens?: number;
+  /** Passages graded per request (default 20). */
+  batchSize?: number;
+}
+
+/**
+ * Reranks by asking an OpenAI chat model to grade each passage's relevance to the
+ * query from 0 to 10, which reads the passages the way a cross-encoder does at the cost
+ * of one request per batch. Scores range from 0 to 1.
+ *
+ * @example
+ * ```ts
+ * const reranker = new LLMReranker(process.env.OPENAI_API_KEY ?? '');
+ * const results = await qdrant.hybridSearch(query, embedding, 5, undefined, { reranker });
+ * ```
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  readonly model: string;
+  private readonly maxPassageTokens: number;
+  private readonly batchSize: number;
+  private readonly chat: ChatOpenAI;
+
+  constructor(apiKey: string, options: LLMRerankerOptions = {}) {
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required for LLM reranking');
+    }
+
+    this.model = options.model ?? DEFAULT_LLM_RERANK_MODEL;
+    this.maxPassageTokens = options.maxPassageTokens ?? DEFAULT_PASSAGE_TOKENS;
+    this.batchSize = options.batchSize ?? DEFAULT_LLM_BATCH_SIZE;
+    this.chat = new ChatOpenAI({ openAIApiKey: apiKey, model: this.model, temperature: 0 });
+  }
+
+  async score(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const scores: number[] = [];
+    for (let i = 0; i < candidates.length; i += this.batchSize) {
+      scores.push(...(await this.grade(query, candidates.slice(i, i + this.batchSize))));
+    }
+    return scores;
+  }
+
+  private async grade(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const passages = candidates.map((candidate, index) => {
+      const source = `${candidate.document.circular_id}${candidate.document.title ? `, ${candidate.document.title}` : ''}`;
+      return `[${index + 1}] (${source})\n${truncateToTokens(candidateText(candidate), this.maxPassageTokens)}`;
+    });
+    const prompt = [
+      `Grade how well each passage from a SEBI regulatory document answers the query, from 0 (irrelevant) to ${MAX_GRADE} (answers it directly).`,
+      'Reply with only a JSON array of numbers, one per passage, in passage order.',
+      '',
+      `Query: ${query}`,
+      '',
+      ...passages,
+    ].join('\n');
+
+    const response = await this.chat.invoke(prompt);
+    const reply = typeof response.content === 'string' ? response.content : JSON.stringify(response.content);
+    const grades = parseGrades(reply);
+    if (grades?.length !== candidates.length) {
+      throw new Error(`Reranker ${this.name} could not read ${candidates.length} grades from: ${reply.slice(0, 200)}`);
+    }
+
+    return grades.map((grade) => Math.min(Math.max(grade, 0), MAX_GRADE) / MAX_GRADE);
+  }
+}
+
+/**
+ * The first JSON array of numbers in a model reply, or null.
+ */
+function parseGrades(reply: string): number[] | null {
+  const match = /\[[^\]]*\]/.exec(reply);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(match[0]);
+    return Array.isArray(parsed) && parsed.every((value) => typeof value === 'number') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
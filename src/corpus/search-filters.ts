@@ -0,0 +1,248 @@
+import { CircularId } from './circular-id.js';
+import { formatSectionPath } from './pdf-parser.js';
+import {
+  type DocumentLanguage,
+  type SEBICategory,
+  type SEBIDocumentType,
+} from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Search Filters
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One value, or a list of values of which any may match. */
+export type FilterValue<T> = T | T[];
+
+/** Value of a document metadata key to match. */
+export type MetadataFilterValue = string | number | boolean | string[] | number[];
+
+export type BoilerplateMode = 'include' | 'demote' | 'exclude';
+
+/**
+ * Conditions on a chunk's payload fields. Every condition given must hold; a list of
+ * values matches any of them.
+ */
+export interface FieldFilters {
+  /** Primary category. */
+  category?: FilterValue<SEBICategory>;
+  /** Documents labelled with any of these categories, primary or secondary. */
+  categories?: SEBICategory[];
+  chapter?: FilterValue<string>;
+  /** Circular identifier, in any form {@link CircularId.parse} accepts. */
+  circularId?: FilterValue<string>;
+  /** Issuing department, as it appears in circular numbers (e.g. "IMD", "MRD"). */
+  department?: FilterValue<string>;
+  /** Document type (e.g. "circular", "master_circular"). */
+  documentType?: FilterValue<SEBIDocumentType>;
+  /** Document language ("en" or "hi"). */
+  language?: FilterValue<DocumentLanguage>;
+  /** Only chunks produced by this chunking strategy (e.g. "clause"). */
+  chunkingStrategy?: FilterValue<string>;
+  /**
+   * Only chunks under this section path, e.g. `['Chapter 6']` for every section of
+   * Chapter 6 or `['Chapter 6', '6.2']` for one of its sub-sections.
+   */
+  sectionPrefix?: string[];
+  /**
+   * Values of document metadata keys, e.g. `{ documentType: 'master_circular' }`. Large
+   * collections should index the keys they filter on ({@link QdrantConfig.metadataIndexes}).
+   */
+  metadata?: Record<string, MetadataFilterValue>;
+}
+
+export interface SearchFilters extends FieldFilters {
+  /** Only circulars issued on or after this date. */
+  dateFrom?: Date;
+  /** Only circulars issued on or before this date. */
+  dateTo?: Date;
+  /**
+   * Point-in-time view: only circulars issued on or before this date that had not yet
+   * been superseded on it, as when answering what applied during an audit period.
+   */
+  asOf?: Date;
+  /** Only chunks of circulars with a compliance deadline on or after this date. */
+  deadlineFrom?: Date;
+  /** Only chunks of circulars with a compliance deadline on or before this date. */
+  deadlineTo?: Date;
+  /** Only chunks of circulars taking effect on or after this date. */
+  effectiveFrom?: Date;
+  /** Only chunks of circulars taking effect on or before this date. */
+  effectiveTo?: Date;
+  /**
+   * False keeps only circulars that have not been superseded, true only those that
+   * have; unset includes both.
+   */
+  superseded?: boolean;
+  /**
+   * Chunks to leave out: a chunk matching any one of these conditions is excluded, so
+   * `{ category: 'reits', department: 'MRD' }` drops REIT chunks and MRD chunks.
+   */
+  exclude?: FieldFilters;
+  /**
+   * Treatment of boilerplate chunks: "demote" (default) ranks them below similar
+   * content, "exclude" drops them and "include" scores them like any other chunk.
+   */
+  boilerplate?: BoilerplateMode;
+}
+
+export type QdrantCondition =
+  | {
+      key: string;
+      match: { value: string | number | boolean } | { any: string[] | number[] };
+    }
+  | {
+      key: string;
+      range: { gte?: number | string; lte?: number | string };
+    }
+  | { is_empty: { key: string } }
+  | { has_id: Array<string | number> };
+
+export interface QdrantFilter {
+  must?: QdrantCondition[];
+  /** Conditions of which at least one must hold. */
+  should?: QdrantCondition[];
+  must_not?: QdrantCondition[];
+}
+
+/**
+ * Every leading part of a section hierarchy as a formatted path, stored on each chunk
+ * as `section_paths` so a section prefix can be matched exactly.
+ *
+ * @example
+ * ```ts
+ * sectionPathPrefixes(['Chapter 6', '6.2', '(a)']);
+ * // ["Chapter 6", "Chapter 6 > 6.2", "Chapter 6 > 6.2 > (a)"]
+ * ```
+ */
+export function sectionPathPrefixes(hierarchy: string[]): string[] {
+  return hierarchy.map((_, index) => formatSectionPath(hierarchy.slice(0, index + 1)));
+}
+
+/**
+ * Condition matching a payload field against one value or any of a list.
+ */
+function matchCondition(key: string, value: MetadataFilterValue): QdrantCondition {
+  return { key, match: Array.isArray(value) ? { any: value } : { value } };
+}
+
+/**
+ * Conditions for the payload fields of a filter, in field order.
+ */
+function fieldConditions(filters: FieldFilters): QdrantCondition[] {
+  const conditions: QdrantCondition[] = [];
+  const add = (key: string, value: MetadataFilterValue | undefined): void => {
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      conditions.push(matchCondition(key, value));
+    }
+  };
+  const circularIds = filters.circularId === undefined ? undefined : [filters.circularId].flat();
+
+  add('category', filters.category);
+  add('categories', filters.categories);
+  add('chapter', filters.chapter);
+  add('circular_id', circularIds?.map((circularId) => CircularId.normalize(circularId)));
+  add('department', filters.department);
+  add('document_type', filters.documentType);
+  add('language', filters.language);
+  add('chunking_strategy', filters.chunkingStrategy);
+  if (filters.sectionPrefix?.length) {
+    add('section_paths', formatSectionPath(filters.sectionPrefix));
+  }
+  for (const [key, value] of Object.entries(filters.metadata ?? {})) {
+    add(`metadata.${key}`, value);
+  }
+
+  return conditions;
+}
+
+/**
+ * Translate search filters into a Qdrant payload filter.
+ *
+ * @param filters - Filters to apply.
+ * @returns The Qdrant filter, or undefined when nothing is filtered.
+ *
+ * @example
+ * ```ts
+ * buildQdrantFilter({
+ *   categories: ['mutual_funds', 'portfolio_managers'],
+ *   department: 'IMD',
+ *   sectionPrefix: ['Chapter 6'],
+ *   superseded: false,
+ * });
+ * ```
+ */
+export function buildQdrantFilter(filters?: SearchFilters): QdrantFilter | undefined {
+  if (!filters) {
+    return undefined;
+  }
+
+  const must = fieldConditions(filters);
+
+  // `date` has a datetime index, which only compares RFC 3339 strings
+  if (filters.dateFrom || filters.dateTo) {
+    must.push({
+      key: 'date',
+      range: {
+        gte: filters.dateFrom?.toISOString(),
+        lte: filters.dateTo?.toISOString(),
+      },
+    });
+  }
+
+  if (filters.asOf) {
+    must.push({
+      key: 'date',
+      range: { lte: filters.asOf.toISOString() },
+    });
+  }
+
+  if (filters.deadlineFrom || filters.deadlineTo) {
+    must.push({
+      key: 'deadline_dates',
+      range: {
+        gte: filters.deadlineFrom?.toISOString(),
+        lte: filters.deadlineTo?.toISOString(),
+      },
+    });
+  }
+
+  if (filters.effectiveFrom || filters.effectiveTo) {
+    must.push({
+      key: 'effective_date',
+      range: {
+        gte: filters.effectiveFrom?.toISOString(),
+        lte: filters.effectiveTo?.toISOString(),
+      },
+    });
+  }
+
+  const mustNot = filters.exclude ? fieldConditions(filters.exclude) : [];
+
+  if (filters.superseded !== undefined) {
+    (filters.superseded ? mustNot : must).push({ is_empty: { key: 'superseded_by' } });
+  }
+
+  // Circulars superseded after the as-of date were still in force on it
+  if (filters.asOf) {
+    mustNot.push({
+      key: 'superseded_on',
+      range: { lte: filters.asOf.toISOString() },
+    });
+  }
+
+  if (filters.boilerplate === 'exclude') {
+    mustNot.push({
+      key: 'is_boilerplate',
+      match: { value: true },
+    });
+  }
+
+  if (must.length === 0 && mustNot.length === 0) {
+    return undefined;
+  }
+
+  return {
+    ...(must.length > 0 ? { must } : {}),
+    ...(mustNot.length > 0 ? { must_not: mustNot } : {}),
+  } satisfies QdrantFilter;
+}
@@ -0,0 +1,235 @@
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { fnv1a } from './hashing.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Keyword Terms
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default directory for keyword vocabularies, one file per collection. */
+export const DEFAULT_VOCABULARY_DIR = path.join(os.homedir(), '.cache', 'sebi-corpus', 'vocabulary');
+
+/** BM25 term-frequency saturation. */
+const BM25_K1 = 1.5;
+/** BM25 document-length normalisation. */
+const BM25_B = 0.75;
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * A sparse vector in the form Qdrant stores: parallel arrays of dimension indices
+ * and their values.
+ */
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Lower-cased word terms of a text, in order, for keyword matching. Combining marks
+ * such as Devanagari vowel signs and viramas belong to the word they follow.
+ *
+ * @example
+ * ```ts
+ * keywordTerms('सेबी परिपत्र'); // ["सेबी", "परिपत्र"]
+ * ```
+ */
+export function keywordTerms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Sparse vector of summed weights per term index, sorted by index.
+ */
+function toSparseVector(weights: Map<string, number>): SparseVector {
+  const byIndex = new Map<number, number>();
+  for (const [term, weight] of weights) {
+    const index = fnv1a(term);
+    byIndex.set(index, (byIndex.get(index) ?? 0) + weight);
+  }
+
+  const indices = [...byIndex.keys()].sort((a, b) => a - b);
+  return { indices, values: indices.map((index) => byIndex.get(index) ?? 0) };
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vocabulary
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Serialised form of a {@link KeywordVocabulary}.
+ */
+export interface VocabularySnapshot {
+  version: number;
+  collection: string;
+  documentCount: number;
+  totalLength: number;
+  documentFrequency: Record<string, number>;
+}
+
+/**
+ * Corpus statistics for BM25 keyword search over Qdrant sparse vectors.
+ *
+ * Each chunk is stored with a sparse vector of BM25 term weights, indexed by a hash of
+ * the term so indices never change as the vocabulary grows. Inverse document
+ * frequencies go into the query vector instead, so the dot product Qdrant computes is
+ * the chunk's BM25 score and stored vectors stay valid as the corpus changes; only the
+ * average chunk length is fixed when a chunk is encoded.
+ *
+ * @example
+ * ```ts
+ * const vocabulary = new KeywordVocabulary('sebi_regulations');
+ * vocabulary.add(chunk.content);
+ * const stored = vocabulary.encodeDocument(chunk.content);
+ * const query = vocabulary.encodeQuery('total expense ratio');
+ * ```
+ */
+export class KeywordVocabulary {
+  private count = 0;
+  private totalLength = 0;
+  private readonly documentFrequency = new Map<string, number>();
+
+  /**
+   * @param collection - Collection the statistics describe; a saved vocabulary is
+   * ignored when loaded for another collection.
+   */
+  constructor(readonly collection: string) {}
+
+  /** Number of chunks counted. */
+  get documentCount(): number {
+    return this.count;
+  }
+
+  /** Number of distinct terms. */
+  get size(): number {
+    return this.documentFrequency.size;
+  }
+
+  /**
+   * Count a chunk's terms.
+   */
+  add(text: string): void {
+    this.update(text, 1);
+  }
+
+  /**
+   * Stop counting a chunk's terms, e.g. before it is deleted or replaced.
+   */
+  remove(text: string): void {
+    this.update(text, -1);
+  }
+
+  /**
+   * Inverse document frequency of a term (0 for unknown terms).
+   */
+  idf(term: string): number {
+    const frequency = this.documentFrequency.get(term) ?? 0;
+    if (frequency === 0) {
+      return 0;
+    }
+    return Math.log((this.count - frequency + 0.5) / (frequency + 0.5) + 1);
+  }
+
+  /**
+   * Sparse vector of BM25 term weights to store with a chunk.
+   */
+  encodeDocument(text: string): SparseVector {
+    const terms = keywordTerms(text);
+    const averageLength = this.count > 0 ? this.totalLength / this.count : terms.length;
+    const lengthNorm = 1 - BM25_B + (BM25_B * terms.length) / (averageLength || 1);
+    const weights = new Map<string, number>();
+
+    for (const [term, frequency] of countTerms(terms)) {
+      weights.set(term, (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+    }
+    return toSparseVector(weights);
+  }
+
+  /**
+   * Sparse vector of query term IDFs; terms absent from the corpus are left out.
+   */
+  encodeQuery(text: string): SparseVector {
+    const weights = new Map<string, number>();
+    for (const [term, frequency] of countTerms(keywordTerms(text))) {
+      const idf = this.idf(term);
+      if (idf > 0) {
+        weights.set(term, frequency * idf);
+      }
+    }
+    return toSparseVector(weights);
+  }
+
+  toSnapshot(): VocabularySnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      collection: this.collection,
+      documentCount: this.count,
+      totalLength: this.totalLength,
+      documentFrequency: Object.fromEntries(this.documentFrequency),
+    };
+  }
+
+  static fromSnapshot(snapshot: VocabularySnapshot): KeywordVocabulary {
+    const vocabulary = new KeywordVocabulary(snapshot.collection);
+    vocabulary.count = snapshot.documentCount;
+    vocabulary.totalLength = snapshot.totalLength;
+    for (const [term, frequency] of Object.entries(snapshot.documentFrequency)) {
+      vocabulary.documentFrequency.set(term, frequency);
+    }
+    return vocabulary;
+  }
+
+  /**
+   * Write the vocabulary to a JSON file, replacing it atomically.
+   */
+  async save(file: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(this.toSnapshot()));
+    await fs.rename(temporary, file);
+  }
+
+  /**
+   * Read a vocabulary saved by {@link KeywordVocabulary.save}.
+   *
+   * @returns The vocabulary, or null if the file is missing, unreadable, from another
+   * version or describes another collection.
+   */
+  static async load(file: string, collection: string): Promise<KeywordVocabulary | null> {
+    try {
+      const snapshot = JSON.parse(await fs.readFile(file, 'utf8')) as VocabularySnapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION || snapshot.collection !== collection) {
+        return null;
+      }
+      return KeywordVocabulary.fromSnapshot(snapshot);
+    } catch {
+      return null;
+    }
+  }
+
+  private update(text: string, sign: 1 | -1): void {
+    const terms = keywordTerms(text);
+    this.count = Math.max(this.count + sign, 0);
+    this.totalLength = Math.max(this.totalLength + sign * terms.length, 0);
+
+    for (const term of new Set(terms)) {
+      const frequency = (this.documentFrequency.get(term) ?? 0) + sign;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+  }
+}
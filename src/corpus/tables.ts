@@ -0,0 +1,147 @@
+import { PAGE_BREAK } from './pages.js';
+import { type DocumentTable } from '../types/sebi-document.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Table Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Minimum number of consecutive multi-column lines (header included) forming a table. */
+const MIN_TABLE_LINES = 2;
+
+/** Lines that introduce a table and are kept as its caption. */
+const CAPTION_PATTERN = /^(?:Table|Annexure|Format|Schedule)\b|:$/i;
+
+/** Matches the marker left in document text where a table was extracted. */
+export const TABLE_MARKER_PATTERN = /\[Table (T\d+)\]/g;
+
+/**
+ * Result of extracting tables from raw page text.
+ */
+export interface TableExtractionResult {
+  /** Text with each table region replaced by a "[Table <id>]" marker line. */
+  text: string;
+  /** Extracted tables in document order. */
+  tables: DocumentTable[];
+}
+
+/**
+ * Split a tab-delimited line into trimmed, non-empty cells.
+ */
+function splitCells(line: string): string[] {
+  return line
+    .split(/\t+/)
+    .map((cell) => cell.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Number of lines from `start` that only separate pages (blank lines and at least one
+ * {@link PAGE_BREAK}), or 0 if the lines there are not a page boundary.
+ */
+function pageBoundaryLength(lines: string[], start: number): number {
+  let end = start;
+  while (end < lines.length && lines[end].trim() === '') {
+    end++;
+  }
+  const gap = lines.slice(start, end);
+  return gap.some((line) => line.includes(PAGE_BREAK)) ? end - start : 0;
+}
+
+/**
+ * Pad a row with empty cells up to the given width.
+ */
+function padRow(row: string[], width: number): string[] {
+  return [...row, ...Array.from({ length: width - row.length }, () => '')];
+}
+
+/**
+ * Extract tables from raw PDF text in which column gaps are rendered as tabs.
+ *
+ * Runs of consecutive lines with two or more cells become a table whose first line
+ * is the header. The line directly before a table is used as its caption when it
+ * looks like one (e.g., "Table 1: TER slabs" or a line ending with a colon).
+ *
+ * A table continuing onto the next page stays one table, without the header row the
+ * next page repeats; the page breaks it spans follow its marker, so page numbers of
+ * later text are unchanged.
+ *
+ * @param rawText - Page text with tab-separated columns.
+ * @returns Text with table markers and the structured tables.
+ *
+ * @example
+ * ```ts
+ * const { tables } = extractTables('TER slabs:\nAUM\tTER\nFirst 500 crore\t2.25%');
+ * console.log(tables[0].rows); // [['First 500 crore', '2.25%']]
+ * ```
+ */
+export function extractTables(rawText: string): TableExtractionResult {
+  const lines = rawText.split('\n');
+  const output: string[] = [];
+  const tables: DocumentTable[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const rows: string[][] = [];
+    let pageBreaks = 0;
+    let end = index;
+    while (end < lines.length) {
+      const cells = splitCells(lines[end]);
+      if (cells.length >= 2) {
+        // Skip the header repeated at the top of a continuation page
+        const repeatedHeader = rows.length > 1 && lines[end - 1].trim() === '' && cells.join() === rows[0].join();
+        if (!repeatedHeader) {
+          rows.push(cells);
+        }
+        end++;
+        continue;
+      }
+
+      const boundary = rows.length >= MIN_TABLE_LINES ? pageBoundaryLength(lines, end) : 0;
+      if (boundary === 0 || splitCells(lines[end + boundary] ?? '').length < 2) {
+        break;
+      }
+      pageBreaks += lines.slice(end, end + boundary).filter((line) => line.includes(PAGE_BREAK)).length;
+      end += boundary;
+    }
+
+    if (rows.length < MIN_TABLE_LINES) {
+      output.push(lines[index]);
+      index++;
+      continue;
+    }
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const [header, ...body] = rows.map((row) => padRow(row, width));
+
+    const previousLine = output.at(-1)?.replace(/\s+/g, ' ').trim();
+    const caption = previousLine && CAPTION_PATTERN.test(previousLine) ? previousLine : undefined;
+
+    const table: DocumentTable = { id: `T${tables.length + 1}`, header, rows: body };
+    if (caption) {
+      table.caption = caption;
+    }
+    tables.push(table);
+    output.push(`[Table ${table.id}]`, ...Array.from({ length: pageBreaks }, () => PAGE_BREAK));
+    index = end;
+  }
+
+  return { text: output.join('\n'), tables };
+}
+
+/**
+ * Render a table as text, one "Header: value" line per row, so each row stays
+ * self-describing once embedded.
+ *
+ * @param table - Table to render.
+ * @returns Rendered table text.
+ */
+export function renderTable(table: DocumentTable): string {
+  const title = table.caption ?? `Table ${table.id}`;
+  const rows = table.rows.map((row) =>
+    row
+      .map((cell, column) => (table.header[column] ? `${table.header[column]}: ${cell}` : cell))
+      .join(' | '),
+  );
+
+  return [title, ...rows].join('\n');
+}
@@ -0,0 +1,85 @@
+import { get_encoding } from 'tiktoken';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Token Counting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Cached tiktoken encoder for cl100k_base. */
+let encoder: ReturnType<typeof get_encoding> | null = null;
+
+/**
+ * Get or initialize the tiktoken encoder.
+ */
+function getEncoder(): ReturnType<typeof get_encoding> {
+  if (!encoder) {
+    encoder = get_encoding('cl100k_base');
+  }
+  return encoder;
+}
+
+/**
+ * Decode a slice of tokens back to text.
+ */
+function decodeTokens(tokens: Uint32Array): string {
+  // A cut inside a multi-byte character decodes to a replacement character
+  return new TextDecoder().decode(getEncoder().decode(tokens)).replace(/^\uFFFD+|\uFFFD+$/g, '');
+}
+
+/**
+ * Count tokens in a string using tiktoken cl100k_base encoding.
+ *
+ * @param text - The text to count tokens for.
+ * @returns The number of tokens.
+ *
+ * @example
+ * ```ts
+ * const count = countTokens('Hello, world!');
+ * console.log(count); // e.g., 4
+ * ```
+ */
+export function countTokens(text: string): number {
+  const enc = getEncoder();
+  const tokens = enc.encode(text);
+  return tokens.length;
+}
+
+/**
+ * Truncate text to at most the given number of cl100k_base tokens.
+ *
+ * @param text - Text to truncate.
+ * @param maxTokens - Maximum number of tokens to keep.
+ * @returns The text unchanged if it fits, otherwise its leading tokens.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const enc = getEncoder();
+  const tokens = enc.encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  return decodeTokens(tokens.slice(0, maxTokens));
+}
+
+/**
+ * Cut text into consecutive windows of a fixed number of tokens, regardless of word
+ * or sentence boundaries.
+ *
+ * @param text - Text to cut.
+ * @param size - Tokens per window.
+ * @param overlap - Tokens repeated at the start of each window from the previous one.
+ * @returns Window texts, trimmed.
+ */
+export function tokenWindows(text: string, size: number, overlap = 0): string[] {
+  const tokens = getEncoder().encode(text);
+  const step = Math.max(size - overlap, 1);
+  const windows: string[] = [];
+
+  for (let start = 0; start < tokens.length; start += step) {
+    const window = decodeTokens(tokens.slice(start, start + size)).trim();
+    if (window) {
+      windows.push(window);
+    }
+    if (start + size >= tokens.length) break;
+  }
+
+  return windows;
+}
@@ -18,6 +18,22 @@ export const SEBICategorySchema = z.enum([
 /** Allowed SEBI document categories. */
 export type SEBICategory = z.infer<typeof SEBICategorySchema>;
 
+/**
+ * Type of SEBI regulatory document.
+ */
+export const SEBIDocumentTypeSchema = z.enum(['circular', 'master_circular']);
+
+/** Allowed SEBI document types. */
+export type SEBIDocumentType = z.infer<typeof SEBIDocumentTypeSchema>;
+
+/**
+ * Language of a SEBI document or chunk (English or Hindi).
+ */
+export const DocumentLanguageSchema = z.enum(['en', 'hi']);
+
+/** Allowed document languages. */
+export type DocumentLanguage = z.infer<typeof DocumentLanguageSchema>;
+
 /**
  * Type of user intent inferred from a query.
  */
@@ -41,6 +57,115 @@ export const AlertPrioritySchema = z.enum(['high', 'medium', 'low']);
 /** Allowed priority levels. */
 export type AlertPriority = z.infer<typeof AlertPrioritySchema>;
 
+/**
+ * Relationship between a circular and a circular it references.
+ */
+export const CircularRelationSchema = z.enum(['modifies', 'supersedes', 'refers_to', 'rescinds']);
+
+/** Allowed circular relationships. */
+export type CircularRelation = z.infer<typeof CircularRelationSchema>;
+
+/**
+ * Kind of compliance date found in a circular.
+ */
+export const ComplianceDateKindSchema = z.enum(['effective', 'deadline']);
+
+/** Allowed compliance date kinds. */
+export type ComplianceDateKind = z.infer<typeof ComplianceDateKindSchema>;
+
+/**
+ * Kind of content held by a chunk.
+ */
+export const SEBIChunkTypeSchema = z.enum(['text', 'table']);
+
+/** Allowed chunk types. */
+export type SEBIChunkType = z.infer<typeof SEBIChunkTypeSchema>;
+
+/**
+ * Retrieval tier of a chunk: small "child" chunks are embedded and searched, larger
+ * "parent" spans supply the surrounding context.
+ */
+export const SEBIChunkTierSchema = z.enum(['parent', 'child']);
+
+/** Allowed chunk tiers. */
+export type SEBIChunkTier = z.infer<typeof SEBIChunkTierSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DocumentTable
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Zod schema for a table extracted from a SEBI document (e.g., a TER slab table
+ * or a reporting format in an annexure).
+ */
+export const DocumentTableSchema = z.object({
+  /** Table identifier, unique within its document (e.g., "T1"). */
+  id: z.string().min(1),
+
+  /** Optional caption (e.g., "Table 1: TER slabs"). */
+  caption: z.string().optional(),
+
+  /** Column headers. */
+  header: z.array(z.string()),
+
+  /** Body rows; each row has one cell per header column. */
+  rows: z.array(z.array(z.string())),
+});
+
+/**
+ * A table extracted from a SEBI document.
+ */
+export type DocumentTable = z.infer<typeof DocumentTableSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CircularReference
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Zod schema for a reference from one circular to another.
+ */
+export const CircularReferenceSchema = z.object({
+  /** Referenced circular identifier. */
+  circular_id: z.string().min(1),
+
+  /** How the referencing circular relates to the referenced one. */
+  relation: CircularRelationSchema,
+
+  /** Sentence fragment in which the reference appears. */
+  context: z.string().optional(),
+});
+
+/**
+ * A reference from one circular to another.
+ */
+export type CircularReference = z.infer<typeof CircularReferenceSchema>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ComplianceDate
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Zod schema for an effective date or compliance deadline stated in a circular.
+ */
+export const ComplianceDateSchema = z.object({
+  /** Whether the date is when provisions take effect or a deadline for an obligation. */
+  kind: ComplianceDateKindSchema,
+
+  /** The resolved date. */
+  date: z.coerce.date(),
+
+  /** Phrase the date was extracted from (e.g., "within 30 days of this circular"). */
+  text: z.string(),
+
+  /** Whether the date was resolved relative to the circular's issue date. */
+  relative: z.boolean(),
+});
+
+/**
+ * An effective date or compliance deadline stated in a circular.
+ */
+export type ComplianceDate = z.infer<typeof ComplianceDateSchema>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // SEBIDocument
 // ─────────────────────────────────────────────────────────────────────────────
@@ -72,12 +197,15 @@ export const SEBIDocumentSchema = z.object({
   /** Title of the circular or document. */
   title: z.string().min(1),
 
-  /** Issue date of the circular. */
-  date: z.coerce.date(),
+  /** Issue date of the circular; absent when it could not be determined from the PDF. */
+  date: z.coerce.date().optional(),
 
   /** Regulatory category. */
   category: SEBICategorySchema,
 
+  /** Every category the document belongs to, primary category first. */
+  categories: z.array(SEBICategorySchema).optional(),
+
   /** Optional chapter reference (e.g., "Chapter 2: TER"). */
   chapter: z.string().optional(),
 
@@ -90,6 +218,15 @@ export const SEBIDocumentSchema = z.object({
   /** Source URL of the circular. */
   url: z.string().url(),
 
+  /** Language of `content`; bilingual PDFs yield one document per language. */
+  language: DocumentLanguageSchema.optional(),
+
+  /** Character offset in `content` at which each page starts (index 0 = page 1). */
+  page_offsets: z.array(z.number().int().nonnegative()).optional(),
+
+  /** Tables extracted from the document, referenced in `content` as "[Table <id>]". */
+  tables: z.array(DocumentTableSchema).optional(),
+
   /** Arbitrary additional metadata. */
   metadata: z.record(z.unknown()),
 });
@@ -103,36 +240,78 @@ export type SEBIDocument = z.infer<typeof SEBIDocumentSchema>;
 // SEBIChunk
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Vector size of the default embedding model, text-embedding-3-large. */
+const DEFAULT_EMBEDDING_DIMENSIONS = 3072;
+
 /**
- * Zod schema for a text chunk derived from a SEBI document.
+ * Create the chunk schema for embeddings of a given size.
  *
- * Chunks are produced during corpus ingestion and may optionally include an
- * embedding vector for vector search.
+ * The vector size depends on the embedding provider, so code that attaches or reads
+ * embeddings validates against the schema for its provider's dimensions.
+ *
+ * @param dimensions - Required embedding length (default 3072).
  */
-export const SEBIChunkSchema = z.object({
-  /** Unique chunk identifier. */
-  chunk_id: z.string().min(1),
+export function createSEBIChunkSchema(dimensions = DEFAULT_EMBEDDING_DIMENSIONS) {
+  return z.object({
+    /** Unique chunk identifier. */
+    chunk_id: z.string().min(1),
 
-  /** Parent document identifier. */
-  document_id: z.string().min(1),
+    /** Parent document identifier. */
+    document_id: z.string().min(1),
 
-  /** Zero-based index of this chunk within its parent document. */
-  chunk_index: z.number().int().nonnegative(),
+    /** Zero-based index of this chunk within its parent document. */
+    chunk_index: z.number().int().nonnegative(),
 
-  /** The textual content of the chunk. */
-  content: z.string(),
+    /** The textual content of the chunk. */
+    content: z.string(),
 
-  /** Approximate token count. */
-  tokens: z.number().int().nonnegative(),
+    /** Approximate token count. */
+    tokens: z.number().int().nonnegative(),
 
-  /** Hierarchical path of section headers (e.g., ["Chapter 2", "Section 2.3"]). */
-  section_hierarchy: z.array(z.string()),
+    /** Hierarchical path of section headers (e.g., ["Chapter 2", "Section 2.3"]). */
+    section_hierarchy: z.array(z.string()),
 
-  /**
-   * Optional dense embedding vector (3072 dimensions for text-embedding-3-large).
-   */
-  embedding: z.array(z.number()).length(3072).optional(),
-});
+    /** First page (1-based) of the source PDF the chunk was taken from. */
+    page_start: z.number().int().positive().optional(),
+
+    /** Last page (1-based) of the source PDF the chunk was taken from. */
+    page_end: z.number().int().positive().optional(),
+
+    /** Kind of content in the chunk (absent for plain text chunks). */
+    chunk_type: SEBIChunkTypeSchema.optional(),
+
+    /** Structured rows of the source table, for table chunks. */
+    table: DocumentTableSchema.optional(),
+
+    /** Language of the chunk text, inherited from its document. */
+    language: DocumentLanguageSchema.optional(),
+
+    /** Retrieval tier (absent when parent chunks are not in use). */
+    chunk_tier: SEBIChunkTierSchema.optional(),
+
+    /** Identifier of the parent chunk whose span contains this child chunk. */
+    parent_id: z.string().min(1).optional(),
+
+    /** Chunking strategy that produced the chunk (e.g. "section", "clause"). */
+    chunking_strategy: z.string().min(1).optional(),
+
+    /** Whether the chunk repeats boilerplate found across many circulars (e.g. closing paragraphs). */
+    is_boilerplate: z.boolean().optional(),
+
+    /**
+     * Optional dense embedding vector, sized for the embedding provider.
+     */
+    embedding: z.array(z.number()).length(dimensions).optional(),
+  });
+}
+
+/**
+ * Zod schema for a text chunk derived from a SEBI document.
+ *
+ * Chunks are produced during corpus ingestion and may optionally include an
+ * embedding vector for vector search (3072 dimensions for text-embedding-3-large).
+ */
+export const SEBIChunkSchema = createSEBIChunkSchema();
 
 /**
  * A text chunk derived from a SEBI document.
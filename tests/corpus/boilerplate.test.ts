@@ -0,0 +1,72 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+import { BoilerplateDetector, minHashSignature, shingleHashes, signatureSimilarity } from '../../src/corpus/boilerplate.js';
+
+const CLOSING =
+  'This circular is issued in exercise of powers conferred under Section 11(1) of the Securities and Exchange ' +
+  'Board of India Act, 1992 to protect the interests of investors in securities and to promote the development ' +
+  'of, and to regulate the securities market. This circular is available on the SEBI website.';
+
+describe('minHashSignature', () => {
+  it('estimates high similarity for near-duplicates and low similarity otherwise', () => {
+    const closing = minHashSignature(CLOSING);
+    const variant = minHashSignature(CLOSING.replace('Section 11(1)', 'Section 11 (1)').replace('1992', '1993'));
+    const unrelated = minHashSignature('The total expense ratio of equity oriented schemes shall not exceed 2.25 per cent.');
+
+    expect(closing && variant && signatureSimilarity(closing, variant)).toBeGreaterThan(0.7);
+    expect(closing && unrelated && signatureSimilarity(closing, unrelated)).toBeLessThan(0.2);
+    expect(minHashSignature('  ')).toBeNull();
+  });
+});
+
+describe('shingleHashes', () => {
+  it('keeps combining marks within Devanagari words', () => {
+    expect(shingleHashes('सेबी परिपत्र', 1).size).toBe(2);
+    expect(shingleHashes('सेबी परिपत्र')).toEqual(shingleHashes('सेबी  परिपत्र।'));
+  });
+});
+
+describe('BoilerplateDetector', () => {
+  it('flags a passage once it appears in enough circulars', () => {
+    const detector = new BoilerplateDetector({ minCirculars: 3 });
+
+    expect(detector.add({ chunkId: 'a-1', circularId: 'A', content: CLOSING })).toEqual([]);
+    expect(detector.add({ chunkId: 'a-2', circularId: 'A', content: 'TER limits for equity schemes' })).toEqual([]);
+    expect(detector.add({ chunkId: 'b-1', circularId: 'B', content: CLOSING })).toEqual([]);
+    expect(detector.add({ chunkId: 'c-1', circularId: 'C', content: `${CLOSING} ` }).sort()).toEqual([
+      'a-1',
+      'b-1',
+      'c-1',
+    ]);
+    expect(detector.add({ chunkId: 'd-1', circularId: 'D', content: CLOSING })).toEqual(['d-1']);
+    expect(detector.isBoilerplate('a-2')).toBe(false);
+  });
+
+  it('forgets the chunks of a removed circular', () => {
+    const detector = new BoilerplateDetector({ minCirculars: 2 });
+    detector.add({ chunkId: 'a-1', circularId: 'A', content: CLOSING });
+    detector.removeCircular('A');
+
+    expect(detector.size).toBe(0);
+    expect(detector.add({ chunkId: 'b-1', circularId: 'B', content: CLOSING })).toEqual([]);
+  });
+
+  it('saves and loads the index', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'sebi-boilerplate-')), 'index.json');
+    const detector = new BoilerplateDetector({ minCirculars: 2 });
+    detector.add({ chunkId: 'a-1', circularId: 'A', content: CLOSING });
+    detector.add({ chunkId: 'a-2', circularId: 'A', content: '  ' });
+    detector.add({ chunkId: 'b-1', circularId: 'B', content: CLOSING });
+    await detector.save(file);
+
+    const loaded = await BoilerplateDetector.load(file, { minCirculars: 2 });
+    expect(loaded?.size).toBe(3);
+    expect(loaded?.isBoilerplate('a-1')).toBe(true);
+    expect(loaded?.add({ chunkId: 'c-1', circularId: 'C', content: CLOSING })).toEqual(['c-1']);
+    expect(await BoilerplateDetector.load(file, { minCirculars: 3 })).toBeNull();
+    expect(await BoilerplateDetector.load(path.join(path.dirname(file), 'missing.json'))).toBeNull();
+  });
+});
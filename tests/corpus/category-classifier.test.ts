@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { classifyCategory } from '../../src/corpus/category-classifier.js';
+
+describe('classifyCategory', () => {
+  it('should not mistake words containing "ter" for mutual fund signals', () => {
+    const text =
+      'In the matter of the terms of reference, and after due consideration, the ' +
+      'stock exchanges shall ensure better monitoring of intermediaries.';
+
+    const result = classifyCategory(text, 'SEBI/HO/MRD/MRD-PoD-1/P/CIR/2024/12');
+
+    expect(result.primary).toBe('general');
+    expect(result.secondary).toEqual([]);
+  });
+
+  it('should use the department in the circular ID and keyword evidence', () => {
+    const text = 'The TER charged by AMCs shall be disclosed on the website of the mutual fund.';
+
+    const result = classifyCategory(text, 'SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/001');
+
+    expect(result.primary).toBe('mutual_funds');
+    expect(result.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should weigh addressee lines above incidental mentions', () => {
+    const text = [
+      'SEBI/HO/IMD/IMD-PoD-2/P/CIR/2024/45',
+      'To,',
+      'All Portfolio Managers',
+      'Subject: Reporting by Portfolio Managers',
+      'Portfolio managers that also manage mutual fund investments shall report monthly.',
+    ].join('\n');
+
+    const result = classifyCategory(text);
+
+    expect(result.primary).toBe('portfolio_managers');
+  });
+
+  it('should assign multiple labels to circulars addressed to REITs and InvITs', () => {
+    const text = [
+      'SEBI/HO/DDHS/DDHS-PoD-2/P/CIR/2024/30',
+      'To,',
+      'All Infrastructure Investment Trusts (InvITs)',
+      'All Real Estate Investment Trusts (REITs)',
+      'Subject: Valuation of assets of InvITs and REITs',
+      'Investment managers of InvITs and managers of REITs shall appoint a valuer.',
+    ].join('\n');
+
+    const result = classifyCategory(text);
+
+    expect([result.primary, ...result.secondary].sort()).toEqual(['invits', 'reits']);
+    expect(result.confidence).toBeCloseTo(0.5, 1);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  clauseChunker,
+  createChunker,
+  fixedChunker,
+  semanticChunker,
+  splitIntoClauses,
+  splitIntoSentences,
+} from '../../src/corpus/chunkers.js';
+import { countTokens } from '../../src/corpus/tokens.js';
+
+describe('splitIntoSentences', () => {
+  it('does not split after abbreviations, initials or paragraph numbers', () => {
+    const text =
+      '2. The net worth shall be Rs. 500 crore, i.e. the limit under Reg. 52 applies w.e.f. April 1, 2024. ' +
+      'Mr. A. K. Sharma signed it. Does it apply to Nos. 4 and 5? It does.';
+
+    expect(splitIntoSentences(text)).toEqual([
+      '2. The net worth shall be Rs. 500 crore, i.e. the limit under Reg. 52 applies w.e.f. April 1, 2024.',
+      'Mr. A. K. Sharma signed it.',
+      'Does it apply to Nos. 4 and 5?',
+      'It does.',
+    ]);
+  });
+
+  it('ends sentences at the Devanagari danda', () => {
+    expect(splitIntoSentences('यह परिपत्र जारी किया गया है। यह तत्काल प्रभाव से लागू होगा।')).toHaveLength(2);
+  });
+});
+
+describe('chunkers', () => {
+  it('splits clauses at sub-paragraph markers and semicolons', () => {
+    const text = 'The AMC shall:\n(a) disclose the TER;\n(b) publish the NAV daily; and\n(c) file reports.';
+
+    expect(splitIntoClauses(text)).toEqual([
+      'The AMC shall:',
+      '(a) disclose the TER;',
+      '(b) publish the NAV daily; and',
+      '(c) file reports.',
+    ]);
+    expect(clauseChunker.split(text, { maxTokens: 12, overlap: 0 })).toEqual([
+      'The AMC shall:\n(a) disclose the TER;',
+      '(b) publish the NAV daily; and',
+      '(c) file reports.',
+    ]);
+  });
+
+  it('cuts fixed windows of exactly the token budget with overlap', () => {
+    const text = 'one two three four five six seven eight nine ten eleven twelve';
+    const windows = fixedChunker.split(text, { maxTokens: 5, overlap: 2 });
+
+    expect(windows[0]).toBe('one two three four five');
+    expect(windows[1].startsWith('four five')).toBe(true);
+    windows.forEach((window) => expect(countTokens(window)).toBeLessThanOrEqual(5));
+  });
+
+  it('cuts semantic chunks where the topic changes', () => {
+    const ter = 'The total expense ratio of equity schemes is capped. The total expense ratio includes fees.';
+    const reit = 'REIT units are listed on exchanges. REIT units carry voting rights.';
+    const chunks = semanticChunker.split(`${ter} ${reit}`, { maxTokens: countTokens(ter) + 5, overlap: 0 });
+
+    expect(chunks).toEqual([ter, reit]);
+  });
+
+  it('looks up built-in strategies by name', () => {
+    expect(createChunker('clause').name).toBe('clause');
+    expect(() => createChunker('paragraph' as never)).toThrow('Unknown chunking strategy');
+  });
+});
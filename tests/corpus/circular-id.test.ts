@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { CircularId, findCircularIds, matchCircularIds } from '../../src/corpus/circular-id.js';
+
+describe('CircularId', () => {
+  it('should parse current-format identifiers', () => {
+    const id = CircularId.parse('SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90');
+
+    expect(id).toMatchObject({
+      canonical: 'SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90',
+      format: 'current',
+      office: 'HO',
+      department: 'IMD',
+      division: 'IMD-POD-1',
+      issueType: 'P/CIR',
+      year: 2024,
+      serial: 90,
+    });
+    expect(id?.slug).toBe('sebi-ho-imd-imd-pod-1-p-cir-2024-90');
+  });
+
+  it('should parse legacy identifiers with serial before year', () => {
+    const id = CircularId.parse('CIR/IMD/DF/21/2012');
+
+    expect(id).toMatchObject({
+      canonical: 'CIR/IMD/DF/21/2012',
+      format: 'legacy',
+      office: null,
+      department: 'IMD',
+      division: 'DF',
+      year: 2012,
+      serial: 21,
+    });
+  });
+
+  it('should tolerate case, spacing and line breaks at separators', () => {
+    const id = CircularId.parse('Circular No. sebi/HO/IMD/DF2/CIR/P/\n2019 / 17 dated');
+
+    expect(id?.canonical).toBe('SEBI/HO/IMD/DF2/CIR/P/2019/17');
+    expect(id?.equals('SEBI/HO/IMD/DF2/CIR/P/2019/17')).toBe(true);
+    expect(CircularId.parse('Circular on TER')).toBeNull();
+    expect(CircularId.normalize(' not-an-id ')).toBe('not-an-id');
+  });
+
+  it('should derive the same slug from an identifier every time, parsed or not', () => {
+    expect(CircularId.slugify('SEBI/HO/IMD/DF2/CIR/P/2019/17')).toBe('sebi-ho-imd-df2-cir-p-2019-17');
+    expect(CircularId.slugify('IMD/DF/Circular 7 of 2001')).toBe('imd-df-circular-7-of-2001');
+
+    const hashed = CircularId.slugify('परिपत्र सं. ७');
+    expect(hashed).toMatch(/^id-[0-9a-f]{12}$/);
+    expect(CircularId.slugify('परिपत्र सं. ७')).toBe(hashed);
+  });
+});
+
+describe('findCircularIds', () => {
+  it('should find identifiers split across lines with their positions', () => {
+    const text = 'Refer circular SEBI/HO/MRD/DOP1/CIR/P/\n2018/159 and CIR/MRD/DP/24/2012.';
+
+    const found = findCircularIds(text);
+
+    expect(found.map((match) => match.id.canonical)).toEqual([
+      'SEBI/HO/MRD/DOP1/CIR/P/2018/159',
+      'CIR/MRD/DP/24/2012',
+    ]);
+    expect(text.slice(found[1].start, found[1].end)).toBe('CIR/MRD/DP/24/2012');
+  });
+});
+
+describe('matchCircularIds', () => {
+  const known = [
+    'SEBI/HO/IMD/DF2/CIR/P/2019/17',
+    'SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90',
+    'CIR/IMD/DF/21/2012',
+  ];
+
+  it('should match exact identifiers in any case', () => {
+    expect(matchCircularIds('sebi/ho/imd/imd-pod-1/p/cir/2024/90', known)).toEqual([
+      'SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90',
+    ]);
+  });
+
+  it('should match partial input token by token', () => {
+    expect(matchCircularIds('imd pod1 2024 90', known)).toEqual(['SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90']);
+    expect(matchCircularIds('2019/17', known)).toEqual(['SEBI/HO/IMD/DF2/CIR/P/2019/17']);
+    expect(matchCircularIds('IMD', known)).toHaveLength(3);
+    expect(matchCircularIds('MRD', known)).toEqual([]);
+  });
+});
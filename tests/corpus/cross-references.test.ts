@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CitationGraph,
+  extractCrossReferences,
+  extractOwnCircularId,
+} from '../../src/corpus/cross-references.js';
+
+const AMENDING_CIRCULAR = `
+In partial modification of circular SEBI/HO/IMD/DF2/CIR/P/2019/17
+CIRCULAR
+SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/101
+June 05, 2024
+
+Subject: Total Expense Ratio of mutual fund schemes
+
+1. Please refer to circular SEBI/HO/IMD/DF3/CIR/P/2018/137 dated October 22, 2018 on TER.
+2. In partial modification of circular SEBI/HO/IMD/DF2/CIR/P/2019/17, the limits shall be revised.
+3. This circular is in supersession of circular CIR/IMD/DF/21/2012.
+4. Circular SEBI/HO/IMD/DF2/CIR/P/2017/126 is hereby rescinded.
+`;
+
+describe('extractOwnCircularId', () => {
+  it('should skip identifiers introduced by reference phrases', () => {
+    expect(extractOwnCircularId(AMENDING_CIRCULAR)).toBe('SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/101');
+  });
+
+  it('should return null without any identifier', () => {
+    expect(extractOwnCircularId('Plain text without identifiers')).toBeNull();
+  });
+});
+
+describe('extractCrossReferences', () => {
+  it('should capture every referenced circular with its relationship', () => {
+    const references = extractCrossReferences(
+      AMENDING_CIRCULAR,
+      'SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/101',
+    );
+
+    expect(references.map(({ circular_id, relation }) => ({ circular_id, relation }))).toEqual([
+      { circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2019/17', relation: 'modifies' },
+      { circular_id: 'SEBI/HO/IMD/DF3/CIR/P/2018/137', relation: 'refers_to' },
+      { circular_id: 'CIR/IMD/DF/21/2012', relation: 'supersedes' },
+      { circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2017/126', relation: 'rescinds' },
+    ]);
+  });
+
+  it('should keep the sentence around each reference as context', () => {
+    const [reference] = extractCrossReferences(
+      'Please refer to circular SEBI/HO/IMD/DF3/CIR/P/2018/137 dated October 22, 2018. Next sentence.',
+    );
+
+    expect(reference.context).toBe(
+      'Please refer to circular SEBI/HO/IMD/DF3/CIR/P/2018/137 dated October 22, 2018',
+    );
+  });
+});
+
+describe('CitationGraph', () => {
+  const graph = new CitationGraph();
+  graph.addReferences('C-2024', [
+    { circular_id: 'C-2019', relation: 'modifies' },
+    { circular_id: 'C-2018', relation: 'refers_to' },
+  ]);
+  graph.addReferences('C-2025', [{ circular_id: 'C-2019', relation: 'supersedes' }]);
+  graph.addReferences('C-2019', [{ circular_id: 'C-2012', relation: 'refers_to' }]);
+
+  it('should answer which circulars amend a circular', () => {
+    expect(graph.citedBy('C-2019', ['modifies']).map((edge) => edge.from)).toEqual(['C-2024']);
+    expect(graph.citedBy('C-2019').map((edge) => edge.from)).toEqual(['C-2024', 'C-2025']);
+  });
+
+  it('should answer what a circular depends on', () => {
+    expect(graph.referencesOf('C-2024').map((edge) => edge.to)).toEqual(['C-2019', 'C-2018']);
+    expect(graph.dependenciesOf('C-2024')).toEqual(['C-2019', 'C-2018', 'C-2012']);
+  });
+
+  it('should replace references when a circular is re-added', () => {
+    const local = new CitationGraph();
+    local.addReferences('A', [{ circular_id: 'B', relation: 'modifies' }]);
+    local.addReferences('A', [{ circular_id: 'C', relation: 'refers_to' }]);
+
+    expect(local.citedBy('B')).toEqual([]);
+    expect(local.referencesOf('A')).toEqual([{ from: 'A', to: 'C', relation: 'refers_to' }]);
+  });
+});
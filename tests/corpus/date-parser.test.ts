@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractIssueDate, parseSEBIDate } from '../../src/corpus/date-parser.js';
+
+const iso = (date: Date | null | undefined) => date?.toISOString().slice(0, 10);
+
+describe('parseSEBIDate', () => {
+  it('should read numeric dates day first', () => {
+    expect(iso(parseSEBIDate('05/06/2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('05-06-2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('05.06.2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('2024-06-05'))).toBe('2024-06-05');
+  });
+
+  it('should parse month names with ordinals and abbreviations', () => {
+    expect(iso(parseSEBIDate('June 05, 2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('05th June, 2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('05-Jun-2024'))).toBe('2024-06-05');
+    expect(iso(parseSEBIDate('Sept. 5, 2024'))).toBe('2024-09-05');
+  });
+
+  it('should reject impossible dates', () => {
+    expect(parseSEBIDate('31/02/2024')).toBeNull();
+    expect(parseSEBIDate('06/13/2024')).toBeNull();
+    expect(parseSEBIDate('Smarch 3, 2024')).toBeNull();
+  });
+});
+
+describe('extractIssueDate', () => {
+  it('should prefer a "Dated:" label over other header dates', () => {
+    const text = [
+      'CIRCULAR',
+      'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90 Dated: 05/06/2024',
+      'In partial modification of circular dated 01/03/2020, it has been decided as follows.',
+    ].join('\n');
+
+    expect(extractIssueDate(text)).toEqual({
+      date: new Date('2024-06-05T00:00:00.000Z'),
+      confidence: 0.95,
+      source: 'dated_label',
+      text: '05/06/2024',
+    });
+  });
+
+  it('should skip dates of referenced circulars in the header', () => {
+    const text = [
+      'SEBI/HO/IMD/2024/12',
+      'Reference is drawn to circular dated March 1, 2020.',
+      'June 05, 2024',
+    ].join('\n');
+
+    const issued = extractIssueDate(text);
+
+    expect(iso(issued?.date)).toBe('2024-06-05');
+    expect(issued?.source).toBe('header_line');
+  });
+
+  it('should fall back to body dates with low confidence', () => {
+    const header = Array.from({ length: 30 }, (_, i) => `Paragraph ${i + 1} text.`);
+    const text = [...header, 'The scheme was launched on 10th January, 2023.'].join('\n');
+
+    const issued = extractIssueDate(text);
+
+    expect(iso(issued?.date)).toBe('2023-01-10');
+    expect(issued?.confidence).toBe(0.3);
+  });
+
+  it('should return null when the text has no date', () => {
+    expect(extractIssueDate('CIRCULAR\nSubject: Revised norms')).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractComplianceDates, resolveEffectiveDate } from '../../src/corpus/deadlines.js';
+
+const iso = (date: Date | null) => date?.toISOString().slice(0, 10);
+
+describe('extractComplianceDates', () => {
+  const issueDate = new Date('2024-06-05T00:00:00.000Z');
+
+  it('should extract absolute effective dates and deadlines', () => {
+    const text = [
+      'The provisions of this circular shall come into force with effect from April 1, 2024.',
+      'AMCs shall submit the compliance report by March 31, 2025.',
+      'The revised format shall be applicable from 01/07/2024.',
+    ].join('\n');
+
+    const dates = extractComplianceDates(text, issueDate);
+
+    expect(dates.map((entry) => [entry.kind, iso(entry.date), entry.relative])).toEqual([
+      ['effective', '2024-04-01', false],
+      ['deadline', '2025-03-31', false],
+      ['effective', '2024-07-01', false],
+    ]);
+    expect(dates[1].text).toBe('by March 31, 2025');
+  });
+
+  it('should resolve relative phrases against the issue date', () => {
+    const text =
+      'Stock exchanges shall put in place the systems within 30 days of this circular. ' +
+      'This circular shall come into effect from the date of issue. ' +
+      'Intermediaries shall comply within three months from the date of issuance of this circular.';
+
+    const dates = extractComplianceDates(text, issueDate);
+
+    expect(dates.map((entry) => [entry.kind, iso(entry.date), entry.relative])).toEqual([
+      ['deadline', '2024-07-05', true],
+      ['effective', '2024-06-05', true],
+      ['deadline', '2024-09-05', true],
+    ]);
+  });
+
+  it('should skip relative phrases without an issue date', () => {
+    const dates = extractComplianceDates('Comply within 30 days of this circular, not later than June 30, 2024.');
+
+    expect(dates).toHaveLength(1);
+    expect(iso(dates[0].date)).toBe('2024-06-30');
+  });
+
+  it('should not report the same date twice', () => {
+    const text = 'Applicable w.e.f. April 1, 2024. The norms become effective from April 1, 2024.';
+
+    expect(extractComplianceDates(text)).toHaveLength(1);
+  });
+});
+
+describe('resolveEffectiveDate', () => {
+  it('should pick the earliest effective date', () => {
+    const dates = extractComplianceDates(
+      'Part A shall be applicable from July 1, 2024. Part B shall be applicable from April 1, 2024. ' +
+        'Reports are due by March 31, 2024.',
+    );
+
+    expect(iso(resolveEffectiveDate(dates))).toBe('2024-04-01');
+    expect(resolveEffectiveDate([])).toBeNull();
+  });
+});
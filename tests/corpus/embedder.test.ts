@@ -1,6 +1,11 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { EmbeddingGenerator, cacheKey } from '../../src/corpus/embedder.js';
+import { EmbeddingGenerator, cacheKey, retryAfterMs } from '../../src/corpus/embedder.js';
+import { DiskEmbeddingCache } from '../../src/corpus/embedding-cache.js';
+import { HashedEmbeddingProvider } from '../../src/corpus/embedding-provider.js';
 
 import type { SEBIChunk } from '../../src/types/sebi-document.js';
 
@@ -8,11 +13,16 @@ const EMBEDDING_LENGTH = 3072;
 
 const embedQueryMock = vi.fn<(text: string) => Promise<number[]>>();
 const embedDocumentsMock = vi.fn<(texts: string[]) => Promise<number[][]>>();
+const openAIFieldsMock = vi.fn<(fields: Record<string, unknown>) => void>();
 
 vi.mock('@langchain/openai', () => ({
   OpenAIEmbeddings: class {
     embedQuery = embedQueryMock;
     embedDocuments = embedDocumentsMock;
+
+    constructor(fields: Record<string, unknown>) {
+      openAIFieldsMock(fields);
+    }
   },
 }));
 
@@ -73,6 +83,122 @@ describe('EmbeddingGenerator', () => {
     expect(enriched[1].embedding).toHaveLength(EMBEDDING_LENGTH);
   });
 
+  it('embeds chunks with a local provider and validates its vector size', async () => {
+    const generator = new EmbeddingGenerator(new HashedEmbeddingProvider({ dimensions: 128 }));
+
+    const enriched = await generator.embedChunks([createChunk(1, 'TER limits for equity schemes')]);
+
+    expect(generator.dimensions).toBe(128);
+    expect(enriched[0].embedding).toHaveLength(128);
+    expect(embedDocumentsMock).not.toHaveBeenCalled();
+  });
+
+  it('reuses embeddings from the disk cache across generators', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embedder-cache-'));
+    embedDocumentsMock.mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+
+    try {
+      const first = new EmbeddingGenerator('fake-key', { diskCache: new DiskEmbeddingCache({ directory }) });
+      const [vector] = await first.embedBatch(['persisted text']);
+
+      embedDocumentsMock.mockClear();
+      const second = new EmbeddingGenerator('fake-key', { diskCache: new DiskEmbeddingCache({ directory }) });
+
+      expect(await second.embedBatch(['persisted text'])).toEqual([vector.map(Math.fround)]);
+      expect(embedDocumentsMock).not.toHaveBeenCalled();
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('splits batches by token budget', async () => {
+    embedDocumentsMock.mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+    const generator = new EmbeddingGenerator('fake-key', { maxBatchTokens: 25 });
+
+    const inputs = Array.from({ length: 4 }, (_, idx) => `limit ${idx} `.repeat(5).trim());
+    const outputs = await generator.embedBatch(inputs);
+
+    expect(outputs).toHaveLength(4);
+    expect(embedDocumentsMock.mock.calls.map(([texts]) => texts.length)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('truncates inputs over the model limit with a warning', async () => {
+    embedDocumentsMock.mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+    const warn = vi.fn();
+    const generator = new EmbeddingGenerator('fake-key', { maxInputTokens: 10, logger: { info: () => undefined, warn, error: () => undefined } });
+
+    await generator.embedBatch(['the total expense ratio '.repeat(20)]);
+
+    const [sent] = embedDocumentsMock.mock.calls[0][0];
+    expect(sent.length).toBeLessThan(100);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Truncating embedding input'));
+  });
+
+  it('waits for Retry-After on rate-limited responses', async () => {
+    const rateLimited = Object.assign(new Error('Rate limit reached'), {
+      status: 429,
+      headers: { 'retry-after-ms': '20' },
+    });
+    embedDocumentsMock
+      .mockRejectedValueOnce(rateLimited)
+      .mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+    const warn = vi.fn();
+    const generator = new EmbeddingGenerator('fake-key', { logger: { info: () => undefined, warn, error: () => undefined } });
+
+    await generator.embedBatch(['retried text']);
+
+    // LangChain's own retries are off, so the generator sees every rate limit
+    expect(openAIFieldsMock).toHaveBeenCalledWith(expect.objectContaining({ maxRetries: 0 }));
+    expect(embedDocumentsMock).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('retrying in 20ms'));
+    expect(retryAfterMs({ headers: new Headers({ 'retry-after': '2' }) })).toBe(2000);
+    expect(retryAfterMs(new Error('no headers'))).toBeNull();
+  });
+
+  it('does not retry invalid requests', async () => {
+    embedDocumentsMock.mockRejectedValue(Object.assign(new Error('Invalid input'), { status: 400 }));
+    const generator = new EmbeddingGenerator('fake-key', { logger: { info: () => undefined, warn: () => undefined, error: () => undefined } });
+
+    await expect(generator.embedBatch(['bad input'])).rejects.toThrow('Invalid input');
+    expect(embedDocumentsMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('estimates tokens and cache hits without calling the provider', async () => {
+    embedDocumentsMock.mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+    const generator = new EmbeddingGenerator('fake-key');
+    await generator.embedBatch(['already embedded']);
+    embedDocumentsMock.mockClear();
+
+    const usage = await generator.estimateBatch(['already embedded', 'not yet embedded text']);
+
+    expect(usage.texts).toBe(2);
+    expect(usage.cachedTexts).toBe(1);
+    expect(usage.cachedTokens).toBeGreaterThan(0);
+    expect(usage.tokens).toBeGreaterThan(usage.cachedTokens);
+    expect(embedDocumentsMock).not.toHaveBeenCalled();
+    expect(generator.usage).toMatchObject({ texts: 1, cachedTexts: 0 });
+  });
+
+  it('reports progress and stops before the next batch when aborted', async () => {
+    const controller = new AbortController();
+    embedDocumentsMock.mockImplementation(async (texts: string[]) => texts.map((text) => mockVector(text.length)));
+    const generator = new EmbeddingGenerator('fake-key', { maxConcurrency: 1 });
+    const progress: number[] = [];
+
+    await expect(
+      generator.embedBatch(['first', 'second', 'third'], {
+        batchSize: 1,
+        signal: controller.signal,
+        onProgress: ({ embedded }) => {
+          progress.push(embedded);
+          controller.abort();
+        },
+      }),
+    ).rejects.toThrow();
+    expect(progress).toEqual([1]);
+    expect(embedDocumentsMock).toHaveBeenCalledTimes(1);
+  });
+
   it('generates deterministic cache keys', () => {
     const keyA = cacheKey('Hello World');
     const keyB = cacheKey('Hello World');
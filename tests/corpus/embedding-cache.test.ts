@@ -0,0 +1,121 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { DiskEmbeddingCache, type EmbeddingCacheKey, LruCache } from '../../src/corpus/embedding-cache.js';
+
+const key = (textHash: string, overrides: Partial<EmbeddingCacheKey> = {}): EmbeddingCacheKey => ({
+  provider: 'local',
+  model: 'hashed-ngram-3',
+  dimensions: 4,
+  textHash,
+  ...overrides,
+});
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new LruCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('should expire entries after the TTL', () => {
+    const cache = new LruCache<number>(10, 0);
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('DiskEmbeddingCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist embeddings across instances', async () => {
+    await new DiskEmbeddingCache({ directory }).set(key('abc'), [0.1, -0.2, 0.3, 1e-9]);
+
+    const cache = new DiskEmbeddingCache({ directory });
+
+    // Stored as float32, the precision embedding APIs return
+    expect(await cache.get(key('abc'))).toEqual([0.1, -0.2, 0.3, 1e-9].map(Math.fround));
+    expect(await cache.get(key('abc', { model: 'other-model' }))).toBeNull();
+    expect(await cache.get(key('missing'))).toBeNull();
+  });
+
+  it('should report entries per provider, model and dimensions', async () => {
+    const cache = new DiskEmbeddingCache({ directory });
+    await cache.set(key('a'), [1, 2, 3, 4]);
+    await cache.set(key('b'), [1, 2, 3, 4]);
+    await cache.set(key('a', { provider: 'openai', model: 'text-embedding-3-small', dimensions: 2 }), [1, 2]);
+
+    const stats = await new DiskEmbeddingCache({ directory }).stats();
+
+    expect(stats.entries).toBe(3);
+    expect(stats.sizeBytes).toBe((4 + 4 + 2) * 4);
+    expect(stats.namespaces).toEqual({
+      'local-hashed-ngram-3-4': { entries: 2, sizeBytes: 32 },
+      'openai-text-embedding-3-small-2': { entries: 1, sizeBytes: 8 },
+    });
+  });
+
+  it('should evict least recently used entries beyond the size limit', async () => {
+    const cache = new DiskEmbeddingCache({ directory, maxSizeBytes: 32 });
+    const file = (hash: string) => path.join(directory, 'local-hashed-ngram-3-4', `${hash}.f32`);
+
+    await cache.set(key('a'), [1, 1, 1, 1]);
+    await cache.set(key('b'), [2, 2, 2, 2]);
+    await fs.utimes(file('a'), new Date('2024-01-01'), new Date('2024-01-01'));
+    await fs.utimes(file('b'), new Date('2024-01-02'), new Date('2024-01-02'));
+
+    const reloaded = new DiskEmbeddingCache({ directory, maxSizeBytes: 32 });
+    await reloaded.get(key('a'));
+    await reloaded.set(key('c'), [3, 3, 3, 3]);
+
+    expect(await reloaded.get(key('a'))).toEqual([1, 1, 1, 1]);
+    expect(await reloaded.get(key('b'))).toBeNull();
+    expect(await reloaded.get(key('c'))).toEqual([3, 3, 3, 3]);
+  });
+
+  it('should prune unused entries and clear the cache', async () => {
+    const cache = new DiskEmbeddingCache({ directory });
+    await cache.set(key('a'), [1, 1, 1, 1]);
+    await cache.set(key('b'), [2, 2, 2, 2]);
+    await fs.utimes(
+      path.join(directory, 'local-hashed-ngram-3-4', 'a.f32'),
+      new Date('2024-01-01'),
+      new Date('2024-01-01'),
+    );
+
+    const reloaded = new DiskEmbeddingCache({ directory });
+    expect(await reloaded.prune({ unusedSince: new Date('2024-06-01') })).toEqual({ removed: 1, freedBytes: 16 });
+    expect(await reloaded.clear()).toBe(1);
+    expect((await reloaded.stats()).entries).toBe(0);
+  });
+
+  it('should clear only its own entries from a shared directory', async () => {
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'keep');
+    await fs.mkdir(path.join(directory, 'reports'));
+    await fs.writeFile(path.join(directory, 'reports', 'q1.csv'), 'keep');
+    const cache = new DiskEmbeddingCache({ directory });
+    await cache.set(key('a'), [1, 1, 1, 1]);
+
+    expect(await cache.clear()).toBe(1);
+    expect((await fs.readdir(directory)).sort()).toEqual(['notes.txt', 'reports']);
+    expect(await fs.readFile(path.join(directory, 'reports', 'q1.csv'), 'utf8')).toBe('keep');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+
+import { estimateEmbeddingCost } from '../../src/corpus/embedding-cost.js';
+
+describe('estimateEmbeddingCost', () => {
+  it('excludes cached tokens only for the configured model', () => {
+    const estimates = estimateEmbeddingCost(
+      { tokens: 3_000_000, cachedTokens: 1_000_000 },
+      { name: 'openai', model: 'text-embedding-3-small' },
+    );
+
+    expect(estimates[0]).toMatchObject({ model: 'text-embedding-3-small', configured: true, billableTokens: 2_000_000 });
+    expect(estimates[0].costUsd).toBeCloseTo(0.04);
+
+    const large = estimates.find((estimate) => estimate.model === 'text-embedding-3-large');
+    expect(large).toMatchObject({ configured: false, billableTokens: 3_000_000 });
+    expect(large?.costUsd).toBeCloseTo(0.39);
+  });
+
+  it('prices local providers at zero and unknown models as unknown', () => {
+    expect(estimateEmbeddingCost({ tokens: 1000, cachedTokens: 0 }, { name: 'local', model: 'hashed-ngram-3' })[0].costUsd).toBe(0);
+    expect(estimateEmbeddingCost({ tokens: 1000, cachedTokens: 0 }, { name: 'openai', model: 'custom' })[0].costUsd).toBeNull();
+  });
+});
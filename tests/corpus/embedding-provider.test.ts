@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { HashedEmbeddingProvider, OpenAIEmbeddingProvider, createEmbeddingProvider } from '../../src/corpus/embedding-provider.js';
+
+const cosine = (a: number[], b: number[]): number => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe('HashedEmbeddingProvider', () => {
+  it('should produce deterministic unit vectors of the configured size', async () => {
+    const provider = new HashedEmbeddingProvider({ dimensions: 256 });
+    const [first] = await provider.embedDocuments(['Total expense ratio of mutual fund schemes']);
+    const second = await new HashedEmbeddingProvider({ dimensions: 256 }).embedQuery(
+      'Total expense ratio of mutual fund schemes',
+    );
+
+    expect(first).toHaveLength(256);
+    expect(second).toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1, 6);
+  });
+
+  it('should place lexically similar texts closer together', async () => {
+    const provider = new HashedEmbeddingProvider({ dimensions: 512 });
+    const [query, related, unrelated] = await provider.embedDocuments([
+      'total expense ratio for mutual funds',
+      'Mutual funds shall disclose the total expense ratio daily',
+      'Valuation of units of infrastructure investment trusts',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should return a zero vector for text without words', async () => {
+    const vector = await new HashedEmbeddingProvider({ dimensions: 16 }).embedQuery('--- ***');
+
+    expect(vector).toEqual(new Array(16).fill(0));
+  });
+
+  it('should reject invalid dimensions', () => {
+    expect(() => new HashedEmbeddingProvider({ dimensions: 0 })).toThrow(/dimensions/);
+  });
+});
+
+describe('OpenAIEmbeddingProvider', () => {
+  it('should take the vector size from the model unless a reduced size is requested', () => {
+    expect(new OpenAIEmbeddingProvider('test-key').dimensions).toBe(3072);
+    expect(new OpenAIEmbeddingProvider('test-key', { model: 'text-embedding-3-small' }).dimensions).toBe(1536);
+    expect(new OpenAIEmbeddingProvider('test-key', { model: 'text-embedding-ada-002' }).dimensions).toBe(1536);
+    expect(
+      new OpenAIEmbeddingProvider('test-key', { model: 'text-embedding-3-large', dimensions: 1024 }).dimensions,
+    ).toBe(1024);
+  });
+
+  it('should reject sizes a model cannot produce or does not declare', () => {
+    expect(() => new OpenAIEmbeddingProvider('test-key', { model: 'text-embedding-ada-002', dimensions: 512 })).toThrow(
+      /does not support/,
+    );
+    expect(() => new OpenAIEmbeddingProvider('test-key', { model: 'custom-embedder' })).toThrow(/Unknown vector size/);
+    expect(new OpenAIEmbeddingProvider('test-key', { model: 'custom-embedder', dimensions: 256 }).dimensions).toBe(256);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('should create providers by name', () => {
+    const local = createEmbeddingProvider({ provider: 'local', dimensions: 64 });
+
+    expect(local.name).toBe('local');
+    expect(local.dimensions).toBe(64);
+    expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow(/API key/);
+  });
+});
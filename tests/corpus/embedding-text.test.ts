@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildEmbeddingText, validateEmbeddingTemplate } from '../../src/corpus/embedding-text.js';
+
+import type { SEBIChunk, SEBIDocument } from '../../src/types/sebi-document.js';
+
+const document: SEBIDocument = {
+  id: 'sebi-ho-imd-2024-90',
+  circular_id: 'SEBI/HO/IMD/2024/90',
+  title: 'Total Expense Ratio of Mutual Fund Schemes',
+  date: new Date('2024-06-05T00:00:00.000Z'),
+  category: 'mutual_funds',
+  content: 'Full text',
+  url: 'https://www.sebi.gov.in/circular',
+  metadata: {},
+};
+
+const chunk = (overrides: Partial<SEBIChunk> = {}): SEBIChunk => ({
+  chunk_id: 'sebi-ho-imd-2024-90-chunk-0',
+  document_id: document.id,
+  chunk_index: 0,
+  content: 'The limit shall be 2.25%.',
+  tokens: 8,
+  section_hierarchy: ['Para 4', '(b)'],
+  ...overrides,
+});
+
+describe('buildEmbeddingText', () => {
+  it('should prepend the circular context to the chunk content', () => {
+    expect(buildEmbeddingText(chunk(), document)).toBe(
+      [
+        'Circular: Total Expense Ratio of Mutual Fund Schemes',
+        'Circular ID: SEBI/HO/IMD/2024/90',
+        'Date: 2024-06-05',
+        'Category: mutual funds',
+        'Section: Para 4 > (b)',
+        '',
+        'The limit shall be 2.25%.',
+      ].join('\n'),
+    );
+  });
+
+  it('should drop lines for missing fields and apply custom templates', () => {
+    const text = buildEmbeddingText(chunk({ section_hierarchy: [] }), { ...document, date: undefined });
+
+    expect(text).not.toContain('Section:');
+    expect(text).not.toContain('Date:');
+    expect(buildEmbeddingText(chunk(), document, '[{circular_id} | {section}] {content}')).toBe(
+      '[SEBI/HO/IMD/2024/90 | Para 4 > (b)] The limit shall be 2.25%.',
+    );
+  });
+});
+
+describe('validateEmbeddingTemplate', () => {
+  it('should reject unknown placeholders and templates without content', () => {
+    expect(() => validateEmbeddingTemplate('{title}\n{content}')).not.toThrow();
+    expect(() => validateEmbeddingTemplate('{scheme}\n{content}')).toThrow(/\{scheme\}/);
+    expect(() => validateEmbeddingTemplate('{title}')).toThrow(/\{content\}/);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+
+import { fuseResults } from '../../src/corpus/fusion.js';
+
+import type { SearchResult } from '../../src/corpus/qdrant-client.js';
+
+const createResult = (id: number, score: number): SearchResult => ({
+  score,
+  chunk: {
+    chunk_id: `chunk-${id}`,
+    document_id: 'doc-1',
+    chunk_index: id,
+    content: `Chunk ${id}`,
+    tokens: 2,
+  },
+  document: {
+    id: 'doc-1',
+    circular_id: 'SEBI/HO/IMD/2024/001',
+    title: 'Total Expense Ratio',
+    category: 'mutual_funds',
+    content: '',
+    url: 'https://www.sebi.gov.in/test',
+    metadata: {},
+  },
+});
+
+const ids = (results: SearchResult[]) => results.map((result) => result.chunk.chunk_id);
+
+describe('fuseResults', () => {
+  const semantic = [createResult(1, 0.9), createResult(2, 0.85), createResult(3, 0.2)];
+  const keyword = [createResult(3, 12), createResult(2, 4), createResult(4, 1)];
+
+  it('fuses by reciprocal rank with per-leg weights', () => {
+    const equal = fuseResults({ semantic, keyword }, 10);
+    expect(ids(equal)).toEqual(['chunk-3', 'chunk-2', 'chunk-1', 'chunk-4']);
+    expect(equal[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+
+    const semanticOnly = fuseResults({ semantic, keyword }, 2, { weights: { keyword: 0 } });
+    expect(ids(semanticOnly)).toEqual(['chunk-1', 'chunk-2']);
+
+    const steep = fuseResults({ semantic, keyword }, 10, { rrfK: 1 });
+    expect(steep[0].score).toBeCloseTo(1 / 4 + 1 / 2);
+  });
+
+  it('combines min-max and distribution-normalised scores', () => {
+    const minmax = fuseResults({ semantic, keyword }, 10, { method: 'minmax' });
+    // chunk-3: 0 from semantic (its minimum) + 1 from keyword (its maximum)
+    expect(minmax.find((result) => result.chunk.chunk_id === 'chunk-3')?.score).toBeCloseTo(1);
+    expect(ids(minmax)[0]).toBe('chunk-2');
+
+    const dbsf = fuseResults({ semantic, keyword }, 10, { method: 'dbsf', weights: { keyword: 0 } });
+    expect(ids(dbsf).slice(0, 3)).toEqual(['chunk-1', 'chunk-2', 'chunk-3']);
+    expect(dbsf.every((result) => result.score >= 0 && result.score <= 1)).toBe(true);
+  });
+
+  it('explains each leg rank, raw score and contribution', () => {
+    const [first] = fuseResults({ semantic, keyword }, 1, { method: 'minmax', weights: { keyword: 0.5 } }, true);
+    const explanation = first.explanation;
+
+    expect(explanation?.method).toBe('minmax');
+    expect(explanation?.legs.semantic).toMatchObject({ rank: 2, score: 0.85 });
+    expect(explanation?.legs.keyword).toMatchObject({ rank: 2, score: 4 });
+    expect(explanation?.legs.keyword?.contribution).toBeCloseTo((0.5 * 3) / 11);
+    expect(explanation?.fusedScore).toBe(first.score);
+    expect((explanation?.legs.semantic?.contribution ?? 0) + (explanation?.legs.keyword?.contribution ?? 0)).toBeCloseTo(
+      first.score,
+    );
+
+    expect(fuseResults({ semantic, keyword }, 1)[0].explanation).toBeUndefined();
+  });
+});
@@ -1,9 +1,12 @@
 import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { CorpusIngestion } from '../../src/corpus/ingest.js';
 
-import type { EmbeddingGenerator } from '../../src/corpus/embedder.js';
+import type { EmbedBatchOptions, EmbeddingGenerator } from '../../src/corpus/embedder.js';
+import type { IngestionProgressEvent } from '../../src/corpus/ingest.js';
 import type { QdrantManager, SearchResult } from '../../src/corpus/qdrant-client.js';
 import type { SEBIChunk, SEBIDocument } from '../../src/types/sebi-document.js';
 
@@ -30,6 +33,8 @@ const createChunk = (id: string, overrides: Partial<SEBIChunk> = {}): SEBIChunk
   ...('embedding' in overrides ? { embedding: overrides.embedding } : {}),
 });
 
+const readFileActual = fs.readFile;
+
 const createEmbedding = (): number[] => Array.from({ length: 3072 }, (_, index) => index / 3072);
 
 describe('CorpusIngestion', () => {
@@ -37,33 +42,60 @@ describe('CorpusIngestion', () => {
   let embedderMock: EmbeddingGenerator;
   let qdrantMock: QdrantManager;
   let embedChunksSpy: ReturnType<typeof vi.fn>;
+  let estimateBatchSpy: ReturnType<typeof vi.fn>;
   let upsertSpy: ReturnType<typeof vi.fn>;
   let deleteSpy: ReturnType<typeof vi.fn>;
   let listChunksSpy: ReturnType<typeof vi.fn>;
+  let countChunksSpy: ReturnType<typeof vi.fn>;
+  let markSupersededSpy: ReturnType<typeof vi.fn>;
+  let findRescindingSpy: ReturnType<typeof vi.fn>;
+  let markBoilerplateSpy: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     parserMock = vi.fn(async () => createDocument());
 
-    embedChunksSpy = vi.fn(async (chunks: SEBIChunk[]) =>
-      chunks.map((chunk) => ({
+    const usage = { texts: 0, tokens: 0, cachedTexts: 0, cachedTokens: 0 };
+    embedChunksSpy = vi.fn(async (chunks: SEBIChunk[]) => {
+      usage.texts += chunks.length;
+      usage.tokens += chunks.length * 10;
+      return chunks.map((chunk) => ({
         ...chunk,
         embedding: createEmbedding(),
-      })),
-    );
+      }));
+    });
+    estimateBatchSpy = vi.fn(async (texts: string[]) => ({
+      texts: texts.length,
+      tokens: texts.length * 10,
+      cachedTexts: 1,
+      cachedTokens: 10,
+    }));
 
     embedderMock = {
       embedChunks: embedChunksSpy,
+      estimateBatch: estimateBatchSpy,
+      provider: { name: 'openai', model: 'text-embedding-3-large' },
+      get usage() {
+        return { ...usage };
+      },
     } as unknown as EmbeddingGenerator;
 
     upsertSpy = vi.fn().mockResolvedValue(1);
     deleteSpy = vi.fn().mockResolvedValue(1);
     listChunksSpy = vi.fn().mockResolvedValue([]);
+    countChunksSpy = vi.fn().mockResolvedValue(0);
+    markSupersededSpy = vi.fn().mockResolvedValue(0);
+    findRescindingSpy = vi.fn().mockResolvedValue(null);
+    markBoilerplateSpy = vi.fn(async (ids: string[]) => ids.length);
 
     qdrantMock = {
       initializeCollection: vi.fn().mockResolvedValue(undefined),
-      upsertChunks: upsertSpy,
+      upsertDocumentChunks: upsertSpy,
       deleteChunksByCircularId: deleteSpy,
       listChunks: listChunksSpy,
+      countChunks: countChunksSpy,
+      markSuperseded: markSupersededSpy,
+      findRescindingCircular: findRescindingSpy,
+      markBoilerplate: markBoilerplateSpy,
     } as unknown as QdrantManager;
 
     vi.spyOn(fs, 'readFile').mockResolvedValue(Buffer.from('PDF'));
@@ -87,9 +119,92 @@ describe('CorpusIngestion', () => {
     expect(parserMock).toHaveBeenCalledTimes(1);
     expect(embedChunksSpy).toHaveBeenCalledTimes(1);
     expect(upsertSpy).toHaveBeenCalledTimes(1);
+    expect(upsertSpy.mock.calls[0][0]).toMatchObject({
+      circular_id: 'SEBI/HO/IMD/2024/999',
+      category: 'mutual_funds',
+      url: 'https://www.sebi.gov.in/circulars/custom',
+    });
     expect(summary.circularId).toBe('SEBI/HO/IMD/2024/999');
     expect(summary.chunkCount).toBeGreaterThan(0);
     expect(summary.embeddingCount).toBe(summary.chunkCount);
+    expect(summary.embeddingTokens).toBe(summary.chunkCount * 10);
+  });
+
+  it('estimates tokens in a dry run without embedding or storing', async () => {
+    const ingestion = new CorpusIngestion(
+      { parser: parserMock, embedder: embedderMock, qdrant: qdrantMock },
+      { sourcePath: '/tmp', dryRun: true },
+    );
+
+    const summary = await ingestion.ingestPDF('sample.pdf');
+
+    expect(estimateBatchSpy).toHaveBeenCalledTimes(1);
+    expect(embedChunksSpy).not.toHaveBeenCalled();
+    expect(upsertSpy).not.toHaveBeenCalled();
+    expect(qdrantMock.initializeCollection).not.toHaveBeenCalled();
+    expect(markSupersededSpy).not.toHaveBeenCalled();
+    expect(summary).toMatchObject({ dryRun: true, embeddingCount: 0, cachedTokens: 10 });
+    expect(summary.embeddingTokens).toBe(summary.chunkCount * 10 - 10);
+
+    const [configured] = ingestion.estimateCost({ tokens: 2_000_000, cachedTokens: 1_000_000 });
+    expect(configured).toMatchObject({ model: 'text-embedding-3-large', configured: true, billableTokens: 1_000_000 });
+    expect(configured.costUsd).toBeCloseTo(0.13);
+  });
+
+  it('embeds only child chunks and passes parent spans to qdrant', async () => {
+    const ingestion = new CorpusIngestion(
+      { parser: parserMock, embedder: embedderMock, qdrant: qdrantMock },
+      { sourcePath: '/tmp', chunkOptions: { minTokens: 1, parentMaxTokens: 1000 } },
+    );
+
+    const summary = await ingestion.ingestPDF('sample.pdf');
+
+    const embedded = embedChunksSpy.mock.calls[0][0] as SEBIChunk[];
+    const [, chunks, , parents] = upsertSpy.mock.calls[0] as [SEBIDocument, SEBIChunk[], number[][], SEBIChunk[]];
+    expect(embedded.every((chunk) => chunk.chunk_tier === 'child')).toBe(true);
+    expect(parents).toHaveLength(1);
+    expect(chunks.every((chunk) => chunk.parent_id === parents[0].chunk_id)).toBe(true);
+    expect(summary.chunkCount).toBe(embedded.length);
+  });
+
+  it('embeds chunks with a contextual header but stores clean content', async () => {
+    const ingestion = new CorpusIngestion(
+      { parser: parserMock, embedder: embedderMock, qdrant: qdrantMock },
+      { sourcePath: '/tmp', embeddingTemplate: '{circular_id}: {content}' },
+    );
+
+    await ingestion.ingestPDF('sample.pdf');
+
+    const [chunks, texts] = embedChunksSpy.mock.calls[0] as [SEBIChunk[], string[]];
+    expect(texts[0]).toBe(`SEBI/HO/IMD/2024/001: ${chunks[0].content}`);
+    expect((upsertSpy.mock.calls[0][1] as SEBIChunk[])[0].content).toBe(chunks[0].content);
+    expect(() => new CorpusIngestion({ embedder: embedderMock, qdrant: qdrantMock }, { embeddingTemplate: '{title}' }))
+      .toThrow(/\{content\}/);
+  });
+
+  it('re-embeds stored chunks with the current template', async () => {
+    const embedBatchSpy = vi.fn(async (texts: string[]) => texts.map(() => createEmbedding()));
+    const updateVectorsSpy = vi.fn().mockResolvedValue(2);
+    const stored: SearchResult[] = [createChunk('1'), createChunk('2')].map((chunk) => ({
+      score: 1,
+      chunk,
+      document: createDocument(),
+    }));
+    listChunksSpy.mockResolvedValue(stored);
+    const ingestion = new CorpusIngestion({
+      embedder: { ...embedderMock, embedBatch: embedBatchSpy } as unknown as EmbeddingGenerator,
+      qdrant: { ...qdrantMock, updateVectors: updateVectorsSpy } as unknown as QdrantManager,
+    });
+
+    const summary = await ingestion.reembedCorpus({ circularId: 'SEBI/HO/IMD/2024/001' });
+
+    expect(listChunksSpy).toHaveBeenCalledWith({ circularId: 'SEBI/HO/IMD/2024/001' });
+    expect(embedBatchSpy.mock.calls[0][0][0]).toContain('Circular ID: SEBI/HO/IMD/2024/001');
+    expect(updateVectorsSpy).toHaveBeenCalledWith(
+      stored.map((result) => result.chunk),
+      [createEmbedding(), createEmbedding()],
+    );
+    expect(summary.chunkCount).toBe(2);
   });
 
   it('computes corpus statistics from qdrant results', async () => {
@@ -125,4 +240,204 @@ describe('CorpusIngestion', () => {
     expect(deleteSpy).toHaveBeenCalledWith('SEBI/HO/IMD/2024/001');
     expect(upsertSpy).toHaveBeenCalledTimes(1);
   });
+
+  it('marks circulars rescinded by a master circular as superseded', async () => {
+    parserMock.mockResolvedValue(
+      createDocument({
+        circular_id: 'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+        date: new Date('2024-06-27'),
+        metadata: {
+          documentType: 'master_circular',
+          rescindedCirculars: ['SEBI/HO/IMD/DF2/CIR/P/2019/17'],
+        },
+      }),
+    );
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    await ingestion.ingestPDF('master.pdf');
+
+    expect(markSupersededSpy).toHaveBeenCalledWith(
+      ['SEBI/HO/IMD/DF2/CIR/P/2019/17'],
+      'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+      new Date('2024-06-27'),
+    );
+  });
+
+  it('marks circulars superseded or rescinded by an ordinary circular as superseded', async () => {
+    parserMock.mockResolvedValue(
+      createDocument({
+        circular_id: 'SEBI/HO/IMD/2024/010',
+        date: new Date('2024-05-01'),
+        metadata: {
+          documentType: 'circular',
+          references: [
+            { circular_id: 'SEBI/HO/IMD/2021/001', relation: 'supersedes' },
+            { circular_id: 'SEBI/HO/IMD/2022/004', relation: 'rescinds' },
+            { circular_id: 'SEBI/HO/IMD/2023/007', relation: 'modifies' },
+          ],
+        },
+      }),
+    );
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    await ingestion.ingestPDF('circular.pdf');
+
+    expect(markSupersededSpy).toHaveBeenCalledWith(
+      ['SEBI/HO/IMD/2021/001', 'SEBI/HO/IMD/2022/004'],
+      'SEBI/HO/IMD/2024/010',
+      new Date('2024-05-01'),
+    );
+  });
+
+  it('marks a newly ingested circular superseded by an existing master circular', async () => {
+    findRescindingSpy.mockResolvedValue({
+      circularId: 'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+      date: new Date('2024-06-27'),
+    });
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    await ingestion.ingestPDF('old.pdf');
+
+    expect(findRescindingSpy).toHaveBeenCalledWith('SEBI/HO/IMD/2024/001');
+    expect(markSupersededSpy).toHaveBeenCalledWith(
+      ['SEBI/HO/IMD/2024/001'],
+      'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+      new Date('2024-06-27'),
+    );
+  });
+
+  it('emits progress events for each stage', async () => {
+    embedChunksSpy.mockImplementationOnce(
+      async (chunks: SEBIChunk[], _texts: string[], options: EmbedBatchOptions) => {
+        options.onProgress?.({ embedded: chunks.length, total: chunks.length });
+        return chunks.map((chunk) => ({ ...chunk, embedding: createEmbedding() }));
+      },
+    );
+    const events: IngestionProgressEvent[] = [];
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    await ingestion.ingestPDF('sample.pdf', undefined, { onProgress: (event) => events.push(event) });
+
+    expect(events.map((event) => event.type)).toEqual(['file-started', 'parsed', 'chunked', 'embedding', 'upserted']);
+    expect(events[0]).toMatchObject({ index: 0, total: 1 });
+  });
+
+  it('writes nothing for a PDF cancelled while embedding', async () => {
+    const controller = new AbortController();
+    const bilingualParser = vi.fn(async () => [
+      { ...createDocument(), language: 'en' as const },
+      { ...createDocument({ id: 'doc-001-hi' }), language: 'hi' as const },
+    ]);
+    embedChunksSpy.mockImplementation(async (chunks: SEBIChunk[]) => {
+      controller.abort();
+      return chunks.map((chunk) => ({ ...chunk, embedding: createEmbedding() }));
+    });
+    const ingestion = new CorpusIngestion({ parser: bilingualParser, embedder: embedderMock, qdrant: qdrantMock });
+
+    await expect(
+      ingestion.updateCorpus('SEBI/HO/IMD/2024/001', 'bilingual.pdf', { signal: controller.signal }),
+    ).rejects.toThrow();
+    expect(upsertSpy).not.toHaveBeenCalled();
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
+
+  it('stops a directory run after the current file when cancelled', async () => {
+    const controller = new AbortController();
+    const entry = (name: string) => ({ name, isDirectory: () => false, isFile: () => true });
+    vi.spyOn(fs, 'readdir').mockResolvedValue([entry('a.pdf'), entry('b.pdf')] as never);
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    const summary = await ingestion.ingestDirectory('/tmp/circulars', {
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.type === 'upserted') controller.abort();
+      },
+    });
+
+    expect(summary).toMatchObject({ totalFiles: 2, successCount: 1, failureCount: 0, cancelled: true });
+    expect(parserMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('tags chunks repeated across circulars as boilerplate', async () => {
+    const content = createDocument().content;
+    const stored = ['002', '003'].map((serial) => ({
+      score: 1,
+      chunk: createChunk(serial, { document_id: `doc-${serial}`, content }),
+      document: createDocument({ id: `doc-${serial}`, circular_id: `SEBI/HO/IMD/2024/${serial}` }),
+    }));
+    listChunksSpy.mockResolvedValue(stored);
+    countChunksSpy.mockResolvedValue(stored.length);
+    const ingestion = new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock });
+
+    await ingestion.ingestPDF('sample.pdf');
+
+    const [, chunks] = upsertSpy.mock.calls[0] as [SEBIDocument, SEBIChunk[]];
+    expect(chunks[0].is_boilerplate).toBe(true);
+    expect(markBoilerplateSpy).toHaveBeenCalledWith(['chunk-002', 'chunk-003']);
+
+    listChunksSpy.mockResolvedValue([...stored, { score: 1, chunk: chunks[0], document: createDocument() }]);
+    const stats = await ingestion.getCorpusStats();
+    expect(stats.boilerplateChunks).toBe(1);
+  });
+
+  it('keeps the boilerplate index in a file between runs', async () => {
+    const boilerplateIndexPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'sebi-boilerplate-')), 'test.json');
+    vi.mocked(fs.readFile).mockImplementation(async (file) =>
+      file === boilerplateIndexPath ? readFileActual(file, 'utf8') : Buffer.from('PDF'),
+    );
+    const content = createDocument().content;
+    const stored = ['002', '003'].map((serial) => ({
+      score: 1,
+      chunk: createChunk(serial, { document_id: `doc-${serial}`, content }),
+      document: createDocument({ id: `doc-${serial}`, circular_id: `SEBI/HO/IMD/2024/${serial}` }),
+    }));
+    listChunksSpy.mockResolvedValue(stored);
+    countChunksSpy.mockResolvedValue(stored.length);
+    const config = { boilerplateIndexPath };
+
+    await new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock }, config).ingestPDF(
+      'sample.pdf',
+    );
+    const [, first] = upsertSpy.mock.calls[0] as [SEBIDocument, SEBIChunk[]];
+    expect(listChunksSpy).toHaveBeenCalledTimes(1);
+
+    listChunksSpy.mockClear();
+    countChunksSpy.mockResolvedValue(stored.length + first.length);
+    parserMock.mockResolvedValue(createDocument({ id: 'doc-004', circular_id: 'SEBI/HO/IMD/2024/004' }));
+    await new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock }, config).ingestPDF(
+      'next.pdf',
+    );
+
+    const [, second] = upsertSpy.mock.calls[1] as [SEBIDocument, SEBIChunk[]];
+    expect(listChunksSpy).not.toHaveBeenCalled();
+    expect(second[0].is_boilerplate).toBe(true);
+
+    // A stale index, e.g. after chunks were deleted elsewhere, is rebuilt from the collection
+    countChunksSpy.mockResolvedValue(1);
+    await new CorpusIngestion({ parser: parserMock, embedder: embedderMock, qdrant: qdrantMock }, config).ingestPDF(
+      'next.pdf',
+    );
+    expect(listChunksSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('ingests each language document of a bilingual PDF', async () => {
+    const bilingualParser = vi.fn(async () => [
+      { ...createDocument(), language: 'en' as const },
+      { ...createDocument({ id: 'doc-001-hi' }), language: 'hi' as const },
+    ]);
+    const ingestion = new CorpusIngestion({
+      parser: bilingualParser,
+      embedder: embedderMock,
+      qdrant: qdrantMock,
+    });
+
+    const summary = await ingestion.ingestPDF('bilingual.pdf');
+
+    expect(upsertSpy).toHaveBeenCalledTimes(2);
+    expect(upsertSpy.mock.calls.map((call) => call[0].language)).toEqual(['en', 'hi']);
+    expect(upsertSpy.mock.calls[1][1][0]).toMatchObject({ document_id: 'doc-001-hi', language: 'hi' });
+    expect(findRescindingSpy).toHaveBeenCalledTimes(1);
+    expect(summary.languages).toEqual(['en', 'hi']);
+    expect(summary.embeddingCount).toBe(summary.chunkCount);
+  });
 });
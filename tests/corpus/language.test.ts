@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectLanguage, splitByLanguage } from '../../src/corpus/language.js';
+
+describe('detectLanguage', () => {
+  it('should detect the script with the most letters', () => {
+    expect(detectLanguage('भारतीय प्रतिभूति और विनिमय बोर्ड')).toBe('hi');
+    expect(detectLanguage('Securities and Exchange Board of India')).toBe('en');
+    expect(detectLanguage('परिपत्र संख्या SEBI/HO')).toBe('hi');
+    expect(detectLanguage('2.25% | 1,000')).toBeNull();
+  });
+});
+
+describe('splitByLanguage', () => {
+  it('should separate paragraphs by script', () => {
+    const text = 'म्यूचुअल फंड के लिए कुल व्यय अनुपात\n\nTotal expense ratio of mutual funds\n\n2.25%';
+
+    const { en, hi } = splitByLanguage(text);
+
+    expect(en).toBe('Total expense ratio of mutual funds\n\n2.25%');
+    expect(hi).toBe('म्यूचुअल फंड के लिए कुल व्यय अनुपात\n\n2.25%');
+  });
+
+  it('should split bilingual header blocks line by line', () => {
+    const text = 'परिपत्र\nCIRCULAR\nसभी म्यूचुअल फंड\nAll Mutual Funds';
+
+    const { en, hi } = splitByLanguage(text);
+
+    expect(en).toBe('CIRCULAR\nAll Mutual Funds');
+    expect(hi).toBe('परिपत्र\nसभी म्यूचुअल फंड');
+  });
+
+  it('should send table markers to the language of the surrounding text', () => {
+    const text = [
+      'तालिका 1: कुल व्यय अनुपात की सीमाएं\n[Table T1]',
+      '[Table T2]',
+      'Table 3: TER slabs\n[Table T3]',
+    ].join('\n\n');
+
+    const { en, hi } = splitByLanguage(text);
+
+    expect(hi).toBe('तालिका 1: कुल व्यय अनुपात की सीमाएं\n[Table T1]\n\n[Table T2]');
+    expect(en).toBe('Table 3: TER slabs\n[Table T3]');
+  });
+
+  it('should keep page breaks in both streams', () => {
+    const { en, hi } = splitByLanguage('हिंदी पाठ\fEnglish text\fMore English');
+
+    expect(en.split('\f')).toEqual(['', 'English text', 'More English']);
+    expect(hi.split('\f')).toEqual(['हिंदी पाठ', '', '']);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractRescindedCirculars, isMasterCircular } from '../../src/corpus/master-circular.js';
+
+const MASTER_CIRCULAR_TEXT = `
+SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90
+June 27, 2024
+Master Circular for Mutual Funds
+
+Chapter 1: Introduction
+1.1 Applicability
+1.1.1 This master circular supersedes the circulars listed in Annexure 5.
+
+Chapter 10: Total Expense Ratio
+10.1 Limits
+10.1.1 The TER shall not exceed the limits in this chapter.
+
+Annexure 5 - List of circulars rescinded
+1. SEBI/HO/IMD/DF2/CIR/P/2019/17 dated January 28, 2019
+2. CIR/IMD/DF/21/2012 dated September 13, 2012
+3. SEBI/HO/IMD/DF2/CIR/P/2019/17 dated January 28, 2019
+`;
+
+describe('isMasterCircular', () => {
+  it('should detect a master circular title in the header', () => {
+    expect(isMasterCircular(MASTER_CIRCULAR_TEXT)).toBe(true);
+  });
+
+  it('should ignore master circulars referenced in the body', () => {
+    const text = `SEBI/HO/IMD/2024/001\nCircular on TER\n${'Body line\n'.repeat(20)}Master Circular for Mutual Funds`;
+    expect(isMasterCircular(text)).toBe(false);
+  });
+});
+
+describe('extractRescindedCirculars', () => {
+  it('should read unique circular ids from the rescinded annexure', () => {
+    const rescinded = extractRescindedCirculars(
+      MASTER_CIRCULAR_TEXT,
+      'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+    );
+
+    expect(rescinded).toEqual(['SEBI/HO/IMD/DF2/CIR/P/2019/17', 'CIR/IMD/DF/21/2012']);
+  });
+
+  it('should return an empty list without a rescinded annexure', () => {
+    expect(extractRescindedCirculars('Chapter 1: Introduction\n1.1 Scope')).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { joinPages, pageAtOffset, PageLocator } from '../../src/corpus/pages.js';
+
+describe('joinPages', () => {
+  it('should join pages with blank lines and record their offsets', () => {
+    const { content, pageOffsets } = joinPages('Page one\n\fPage two\fPage three');
+
+    expect(content).toBe('Page one\n\nPage two\n\nPage three');
+    expect(pageOffsets).toEqual([0, 10, 20]);
+  });
+
+  it('should keep offsets for empty pages', () => {
+    const { content, pageOffsets } = joinPages('First\f\fThird');
+
+    expect(content).toBe('First\n\nThird');
+    expect(pageOffsets).toEqual([0, 5, 7]);
+    expect(pageAtOffset(pageOffsets, 7)).toBe(3);
+  });
+});
+
+describe('pageAtOffset', () => {
+  it('should find the page containing an offset', () => {
+    const offsets = [0, 100, 250];
+
+    expect(pageAtOffset(offsets, 0)).toBe(1);
+    expect(pageAtOffset(offsets, 99)).toBe(1);
+    expect(pageAtOffset(offsets, 100)).toBe(2);
+    expect(pageAtOffset(offsets, 1000)).toBe(3);
+    expect(pageAtOffset([], 10)).toBe(1);
+  });
+});
+
+describe('PageLocator', () => {
+  const { content, pageOffsets } = joinPages(
+    'Para 1 applies to all AMCs.\nIt continues\fon the next page.\fA repeated line.\fA repeated line.',
+  );
+
+  it('should locate text that spans a page break despite re-joined lines', () => {
+    const locator = new PageLocator(content, pageOffsets);
+
+    expect(locator.locate('It continues on the next page.')).toEqual({ pageStart: 1, pageEnd: 2 });
+  });
+
+  it('should resolve repeated passages in document order', () => {
+    const locator = new PageLocator(content, pageOffsets);
+
+    expect(locator.locate('A repeated line.')).toEqual({ pageStart: 3, pageEnd: 3 });
+    expect(locator.locate('A repeated line.')).toEqual({ pageStart: 4, pageEnd: 4 });
+  });
+
+  it('should return null for text that is not in the document', () => {
+    const locator = new PageLocator(content, pageOffsets);
+
+    expect(locator.locate('Not present')).toBeNull();
+    expect(locator.locate('   ')).toBeNull();
+  });
+});
@@ -1,8 +1,59 @@
-import { describe, expect, it } from 'vitest';
-
-import { chunkDocument, countTokens, extractSections } from '../../src/corpus/pdf-parser.js';
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  chunkDocument,
+  extractSections,
+  formatSectionPath,
+  type HeadingRule,
+  parseSEBIPDF,
+  parseSEBIPDFByLanguage,
+} from '../../src/corpus/pdf-parser.js';
+import { countTokens } from '../../src/corpus/tokens.js';
 import { type SEBIDocument } from '../../src/types/sebi-document.js';
 
+interface MockTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+const pdfPages = vi.hoisted(() => ({ current: [] as MockTextItem[][] }));
+
+vi.mock('pdf-parse', () => ({
+  default: async (
+    _buffer: Buffer,
+    options: { pagerender: (pageData: unknown) => Promise<string> },
+  ) => {
+    const texts: string[] = [];
+    for (const [index, items] of pdfPages.current.entries()) {
+      const pageData = {
+        pageNumber: index + 1,
+        getTextContent: async () => ({
+          items: items.map((item) => ({
+            str: item.str,
+            width: item.width,
+            transform: [10, 0, 0, 10, item.x, item.y],
+          })),
+        }),
+      };
+      texts.push(await options.pagerender(pageData));
+    }
+    return { numpages: texts.length, info: {}, text: texts.join('\n\n') };
+  },
+}));
+
+/** Build mock text items for one line per entry; cells of an array are laid out as columns. */
+const pageItems = (lines: Array<string | string[]>): MockTextItem[] =>
+  lines.flatMap((line, row) =>
+    (Array.isArray(line) ? line : [line]).map((cell, column) => ({
+      str: cell,
+      x: 50 + column * 250,
+      y: 800 - row * 20,
+      width: cell.length * 5,
+    })),
+  );
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Sample Fixtures
 // ─────────────────────────────────────────────────────────────────────────────
@@ -51,6 +102,25 @@ Chapter 3: Compliance Requirements
 AMCs shall submit monthly compliance reports to SEBI detailing TER calculations for each scheme.
 `;
 
+const CLAUSE_DOCUMENT_TEXT = `
+1. This circular reviews the expense structure of mutual fund schemes.
+
+2. In order to rationalise expenses, the following shall apply:
+a) AMCs shall disclose the TER of each scheme on a daily basis.
+(b) The additional expense shall be charged as under:
+(i) up to 0.05% of daily net assets for exit load schemes;
+(ii) nil for schemes without exit load.
+(c) Any change in TER shall be communicated to unitholders.
+(d) Trustees shall review compliance.
+(e) Expenses shall be charged to the scheme.
+(f) Brokerage shall be capped.
+(g) GST shall be charged separately.
+(h) Investor education spends shall continue.
+(i) This clause follows clause (h) and is lettered, not roman.
+
+3. This circular shall come into force from April 1, 2024.
+`;
+
 const SIMPLE_TEXT = 'Hello world. This is a test. Testing token counting functionality.';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -128,6 +198,42 @@ describe('extractSections', () => {
     expect(sections).toEqual([]);
   });
 
+  it('should build a clause tree for numbered paragraphs and sub-clauses', () => {
+    const sections = extractSections(CLAUSE_DOCUMENT_TEXT);
+
+    expect(sections.map((s) => s.label)).toEqual(['Para 1', 'Para 2', 'Para 3']);
+
+    const para2 = sections[1];
+    expect(para2.content).toContain('In order to rationalise expenses');
+    expect(para2.children.map((s) => s.label)).toEqual([
+      '(a)',
+      '(b)',
+      '(c)',
+      '(d)',
+      '(e)',
+      '(f)',
+      '(g)',
+      '(h)',
+      '(i)',
+    ]);
+
+    const clauseB = para2.children[1];
+    expect(clauseB.children.map((s) => s.label)).toEqual(['(i)', '(ii)']);
+    expect(clauseB.children[1].content).toBe('nil for schemes without exit load.');
+    expect(para2.children[8].level).toBe(4);
+  });
+
+  it('should accept a custom heading grammar', () => {
+    const grammar: HeadingRule[] = [
+      { name: 'regulation', pattern: /^Regulation\s+(\d+)[:.]?\s+(.+)/, level: 1 },
+    ];
+    const sections = extractSections('Regulation 52 Disclosures\nTER shall be disclosed.', { grammar });
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].title).toBe('Disclosures');
+    expect(sections[0].content).toBe('TER shall be disclosed.');
+  });
+
   it('should preserve content within sections', () => {
     const sections = extractSections(SAMPLE_DOCUMENT_TEXT);
 
@@ -199,6 +305,145 @@ describe('chunkDocument', () => {
     expect(chunksWithHierarchy.length).toBeGreaterThan(0);
   });
 
+  it('should cite the exact clause in the section hierarchy', () => {
+    const doc = createTestDocument(CLAUSE_DOCUMENT_TEXT);
+    const chunks = chunkDocument(doc, { minTokens: 1 });
+
+    const paths = chunks.map((c) => formatSectionPath(c.section_hierarchy));
+    expect(paths).toContain('Para 2 > (b) > (ii)');
+  });
+
+  it('should keep every clause and the text before the first heading at default options', () => {
+    const doc = createTestDocument(`Subject: Total Expense Ratio of mutual fund schemes\n${CLAUSE_DOCUMENT_TEXT}`);
+    const chunks = chunkDocument(doc);
+    const lines = doc.content
+      .split('\n')
+      .map((line) => line.trim().replace(/^(?:\d+\.|\(?[a-z]+\))\s*/, ''))
+      .filter(Boolean);
+
+    for (const line of lines) {
+      expect(chunks.some((chunk) => chunk.content.includes(line))).toBe(true);
+    }
+    expect(chunks.find((chunk) => chunk.content.includes('Subject:'))?.section_hierarchy).toEqual([]);
+    expect(chunks.find((chunk) => chunk.content.includes('0.05%'))?.section_hierarchy).toEqual(['Para 2']);
+  });
+
+  it('should use master circular paragraph numbering for master circulars', () => {
+    const doc = {
+      ...createTestDocument(
+        [
+          'Chapter 10: Total Expense Ratio',
+          '10.1 Limits',
+          '10.1.1 The TER shall not exceed the limits specified below.',
+          'a) 2.25% on the first Rs. 500 crore of daily net assets;',
+          'Annexure 2 of this circular lists the affected schemes.',
+          'Annexure 5 - List of circulars rescinded',
+          'SEBI/HO/IMD/DF2/CIR/P/2019/17',
+        ].join('\n'),
+      ),
+      metadata: { documentType: 'master_circular' },
+    };
+    const chunks = chunkDocument(doc, { minTokens: 1 });
+    const paths = chunks.map((c) => formatSectionPath(c.section_hierarchy));
+
+    expect(paths).toContain('10 Total Expense Ratio > 10.1 Limits > Para 10.1.1');
+    expect(paths).toContain('10 Total Expense Ratio > 10.1 Limits > Para 10.1.1 > (a)');
+    expect(paths).toContain('Annexure 5 List of circulars rescinded');
+    expect(paths.some((path) => path.startsWith('Annexure 2'))).toBe(false);
+  });
+
+  it('should emit table chunks within the containing section', () => {
+    const doc = {
+      ...createTestDocument('Chapter 2: TER Limits\nThe limits are given below.\n[Table T1]\nGST is additional.'),
+      tables: [
+        {
+          id: 'T1',
+          caption: 'TER slabs',
+          header: ['Daily net assets', 'Maximum TER'],
+          rows: [
+            ['First Rs. 500 crore', '2.25%'],
+            ['Next Rs. 250 crore', '2.00%'],
+          ],
+        },
+      ],
+    };
+    const chunks = chunkDocument(doc, { minTokens: 1 });
+
+    const tableChunks = chunks.filter((c) => c.chunk_type === 'table');
+    expect(tableChunks).toHaveLength(1);
+    expect(tableChunks[0].section_hierarchy).toEqual(['2 TER Limits']);
+    expect(tableChunks[0].table?.rows[1]).toEqual(['Next Rs. 250 crore', '2.00%']);
+    expect(tableChunks[0].content).toContain('Daily net assets: Next Rs. 250 crore | Maximum TER: 2.00%');
+  });
+
+  it('should split large tables by token budget, repeating the header', () => {
+    const rows = Array.from({ length: 40 }, (_, i) => [`Slab ${i + 1}`, `${(2 - i * 0.01).toFixed(2)}%`]);
+    const doc = {
+      ...createTestDocument('[Table T1]'),
+      tables: [{ id: 'T1', header: ['Slab', 'TER'], rows }],
+    };
+    const chunks = chunkDocument(doc, { maxTokens: 100 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flatMap((c) => c.table?.rows ?? [])).toEqual(rows);
+    chunks.forEach((chunk) => {
+      expect(chunk.table?.header).toEqual(['Slab', 'TER']);
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('should emit parent spans for child chunks when enabled', () => {
+    const clause = 'The AMC shall disclose the total expense ratio of each scheme on its website daily. ';
+    const doc = createTestDocument(`Chapter 2: TER Disclosure\n${clause.repeat(12)}`);
+    const chunks = chunkDocument(doc, { maxTokens: 60, minTokens: 1, overlap: 0, parentMaxTokens: 1000 });
+
+    const parents = chunks.filter((c) => c.chunk_tier === 'parent');
+    const children = chunks.filter((c) => c.chunk_tier === 'child');
+
+    expect(parents).toHaveLength(1);
+    expect(parents[0].chunk_id).toBe('test-doc-001-parent-0');
+    expect(parents[0].section_hierarchy).toEqual(['2 TER Disclosure']);
+    expect(children.length).toBeGreaterThan(1);
+    children.forEach((child, index) => {
+      expect(child.chunk_index).toBe(index);
+      expect(child.parent_id).toBe(parents[0].chunk_id);
+      expect(parents[0].content).toContain(child.content.slice(0, 40));
+    });
+  });
+
+  it('should split sections longer than the parent budget into several parents', () => {
+    const doc = createTestDocument('This is plain text. '.repeat(100));
+    const chunks = chunkDocument(doc, { maxTokens: 50, minTokens: 1, overlap: 0, parentMaxTokens: 200 });
+
+    const parents = chunks.filter((c) => c.chunk_tier === 'parent');
+    expect(parents.length).toBeGreaterThan(1);
+    parents.forEach((parent) => expect(parent.tokens).toBeLessThanOrEqual(200));
+    expect(chunkDocument(doc).some((c) => c.chunk_tier || c.parent_id)).toBe(false);
+  });
+
+  it('should record the chunking strategy on every chunk', () => {
+    const doc = createTestDocument(SAMPLE_DOCUMENT_TEXT);
+
+    expect(chunkDocument(doc).every((c) => c.chunking_strategy === 'section')).toBe(true);
+    expect(
+      chunkDocument(doc, { strategy: 'fixed', maxTokens: 40, minTokens: 1, parentMaxTokens: 200 }).every(
+        (c) => c.chunking_strategy === 'fixed',
+      ),
+    ).toBe(true);
+
+    const custom = { name: 'lines', split: (text: string) => text.split('\n').filter((line) => line.trim()) };
+    expect(chunkDocument(doc, { strategy: custom, minTokens: 1 })[0].chunking_strategy).toBe('lines');
+  });
+
+  it('should run the chunker on sections that fit in one chunk', () => {
+    const doc = createTestDocument(SAMPLE_DOCUMENT_TEXT);
+    const custom = { name: 'lines', split: (text: string) => text.split('\n').filter((line) => line.trim()) };
+    const chunks = chunkDocument(doc, { strategy: custom, minTokens: 1, maxTokens: 10_000 });
+
+    expect(chunks.length).toBeGreaterThan(0);
+    chunks.forEach((chunk) => expect(chunk.content).not.toContain('\n'));
+  });
+
   it('should handle document without sections', () => {
     const plainContent = 'This is plain text. '.repeat(50);
     const doc = createTestDocument(plainContent);
@@ -228,3 +473,157 @@ describe('chunkDocument', () => {
     }
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PDF Parsing Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('parseSEBIPDF', () => {
+  it('should keep page boundaries, tables and page provenance', async () => {
+    pdfPages.current = [
+      pageItems([
+        'SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/001',
+        'Subject: Total Expense Ratio of mutual fund schemes',
+        '1. This circular revises the TER limits for mutual fund schemes.',
+        '2. The revised limits are as follows and apply to all open ended',
+        '1',
+      ]),
+      pageItems([
+        'schemes with effect from April 1, 2024.',
+        'Table 1: TER slabs',
+        ['Daily net assets', 'Maximum TER'],
+        ['First Rs. 500 crore', '2.25%'],
+        ['Next Rs. 250 crore', '2.00%'],
+      ]),
+    ];
+
+    const document = await parseSEBIPDF(Buffer.from('PDF'));
+
+    expect(document.circular_id).toBe('SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/001');
+    expect(document.page_offsets).toHaveLength(2);
+    expect(document.content.slice(document.page_offsets?.[1])).toMatch(/^schemes with effect from/);
+    expect(document.tables?.[0]).toMatchObject({
+      caption: 'Table 1: TER slabs',
+      header: ['Daily net assets', 'Maximum TER'],
+    });
+    expect(document.metadata.effectiveDate).toEqual(new Date('2024-04-01T00:00:00.000Z'));
+
+    const sections = extractSections(document.content, { pageOffsets: document.page_offsets });
+    expect(sections[0]).toMatchObject({ id: '', content: expect.stringContaining('Subject: Total Expense Ratio') });
+    expect(sections[2]).toMatchObject({ label: 'Para 2', pageStart: 1, pageEnd: 2 });
+
+    const chunks = chunkDocument(document, { minTokens: 1 });
+    const para1 = chunks.find((c) => c.section_hierarchy.join() === 'Para 1');
+    const para2 = chunks.find((c) => c.section_hierarchy.join() === 'Para 2' && !c.chunk_type);
+    const table = chunks.find((c) => c.chunk_type === 'table');
+
+    expect(para1).toMatchObject({ page_start: 1, page_end: 1 });
+    expect(para2).toMatchObject({ page_start: 1, page_end: 2 });
+    expect(table).toMatchObject({ page_start: 2, page_end: 2 });
+  });
+
+  it('should read rescinded circulars and references from tables', async () => {
+    pdfPages.current = [
+      pageItems([
+        'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+        'Master Circular for Mutual Funds',
+        '1. This master circular consolidates the circulars listed in Annexure 1.',
+        'Annexure 1 - List of circulars rescinded',
+        ['Sr. No.', 'Circular No.', 'Date', 'Subject'],
+        ['1', 'SEBI/HO/IMD/DF2/CIR/P/2019/17', 'January 15, 2019', 'Total expense ratio'],
+        ['2', 'SEBI/HO/IMD/DF3/CIR/P/2020/42', 'March 12, 2020', 'Risk-o-meter'],
+      ]),
+    ];
+
+    const document = await parseSEBIPDF(Buffer.from('PDF'));
+
+    expect(document.tables).toHaveLength(1);
+    expect(document.metadata.rescindedCirculars).toEqual([
+      'SEBI/HO/IMD/DF2/CIR/P/2019/17',
+      'SEBI/HO/IMD/DF3/CIR/P/2020/42',
+    ]);
+    expect(document.metadata.references).toEqual([
+      { circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2019/17', relation: 'rescinds' },
+      { circular_id: 'SEBI/HO/IMD/DF3/CIR/P/2020/42', relation: 'rescinds' },
+    ]);
+  });
+
+  it('should keep page offsets and rows apart when a table crosses a page break', async () => {
+    pdfPages.current = [
+      pageItems([
+        'SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/003',
+        '1. The TER limits are as follows:',
+        ['Daily net assets', 'Maximum TER'],
+        ['First Rs. 500 crore', '2.25%'],
+      ]),
+      pageItems([
+        ['Next Rs. 250 crore', '2.00%'],
+        ['Next Rs. 1,250 crore', '1.75%'],
+        '2. GST is payable in addition to the TER.',
+      ]),
+      pageItems(['3. This circular comes into force immediately.']),
+    ];
+
+    const document = await parseSEBIPDF(Buffer.from('PDF'));
+
+    expect(document.page_offsets).toHaveLength(3);
+    expect(document.content.slice(document.page_offsets?.[2])).toMatch(/^3\. This circular comes into force/);
+    expect(document.tables).toHaveLength(1);
+    expect(document.tables?.[0].rows).toEqual([
+      ['First Rs. 500 crore', '2.25%'],
+      ['Next Rs. 250 crore', '2.00%'],
+      ['Next Rs. 1,250 crore', '1.75%'],
+    ]);
+
+    const chunks = chunkDocument(document, { minTokens: 1 });
+    expect(chunks.find((c) => c.section_hierarchy.join() === 'Para 3')).toMatchObject({ page_start: 3, page_end: 3 });
+  });
+
+  it('should split bilingual PDFs into language-tagged documents', async () => {
+    pdfPages.current = [
+      pageItems([
+        'SEBI/HO/IMD/IMD-II/DOF3/P/CIR/2024/002',
+        'परिपत्र',
+        'CIRCULAR',
+        'म्यूचुअल फंड योजनाओं का कुल व्यय अनुपात',
+        'Subject: Total Expense Ratio of mutual fund schemes',
+      ]),
+      pageItems(['1. सभी म्यूचुअल फंड संशोधित सीमाओं का पालन करेंगे।']),
+      pageItems(['1. All mutual funds shall comply with the revised limits.']),
+    ];
+
+    const documents = await parseSEBIPDFByLanguage(Buffer.from('PDF'), 'both');
+    const [english, hindi] = documents;
+
+    expect(documents.map((doc) => doc.language)).toEqual(['en', 'hi']);
+    expect(english.id).toBe('sebi-ho-imd-imd-ii-dof3-p-cir-2024-002');
+    expect(hindi.id).toBe('sebi-ho-imd-imd-ii-dof3-p-cir-2024-002-hi');
+    expect(hindi.circular_id).toBe(english.circular_id);
+    expect(english.content).not.toMatch(/[\u0900-\u097F]/);
+    expect(hindi.content).toContain('सभी म्यूचुअल फंड');
+    expect(hindi.content).not.toContain('All mutual funds');
+
+    const hindiChunks = chunkDocument(hindi, { minTokens: 1 });
+    expect(hindiChunks.every((chunk) => chunk.language === 'hi' && chunk.page_start !== 3)).toBe(true);
+
+    const englishOnly = await parseSEBIPDF(Buffer.from('PDF'), { language: 'en' });
+    expect(englishOnly.content).toContain('All mutual funds shall comply');
+    expect(englishOnly.language).toBe('en');
+  });
+
+  it('should read the issue date day first and flag documents without one', async () => {
+    pdfPages.current = [
+      pageItems(['SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90', 'Dated: 05/06/2024', '1. Revised limits apply.']),
+    ];
+
+    const dated = await parseSEBIPDF(Buffer.from('PDF'));
+    expect(dated.date).toEqual(new Date('2024-06-05T00:00:00.000Z'));
+    expect(dated.metadata).toMatchObject({ dateConfidence: 0.95, dateSource: 'dated_label' });
+
+    pdfPages.current = [pageItems(['SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/91', '1. Revised limits apply.'])];
+
+    const undated = await parseSEBIPDF(Buffer.from('PDF'));
+    expect(undated.date).toBeUndefined();
+    expect(undated.metadata.dateMissing).toBe(true);
+  });
+});
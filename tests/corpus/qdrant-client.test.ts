@@ -1,43 +1,69 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { QdrantManager, type SearchResult } from '../../src/corpus/qdrant-client.js';
+import { type SearchFilters } from '../../src/corpus/search-filters.js';
+import { type SEBIChunk, type SEBIDocument } from '../../src/types/sebi-document.js';
+
+interface MockSparseVector {
+  indices: number[];
+  values: number[];
+}
 
-import { QdrantManager, type SearchFilters } from '../../src/corpus/qdrant-client.js';
-import { type SEBIChunk } from '../../src/types/sebi-document.js';
+type MockVector = number[] | Record<string, number[] | MockSparseVector>;
 
 interface MockPoint {
   id: string | number;
-  vector: number[];
+  vector: MockVector;
   payload: Record<string, unknown>;
 }
 
+interface MockCollectionParams {
+  vectors?: Record<string, unknown>;
+  sparse_vectors?: Record<string, unknown>;
+}
+
 type MockFilterRule =
-  | { key: string; match: { value: string } }
-  | { key: string; range: { gte?: number; lte?: number } };
+  | { key: string; match: { value: string | number | boolean } | { any: string[] | number[] } }
+  | { key: string; range: { gte?: number | string; lte?: number | string } }
+  | { is_empty: { key: string } }
+  | { has_id: Array<string | number> };
 
 class MockQdrantClient {
-  private readonly collections = new Map<string, { points: Map<string | number, MockPoint> }>();
+  private readonly collections = new Map<
+    string,
+    { params: MockCollectionParams; points: Map<string | number, MockPoint>; indexes: Record<string, unknown> }
+  >();
 
-  async createCollection(name: string): Promise<void> {
+  async createCollection(name: string, params: MockCollectionParams = {}): Promise<void> {
     if (!this.collections.has(name)) {
-      this.collections.set(name, { points: new Map() });
+      this.collections.set(name, { params, points: new Map(), indexes: {} });
     }
   }
 
-  async getCollection(name: string): Promise<{ points: number }> {
+  async getCollection(name: string): Promise<{
+    points: number;
+    config: { params: MockCollectionParams };
+    payload_schema: Record<string, unknown>;
+  }> {
     const collection = this.collections.get(name);
     if (!collection) {
       throw new Error('Collection not found');
     }
-    return { points: collection.points.size };
+    return {
+      points: collection.points.size,
+      config: { params: collection.params },
+      payload_schema: { ...collection.indexes },
+    };
   }
 
-  async createPayloadIndex(): Promise<void> {
-    // No-op for mock
+  async createPayloadIndex(name: string, params: { field_name: string; field_schema: unknown }): Promise<void> {
+    this.ensureCollection(name).indexes[params.field_name] = { data_type: params.field_schema };
   }
 
-  async upsert(
-    name: string,
-    payload: { points: Array<{ id: string | number; vector: number[]; payload: Record<string, unknown> }> },
-  ): Promise<void> {
+  async upsert(name: string, payload: { points: MockPoint[] }): Promise<void> {
     const collection = this.ensureCollection(name);
     for (const point of payload.points) {
       collection.points.set(point.id, { ...point });
@@ -47,7 +73,7 @@ class MockQdrantClient {
   async search(
     name: string,
     params: {
-      vector: number[];
+      vector: number[] | { name: string; vector: number[] | MockSparseVector };
       limit?: number;
       filter?: Record<string, unknown>;
       with_payload?: boolean;
@@ -55,15 +81,31 @@ class MockQdrantClient {
   ): Promise<Array<{ id: string | number; score: number; payload: Record<string, unknown> }>> {
     const collection = this.ensureCollection(name);
     const candidates = Array.from(collection.points.values()).filter((point) =>
-      this.matchesFilter(point.payload, params.filter),
+      this.matchesFilter(point, params.filter),
     );
+    const query = Array.isArray(params.vector) ? { name: 'dense', vector: params.vector } : params.vector;
 
     const scored = candidates
-      .map((point) => ({
-        id: point.id,
-        payload: point.payload,
-        score: this.cosineSimilarity(params.vector, point.vector),
-      }))
+      .flatMap((point) => {
+        const stored = Array.isArray(point.vector) ? point.vector : point.vector[query.name];
+        if (Array.isArray(query.vector)) {
+          const score = this.cosineSimilarity(query.vector, stored as number[]);
+          return [{ id: point.id, payload: point.payload, score }];
+        }
+        // Sparse search only returns points sharing at least one index with the query
+        const sparse = stored as MockSparseVector | undefined;
+        const shared = query.vector.indices.filter((index) => sparse?.indices.includes(index));
+        if (!sparse || shared.length === 0) {
+          return [];
+        }
+        const score = shared.reduce(
+          (sum, index) =>
+            sum +
+            query.vector.values[query.vector.indices.indexOf(index)] * sparse.values[sparse.indices.indexOf(index)],
+          0,
+        );
+        return [{ id: point.id, payload: point.payload, score }];
+      })
       .sort((a, b) => b.score - a.score);
 
     return scored.slice(0, params.limit ?? 5);
@@ -80,7 +122,7 @@ class MockQdrantClient {
   ): Promise<{ points: MockPoint[]; next_page_offset?: number }> {
     const collection = this.ensureCollection(name);
     const filtered = Array.from(collection.points.values()).filter((point) =>
-      this.matchesFilter(point.payload, params.filter),
+      this.matchesFilter(point, params.filter),
     );
 
     const start = params.offset ?? 0;
@@ -91,6 +133,24 @@ class MockQdrantClient {
     return { points: page, next_page_offset: next };
   }
 
+  async retrieve(name: string, params: { ids: Array<string | number> }): Promise<MockPoint[]> {
+    const collection = this.ensureCollection(name);
+    return params.ids.flatMap((id) => collection.points.get(id) ?? []);
+  }
+
+  async updateVectors(
+    name: string,
+    params: { points: Array<{ id: string | number; vector: MockVector }>; wait?: boolean },
+  ): Promise<void> {
+    const collection = this.ensureCollection(name);
+    for (const { id, vector } of params.points) {
+      const point = collection.points.get(id);
+      if (point) {
+        point.vector = Array.isArray(vector) || Array.isArray(point.vector) ? vector : { ...point.vector, ...vector };
+      }
+    }
+  }
+
   async deleteCollection(name: string): Promise<void> {
     this.collections.delete(name);
   }
@@ -112,7 +172,7 @@ class MockQdrantClient {
 
     if (params.filter) {
       for (const point of collection.points.values()) {
-        if (this.matchesFilter(point.payload, params.filter)) {
+        if (this.matchesFilter(point, params.filter)) {
           ids.add(point.id);
         }
       }
@@ -121,10 +181,22 @@ class MockQdrantClient {
     ids.forEach((id) => collection.points.delete(id));
   }
 
+  async setPayload(
+    name: string,
+    params: { payload: Record<string, unknown>; filter?: Record<string, unknown>; wait?: boolean },
+  ): Promise<void> {
+    const collection = this.ensureCollection(name);
+    for (const point of collection.points.values()) {
+      if (this.matchesFilter(point, params.filter)) {
+        point.payload = { ...point.payload, ...params.payload };
+      }
+    }
+  }
+
   async count(name: string, params: { filter?: Record<string, unknown> } = {}): Promise<{ count: number }> {
     const collection = this.ensureCollection(name);
     const filtered = Array.from(collection.points.values()).filter((point) =>
-      this.matchesFilter(point.payload, params.filter),
+      this.matchesFilter(point, params.filter),
     );
     return { count: filtered.length };
   }
@@ -137,24 +209,52 @@ class MockQdrantClient {
     return collection;
   }
 
-  private matchesFilter(payload: Record<string, unknown>, filter?: Record<string, unknown>): boolean {
-    if (!filter || !('must' in filter) || !Array.isArray(filter.must)) {
-      return true;
-    }
+  private matchesFilter(point: MockPoint, filter?: Record<string, unknown>): boolean {
+    const must = (filter?.must ?? []) as MockFilterRule[];
+    const should = (filter?.should ?? []) as MockFilterRule[];
+    const mustNot = (filter?.must_not ?? []) as MockFilterRule[];
+    return (
+      must.every((rule) => this.matchesRule(point, rule)) &&
+      (should.length === 0 || should.some((rule) => this.matchesRule(point, rule))) &&
+      !mustNot.some((rule) => this.matchesRule(point, rule))
+    );
+  }
 
-    return (filter.must as MockFilterRule[]).every((rule) => {
-      if ('match' in rule) {
-        return payload[rule.key] === rule.match.value;
-      }
-      if ('range' in rule) {
-        const value = typeof payload[rule.key] === 'number' ? (payload[rule.key] as number) : undefined;
-        if (value === undefined) return false;
-        const gte = rule.range.gte ?? Number.NEGATIVE_INFINITY;
-        const lte = rule.range.lte ?? Number.POSITIVE_INFINITY;
-        return value >= gte && value <= lte;
-      }
-      return true;
-    });
+  private matchesRule(point: MockPoint, rule: MockFilterRule): boolean {
+    const payload = point.payload;
+    // Keys address nested payload fields with dots ("metadata.documentType")
+    const lookup = (key: string): unknown =>
+      key.split('.').reduce<unknown>((value, part) => (value as Record<string, unknown> | undefined)?.[part], payload);
+    if ('has_id' in rule) {
+      return rule.has_id.includes(point.id);
+    }
+    if ('is_empty' in rule) {
+      const value = lookup(rule.is_empty.key);
+      return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+    }
+    if ('match' in rule) {
+      const raw = lookup(rule.key);
+      const values = Array.isArray(raw) ? (raw as unknown[]) : [raw];
+      const accepted: unknown[] = 'any' in rule.match ? rule.match.any : [rule.match.value];
+      return values.some((value) => accepted.includes(value));
+    }
+    if ('range' in rule) {
+      // Datetime ranges compare RFC 3339 strings, matching any element of array payloads;
+      // like Qdrant, numeric bounds never match datetime payloads
+      const raw = lookup(rule.key);
+      const values = (Array.isArray(raw) ? raw : [raw]).filter((value) => value !== undefined && value !== null);
+      const toNumber = (value: unknown) => (typeof value === 'string' ? Date.parse(value) : Number(value));
+      const comparable = (value: unknown, bound?: number | string) =>
+        bound === undefined || typeof value === typeof bound;
+      return values.some(
+        (value) =>
+          comparable(value, rule.range.gte) &&
+          comparable(value, rule.range.lte) &&
+          (rule.range.gte === undefined || toNumber(value) >= toNumber(rule.range.gte)) &&
+          (rule.range.lte === undefined || toNumber(value) <= toNumber(rule.range.lte)),
+      );
+    }
+    return true;
   }
 
   private cosineSimilarity(a: number[], b: number[]): number {
@@ -211,6 +311,18 @@ const createMetadata = (overrides: Record<string, unknown> = {}) => ({
   ...overrides,
 });
 
+const createDocument = (overrides: Partial<SEBIDocument> = {}): SEBIDocument => ({
+  id: 'doc-1',
+  circular_id: 'SEBI/HO/IMD/2024/001',
+  title: 'Sample Circular',
+  date: new Date('2024-01-15'),
+  category: 'mutual_funds',
+  content: 'Full circular text',
+  url: 'https://sebi.gov.in/circular',
+  metadata: {},
+  ...overrides,
+});
+
 type ChunkWithMetadata = SEBIChunk & { metadata: ReturnType<typeof createMetadata> };
 
 const withMetadata = (chunk: SEBIChunk, metadata: ReturnType<typeof createMetadata>): ChunkWithMetadata =>
@@ -231,6 +343,32 @@ describe('QdrantManager', () => {
     await expect(manager.initializeCollection()).resolves.toBeUndefined();
   });
 
+  it('sizes the collection for the embedding provider and rejects a different size', async () => {
+    await manager.initializeCollection(384);
+
+    const info = await mockClient.getCollection('sebi_test');
+    expect(info.config.params.vectors).toMatchObject({ dense: { size: 384 } });
+    expect(info.config.params.sparse_vectors).toHaveProperty('keywords');
+    await expect(manager.initializeCollection(3072)).rejects.toThrow(/384-dimensional/);
+  });
+
+  it('adds missing payload indexes to an existing collection', async () => {
+    await mockClient.createCollection('sebi_test', { vectors: { dense: { size: 8 } }, sparse_vectors: { keywords: {} } });
+    await mockClient.createPayloadIndex('sebi_test', { field_name: 'circular_id', field_schema: 'keyword' });
+    const createPayloadIndex = vi.spyOn(mockClient, 'createPayloadIndex');
+
+    await manager.initializeCollection(8);
+
+    const fields = createPayloadIndex.mock.calls.map(([, params]) => params.field_name);
+    expect(fields).toEqual(expect.arrayContaining(['section_paths', 'chunking_strategy', 'is_boilerplate']));
+    expect(fields).not.toContain('circular_id');
+    expect(createPayloadIndex).toHaveBeenCalledWith('sebi_test', { field_name: 'is_boilerplate', field_schema: 'bool' });
+
+    createPayloadIndex.mockClear();
+    await manager.initializeCollection(8);
+    expect(createPayloadIndex).not.toHaveBeenCalled();
+  });
+
   it('upserts chunks and returns success count', async () => {
     await manager.initializeCollection();
     const chunk = withMetadata(createChunk('1', 'Regulatory guidance on TER'), createMetadata());
@@ -272,6 +410,29 @@ describe('QdrantManager', () => {
     expect(results[0].chunk.content).toContain('TER');
   });
 
+  it('explains how hybrid search fused each result', async () => {
+    await manager.initializeCollection();
+    await manager.upsertChunks(
+      [
+        withMetadata(createChunk('1', 'TER limits for equity schemes'), createMetadata()),
+        withMetadata(createChunk('2', 'NAV disclosure'), createMetadata()),
+      ],
+      [createEmbedding(1), createEmbedding(0.5)],
+    );
+
+    const results = await manager.hybridSearch('TER equity', createEmbedding(1), 5, undefined, {
+      fusion: { method: 'dbsf', weights: { semantic: 0.6, keyword: 0.4 } },
+      explain: true,
+    });
+
+    const matched = results.find((result) => result.chunk.chunk_id === 'chunk-1');
+    expect(matched?.explanation?.method).toBe('dbsf');
+    expect(matched?.explanation?.legs.semantic?.rank).toBeGreaterThan(0);
+    expect(matched?.explanation?.legs.keyword).toMatchObject({ rank: 1, score: expect.any(Number) });
+    expect(matched?.explanation?.fusedScore).toBe(matched?.score);
+    expect(results.find((result) => result.chunk.chunk_id === 'chunk-2')?.explanation?.legs.keyword).toBeUndefined();
+  });
+
   it('fetches and deletes collection info', async () => {
     await manager.initializeCollection();
     await manager.deleteCollection();
@@ -296,6 +457,91 @@ describe('QdrantManager', () => {
     expect(filtered[0].document.circular_id).toBe('SEBI/HO/IMD/2024/010');
   });
 
+  it('combines value lists, exclusions and section prefixes in filters', async () => {
+    await manager.initializeCollection();
+    await manager.upsertDocumentChunks(
+      createDocument(),
+      [
+        createChunk('51', 'TER limits', { document_id: 'doc-1', section_hierarchy: ['Chapter 6', '6.1'] }),
+        createChunk('52', 'NAV disclosure', { document_id: 'doc-1', section_hierarchy: ['Chapter 7'] }),
+      ],
+      [createEmbedding(1), createEmbedding(1)],
+    );
+    await manager.upsertDocumentChunks(
+      createDocument({ id: 'doc-2', circular_id: 'SEBI/HO/MRD/2024/002', category: 'general' }),
+      [createChunk('53', 'Trading hours', { document_id: 'doc-2', section_hierarchy: ['Chapter 6'] })],
+      [createEmbedding(1)],
+    );
+    await manager.upsertDocumentChunks(
+      createDocument({ id: 'doc-3', circular_id: 'SEBI/HO/IMD/2023/003', category: 'portfolio_managers' }),
+      [createChunk('54', 'PMS fees', { document_id: 'doc-3', section_hierarchy: ['Chapter 6', '6.4'] })],
+      [createEmbedding(1)],
+    );
+    await manager.markSuperseded(['SEBI/HO/IMD/2023/003'], 'SEBI/HO/IMD/2024/001', new Date('2024-01-15'));
+
+    const ids = async (filters: SearchFilters) =>
+      (await manager.listChunks(filters)).map((result) => result.chunk.chunk_id).sort();
+
+    expect(await ids({ category: ['mutual_funds', 'portfolio_managers'], sectionPrefix: ['Chapter 6'] })).toEqual([
+      'chunk-51',
+      'chunk-54',
+    ]);
+    expect(await ids({ department: 'IMD', superseded: false })).toEqual(['chunk-51', 'chunk-52']);
+    const excluded = await ids({
+      sectionPrefix: ['Chapter 6'],
+      exclude: { department: 'MRD', sectionPrefix: ['Chapter 6', '6.4'] },
+    });
+    expect(excluded).toEqual(['chunk-51']);
+  });
+
+  it('filters by issue date and answers point-in-time queries', async () => {
+    await manager.initializeCollection();
+    const circulars = [
+      { id: 'doc-1', circular_id: 'SEBI/HO/IMD/2021/001', date: new Date('2021-03-01') },
+      { id: 'doc-2', circular_id: 'SEBI/HO/IMD/2022/002', date: new Date('2022-06-15') },
+      { id: 'doc-3', circular_id: 'SEBI/HO/IMD/2024/003', date: new Date('2024-02-01') },
+    ];
+    for (const [index, circular] of circulars.entries()) {
+      await manager.upsertDocumentChunks(
+        createDocument(circular),
+        [createChunk(String(61 + index), 'TER limits', { document_id: circular.id })],
+        [createEmbedding(1)],
+      );
+    }
+    await manager.markSuperseded(['SEBI/HO/IMD/2021/001'], 'SEBI/HO/IMD/2022/002', new Date('2022-06-15'));
+    await manager.markSuperseded(['SEBI/HO/IMD/2022/002'], 'SEBI/HO/IMD/2024/003', new Date('2024-02-01'));
+
+    const circularIds = async (filters: SearchFilters) =>
+      (await manager.listChunks(filters)).map((result) => result.document.circular_id).sort();
+
+    expect(await circularIds({ dateFrom: new Date('2022-01-01'), dateTo: new Date('2023-12-31') })).toEqual([
+      'SEBI/HO/IMD/2022/002',
+    ]);
+    expect(await circularIds({ asOf: new Date('2022-01-01') })).toEqual(['SEBI/HO/IMD/2021/001']);
+    expect(await circularIds({ asOf: new Date('2023-04-01') })).toEqual(['SEBI/HO/IMD/2022/002']);
+    expect(await circularIds({ asOf: new Date('2025-01-01') })).toEqual(['SEBI/HO/IMD/2024/003']);
+  });
+
+  it('finds a circular that supersedes another through its references', async () => {
+    await manager.initializeCollection();
+    await manager.upsertDocumentChunks(
+      createDocument({
+        id: 'doc-2',
+        circular_id: 'SEBI/HO/IMD/2024/002',
+        date: new Date('2024-05-01'),
+        metadata: { references: [{ circular_id: 'SEBI/HO/IMD/2021/001', relation: 'supersedes' }] },
+      }),
+      [createChunk('71', 'Revised TER limits', { document_id: 'doc-2' })],
+      [createEmbedding(1)],
+    );
+
+    expect(await manager.findRescindingCircular('SEBI/HO/IMD/2021/001')).toEqual({
+      circularId: 'SEBI/HO/IMD/2024/002',
+      date: new Date('2024-05-01'),
+    });
+    expect(await manager.findRescindingCircular('SEBI/HO/IMD/2022/009')).toBeNull();
+  });
+
   it('deletes chunks by circular id', async () => {
     await manager.initializeCollection();
     const chunk = withMetadata(createChunk('3', 'NAV policy update'), createMetadata());
@@ -307,4 +553,430 @@ describe('QdrantManager', () => {
     const remaining = await manager.listChunks();
     expect(remaining).toHaveLength(0);
   });
+
+  it('upserts chunks with their parent document metadata', async () => {
+    await manager.initializeCollection();
+    const document = createDocument({
+      id: 'doc-reit',
+      circular_id: 'SEBI/HO/DDHS/2024/042',
+      category: 'reits',
+      categories: ['reits', 'invits'],
+      language: 'hi',
+      title: 'REIT Valuation Norms',
+      url: 'https://sebi.gov.in/reit',
+    });
+    const chunk = createChunk('4', 'Valuation of REIT assets', {
+      document_id: 'doc-reit',
+      section_hierarchy: ['2 Valuation', '2.1 Frequency'],
+      page_start: 3,
+      page_end: 4,
+    });
+
+    const count = await manager.upsertDocumentChunks(document, [chunk], [createEmbedding(1)]);
+    expect(count).toBe(1);
+
+    const results = await manager.listChunks({ category: 'reits', circularId: 'SEBI/HO/DDHS/2024/042' });
+    expect(results).toHaveLength(1);
+    expect(results[0].document).toMatchObject({
+      id: 'doc-reit',
+      circular_id: 'SEBI/HO/DDHS/2024/042',
+      category: 'reits',
+      title: 'REIT Valuation Norms',
+      url: 'https://sebi.gov.in/reit',
+      chapter: '2 Valuation',
+      section: '2.1 Frequency',
+      content: 'Valuation of REIT assets',
+    });
+    expect(results[0].document.date.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(results[0].document.categories).toEqual(['reits', 'invits']);
+    expect(results[0].document.language).toBe('hi');
+    expect(await manager.listChunks({ categories: ['invits'] })).toHaveLength(1);
+    expect(await manager.listChunks({ category: 'invits' })).toHaveLength(0);
+    expect(await manager.listChunks({ language: 'en' })).toHaveLength(0);
+    expect(await manager.listChunks({ circularId: 'sebi/ho/ddhs/ 2024/042' })).toHaveLength(1);
+    expect(results[0].chunk).toMatchObject({ page_start: 3, page_end: 4 });
+
+    const { points } = await mockClient.scroll('sebi_test', {});
+    expect(points[0].payload).toMatchObject({ page_start: 3, page_end: 4, department: 'DDHS' });
+  });
+
+  it('rejects chunks that belong to another document', async () => {
+    await manager.initializeCollection();
+    const chunk = createChunk('5', 'Unrelated content', { document_id: 'doc-other' });
+
+    await expect(
+      manager.upsertDocumentChunks(createDocument(), [chunk], [createEmbedding(1)]),
+    ).rejects.toThrow('does not belong to document');
+  });
+
+  it('returns each parent span once for matching child chunks', async () => {
+    await manager.initializeCollection();
+    const parent = createChunk('100', 'Chapter 2 on TER: limits, disclosure and charging of expenses.', {
+      chunk_id: 'doc-1-parent-0',
+      document_id: 'doc-1',
+      chunk_tier: 'parent',
+    });
+    const children = [
+      createChunk('1', 'TER limits', { document_id: 'doc-1', chunk_tier: 'child', parent_id: 'doc-1-parent-0' }),
+      createChunk('2', 'TER disclosure', { document_id: 'doc-1', chunk_tier: 'child', parent_id: 'doc-1-parent-0' }),
+      createChunk('3', 'Unrelated', { document_id: 'doc-1' }),
+    ];
+
+    const embeddings = [createEmbedding(1), createEmbedding(0.9), [-1, 0, 0, 0, 0, 0, 0, 1]];
+
+    await expect(manager.upsertDocumentChunks(createDocument(), children, embeddings)).rejects.toThrow(
+      'Parent chunk doc-1-parent-0',
+    );
+
+    await manager.upsertDocumentChunks(createDocument(), children, embeddings, [parent]);
+    const results = await manager.searchParents(createEmbedding(1), undefined, 5);
+
+    expect(results).toHaveLength(2);
+    expect(results[0].parent?.content).toBe(parent.content);
+    expect(results[0].children?.map((child) => child.chunk.chunk_id).sort()).toEqual(['chunk-1', 'chunk-2']);
+    expect(results[1].parent).toBeUndefined();
+    expect(results[1].chunk.chunk_id).toBe('chunk-3');
+  });
+
+  it('replaces vectors without touching payloads or storing embeddings in them', async () => {
+    await manager.initializeCollection();
+    const chunk = createChunk('7', 'TER limits', { document_id: 'doc-1', embedding: createEmbedding(1) });
+    await manager.upsertDocumentChunks(createDocument(), [chunk], [createEmbedding(1)]);
+    await manager.markSuperseded(['SEBI/HO/IMD/2024/001'], 'SEBI/HO/IMD/2024/002', new Date('2024-06-01'));
+
+    await manager.updateVectors([chunk], [[-1, -2, -3, -4, -5, -6, -7, -8]]);
+
+    const [result] = await manager.semanticSearch([-1, -2, -3, -4, -5, -6, -7, -8], undefined, 1);
+    expect(result.score).toBeCloseTo(1);
+    expect(result.chunk.embedding).toBeUndefined();
+    expect((await manager.listChunks())[0].document.circular_id).toBe('SEBI/HO/IMD/2024/001');
+    const [point] = (await mockClient.scroll('sebi_test', {})).points;
+    expect(point.payload.superseded_by).toBe('SEBI/HO/IMD/2024/002');
+  });
+
+  it('marks rescinded circulars as superseded and finds the rescinding master', async () => {
+    await manager.initializeCollection();
+    const oldCircular = createDocument({ id: 'doc-old', circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2019/17' });
+    const master = createDocument({
+      id: 'doc-master',
+      circular_id: 'SEBI/HO/IMD/IMD-PoD-1/P/CIR/2024/90',
+      date: new Date('2024-06-27'),
+      metadata: {
+        documentType: 'master_circular',
+        rescindedCirculars: ['SEBI/HO/IMD/DF2/CIR/P/2019/17'],
+      },
+    });
+
+    await manager.upsertDocumentChunks(
+      oldCircular,
+      [createChunk('6', 'Old TER rules', { document_id: 'doc-old' })],
+      [createEmbedding(1)],
+    );
+    await manager.upsertDocumentChunks(
+      master,
+      [createChunk('7', 'Consolidated TER rules', { document_id: 'doc-master' })],
+      [createEmbedding(1)],
+    );
+
+    const updated = await manager.markSuperseded(
+      ['SEBI/HO/IMD/DF2/CIR/P/2019/17'],
+      master.circular_id,
+      master.date,
+    );
+    expect(updated).toBe(1);
+
+    const rescinding = await manager.findRescindingCircular('SEBI/HO/IMD/DF2/CIR/P/2019/17');
+    // Identifiers are stored in canonical (upper case) form
+    expect(rescinding).toEqual({ circularId: 'SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90', date: master.date });
+    await expect(manager.findRescindingCircular('SEBI/HO/IMD/2024/001')).resolves.toBeNull();
+
+    const [stored] = await mockClient.scroll('sebi_test', {
+      filter: { must: [{ key: 'circular_id', match: { value: 'SEBI/HO/IMD/DF2/CIR/P/2019/17' } }] },
+    }).then((response) => response.points);
+    expect(stored.payload).toMatchObject({
+      superseded_by: 'SEBI/HO/IMD/IMD-POD-1/P/CIR/2024/90',
+      superseded_on: '2024-06-27T00:00:00.000Z',
+    });
+  });
+
+  it('queries the citation graph stored on chunk payloads', async () => {
+    await manager.initializeCollection();
+    const amending = createDocument({
+      id: 'doc-amending',
+      circular_id: 'SEBI/HO/IMD/2024/101',
+      metadata: {
+        references: [
+          { circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2019/17', relation: 'modifies' },
+          { circular_id: 'SEBI/HO/IMD/DF3/CIR/P/2018/137', relation: 'refers_to' },
+        ],
+      },
+    });
+    const citing = createDocument({
+      id: 'doc-citing',
+      circular_id: 'SEBI/HO/IMD/2024/102',
+      metadata: { references: [{ circular_id: 'SEBI/HO/IMD/DF2/CIR/P/2019/17', relation: 'refers_to' }] },
+    });
+
+    await manager.upsertDocumentChunks(
+      amending,
+      [
+        createChunk('8', 'Revised TER limits', { document_id: 'doc-amending' }),
+        createChunk('9', 'Applicability', { document_id: 'doc-amending' }),
+      ],
+      [createEmbedding(1), createEmbedding(0.5)],
+    );
+    await manager.upsertDocumentChunks(
+      citing,
+      [createChunk('10', 'Reporting format', { document_id: 'doc-citing' })],
+      [createEmbedding(1)],
+    );
+
+    const amendments = await manager.findReferencingCirculars('SEBI/HO/IMD/DF2/CIR/P/2019/17', ['modifies']);
+    expect(amendments).toEqual([
+      { from: 'SEBI/HO/IMD/2024/101', to: 'SEBI/HO/IMD/DF2/CIR/P/2019/17', relation: 'modifies' },
+    ]);
+
+    const allCitations = await manager.findReferencingCirculars('SEBI/HO/IMD/DF2/CIR/P/2019/17');
+    expect(allCitations.map((edge) => edge.from).sort()).toEqual([
+      'SEBI/HO/IMD/2024/101',
+      'SEBI/HO/IMD/2024/102',
+    ]);
+
+    const dependencies = await manager.getCircularReferences('SEBI/HO/IMD/2024/101');
+    expect(dependencies.map((edge) => edge.to)).toEqual([
+      'SEBI/HO/IMD/DF2/CIR/P/2019/17',
+      'SEBI/HO/IMD/DF3/CIR/P/2018/137',
+    ]);
+  });
+
+  it('filters chunks by upcoming compliance deadlines and effective dates', async () => {
+    await manager.initializeCollection();
+    const dueSoon = createDocument({
+      id: 'doc-due-soon',
+      circular_id: 'SEBI/HO/IMD/2024/201',
+      metadata: {
+        complianceDates: [
+          { kind: 'effective', date: '2024-04-01T00:00:00.000Z', text: 'with effect from April 1, 2024', relative: false },
+          { kind: 'deadline', date: '2024-06-30T00:00:00.000Z', text: 'by June 30, 2024', relative: false },
+        ],
+      },
+    });
+    const dueLater = createDocument({
+      id: 'doc-due-later',
+      circular_id: 'SEBI/HO/IMD/2024/202',
+      metadata: {
+        complianceDates: [
+          { kind: 'deadline', date: '2025-03-31T00:00:00.000Z', text: 'by March 31, 2025', relative: false },
+        ],
+      },
+    });
+
+    await manager.upsertDocumentChunks(
+      dueSoon,
+      [createChunk('11', 'Disclosure requirements', { document_id: 'doc-due-soon' })],
+      [createEmbedding(1)],
+    );
+    await manager.upsertDocumentChunks(
+      dueLater,
+      [createChunk('12', 'Reporting requirements', { document_id: 'doc-due-later' })],
+      [createEmbedding(1)],
+    );
+
+    const { points } = await mockClient.scroll('sebi_test', {});
+    expect(points.find((point) => point.id === 'chunk-11')?.payload).toMatchObject({
+      effective_date: '2024-04-01T00:00:00.000Z',
+      deadline_dates: ['2024-06-30T00:00:00.000Z'],
+    });
+
+    const now = new Date('2024-06-01T00:00:00.000Z');
+    const nextSixtyDays = await manager.listChunks({
+      deadlineFrom: now,
+      deadlineTo: new Date(now.getTime() + 60 * 24 * 60 * 60 * 1000),
+    });
+    expect(nextSixtyDays.map((result) => result.document.circular_id)).toEqual(['SEBI/HO/IMD/2024/201']);
+
+    const effective = await manager.semanticSearch(createEmbedding(1), { effectiveTo: now }, 10);
+    expect(effective.map((result) => result.chunk.chunk_id)).toEqual(['chunk-11']);
+  });
+
+  it('demotes or excludes boilerplate chunks in search', async () => {
+    await manager.initializeCollection();
+    const document = createDocument();
+    await manager.upsertDocumentChunks(
+      document,
+      [
+        createChunk('21', 'This circular is issued in exercise of powers conferred under Section 11(1)', {
+          document_id: 'doc-1',
+          is_boilerplate: true,
+        }),
+        createChunk('22', 'TER limits for equity schemes', { document_id: 'doc-1' }),
+        createChunk('23', 'Yours faithfully', { document_id: 'doc-1' }),
+      ],
+      [createEmbedding(1), [1, 2, 3, 4, 5, 6, 7, 9], [1, 2, 3, 4, 5, 6, 9, 9]],
+    );
+    await manager.markBoilerplate(['chunk-23']);
+
+    const included = await manager.semanticSearch(createEmbedding(1), { boilerplate: 'include' }, 3);
+    expect(included[0].chunk.chunk_id).toBe('chunk-21');
+
+    const demoted = await manager.semanticSearch(createEmbedding(1), undefined, 3);
+    expect(demoted.map((result) => result.chunk.chunk_id)).toEqual(['chunk-22', 'chunk-21', 'chunk-23']);
+    expect(demoted[2].chunk.is_boilerplate).toBe(true);
+
+    const excluded = await manager.hybridSearch('section 11 TER', createEmbedding(1), 5, { boilerplate: 'exclude' });
+    expect(excluded.map((result) => result.chunk.chunk_id)).toEqual(['chunk-22']);
+  });
+
+  it('reranks over-fetched hybrid candidates down to the limit', async () => {
+    await manager.initializeCollection();
+    const chunks = ['NAV disclosure', 'TER limits for equity schemes', 'REIT voting', 'TER for index funds'].map(
+      (content, index) => createChunk(String(41 + index), content, { document_id: 'doc-1' }),
+    );
+    await manager.upsertDocumentChunks(
+      createDocument(),
+      chunks,
+      chunks.map(() => createEmbedding(1)),
+    );
+
+    const score = vi.fn(async (_query: string, candidates: SearchResult[]) =>
+      candidates.map((candidate) => (candidate.chunk.chunk_id === 'chunk-44' ? 1 : 0)),
+    );
+    const results = await manager.hybridSearch('TER', createEmbedding(1), 1, undefined, {
+      reranker: { name: 'test', score },
+      rerankCandidates: 4,
+    });
+
+    expect(score.mock.calls[0][1]).toHaveLength(4);
+    expect(results).toHaveLength(1);
+    expect(results[0].chunk.chunk_id).toBe('chunk-44');
+    expect(results[0].rerank).toMatchObject({ reranker: 'test', postScore: 1, preRank: expect.any(Number) });
+
+    const failing = { name: 'failing', score: async () => Promise.reject(new Error('timeout')) };
+    const fallback = await manager.hybridSearch('TER', createEmbedding(1), 2, undefined, { reranker: failing });
+    expect(fallback).toHaveLength(2);
+    expect(fallback[0].rerank).toBeUndefined();
+  });
+
+  it('demotes boilerplate after reranking hybrid candidates', async () => {
+    await manager.initializeCollection();
+    const chunks = [
+      createChunk('51', 'TER limits for equity schemes', { document_id: 'doc-1', is_boilerplate: true }),
+      createChunk('52', 'TER for index funds', { document_id: 'doc-1' }),
+    ];
+    await manager.upsertDocumentChunks(
+      createDocument(),
+      chunks,
+      chunks.map(() => createEmbedding(1)),
+    );
+    const reranker = {
+      name: 'test',
+      score: async (_query: string, candidates: SearchResult[]) =>
+        candidates.map((candidate) => (candidate.chunk.chunk_id === 'chunk-51' ? 1 : 0.8)),
+    };
+
+    const demoted = await manager.hybridSearch('TER', createEmbedding(1), 2, undefined, { reranker });
+    expect(demoted.map((result) => result.chunk.chunk_id)).toEqual(['chunk-52', 'chunk-51']);
+    expect(demoted[1].score).toBe(0.5);
+    expect(demoted[1].rerank).toMatchObject({ postScore: 0.5 });
+
+    const included = await manager.hybridSearch('TER', createEmbedding(1), 2, { boilerplate: 'include' }, { reranker });
+    expect(included.map((result) => result.chunk.chunk_id)).toEqual(['chunk-51', 'chunk-52']);
+  });
+
+  it('fuses raw leg scores and demotes boilerplate once, after fusion', async () => {
+    await manager.initializeCollection();
+    const chunks = [
+      createChunk('61', 'TER limits for equity schemes', { document_id: 'doc-1', is_boilerplate: true }),
+      createChunk('62', 'TER for index funds', { document_id: 'doc-1' }),
+    ];
+    await manager.upsertDocumentChunks(
+      createDocument(),
+      chunks,
+      chunks.map(() => createEmbedding(1)),
+    );
+
+    const [raw] = await manager.semanticSearch(createEmbedding(1), { boilerplate: 'include' }, 1);
+    const results = await manager.hybridSearch('TER', createEmbedding(1), 2, undefined, {
+      explain: true,
+      fusion: { method: 'minmax' },
+    });
+    const boilerplate = results.find((result) => result.chunk.chunk_id === 'chunk-61');
+
+    expect(boilerplate?.explanation?.legs.semantic?.score).toBe(raw.score);
+    expect(boilerplate?.score).toBeCloseTo((boilerplate?.explanation?.fusedScore ?? 0) * 0.5);
+    expect(results[0].chunk.chunk_id).toBe('chunk-62');
+  });
+
+  it('searches keywords against sparse vectors instead of scanning the collection', async () => {
+    await manager.initializeCollection();
+    const document = createDocument();
+    await manager.upsertDocumentChunks(
+      document,
+      [
+        createChunk('31', 'TER limits for equity schemes', { document_id: 'doc-1' }),
+        createChunk('32', 'Disclosure requirements for NAV', { document_id: 'doc-1' }),
+        createChunk('33', 'REIT unit holders may vote', { document_id: 'doc-1' }),
+      ],
+      [createEmbedding(1), createEmbedding(1), createEmbedding(1)],
+    );
+
+    const [point] = (await mockClient.scroll('sebi_test', {})).points;
+    expect(point.vector).toMatchObject({ dense: createEmbedding(1), keywords: { indices: expect.any(Array) } });
+
+    const scroll = vi.spyOn(mockClient, 'scroll');
+    const search = vi.spyOn(mockClient, 'search');
+    const results = await manager.hybridSearch('NAV disclosure', [8, 7, 6, 5, 4, 3, 2, 1], 3);
+
+    expect(scroll).not.toHaveBeenCalled();
+    expect(search.mock.calls.map(([, params]) => (params.vector as { name: string }).name).sort()).toEqual([
+      'dense',
+      'keywords',
+    ]);
+    expect(results[0].chunk.chunk_id).toBe('chunk-32');
+  });
+
+  it('keeps keyword statistics in the vocabulary file between runs', async () => {
+    const vocabularyPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'sebi-vocabulary-')), 'test.json');
+    const persistent = new QdrantManager({ ...config, vocabularyPath }, mockClient as unknown as ManagerClient);
+    await persistent.initializeCollection();
+    await persistent.upsertChunks(
+      [
+        withMetadata(createChunk('1', 'TER limits for equity schemes'), createMetadata()),
+        withMetadata(
+          createChunk('2', 'NAV disclosure'),
+          createMetadata({ circular_id: 'SEBI/HO/IMD/2024/002' }),
+        ),
+      ],
+      [createEmbedding(1), createEmbedding(1)],
+    );
+    await persistent.deleteChunksByCircularId('SEBI/HO/IMD/2024/002');
+
+    const saved = JSON.parse(await fs.readFile(vocabularyPath, 'utf8'));
+    expect(saved).toMatchObject({ collection: 'sebi_test', documentCount: 1 });
+    expect(saved.documentFrequency).not.toHaveProperty('nav');
+
+    const restarted = new QdrantManager({ ...config, vocabularyPath }, mockClient as unknown as ManagerClient);
+    const scroll = vi.spyOn(mockClient, 'scroll');
+    const results = await restarted.hybridSearch('equity TER', createEmbedding(1), 3);
+
+    expect(scroll).not.toHaveBeenCalled();
+    expect(results.map((result) => result.chunk.chunk_id)).toEqual(['chunk-1']);
+  });
+
+  it('scans the collection for keyword search when it has no sparse vectors', async () => {
+    await mockClient.createCollection('sebi_test', { vectors: { size: 8 } });
+    await manager.upsertChunks(
+      [withMetadata(createChunk('1', 'TER limits for equity schemes'), createMetadata())],
+      [createEmbedding(1)],
+    );
+
+    const [point] = (await mockClient.scroll('sebi_test', {})).points;
+    expect(point.vector).toEqual(createEmbedding(1));
+
+    const scroll = vi.spyOn(mockClient, 'scroll');
+    const results = await manager.hybridSearch('equity', createEmbedding(1), 3);
+
+    expect(scroll).toHaveBeenCalled();
+    expect(results[0].chunk.chunk_id).toBe('chunk-1');
+  });
 });
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LexicalReranker, LLMReranker, rerankResults } from '../../src/corpus/rerankers.js';
+
+import type { SearchResult } from '../../src/corpus/qdrant-client.js';
+
+const invokeMock = vi.fn<(prompt: string) => Promise<{ content: string }>>();
+
+vi.mock('@langchain/openai', () => ({
+  ChatOpenAI: class {
+    invoke = invokeMock;
+  },
+}));
+
+const createResult = (id: number, content: string, score = 0.5): SearchResult => ({
+  score,
+  chunk: {
+    chunk_id: `chunk-${id}`,
+    document_id: 'doc-1',
+    chunk_index: id,
+    content,
+    tokens: content.split(' ').length,
+    section_hierarchy: ['Chapter 3'],
+  },
+  document: {
+    id: 'doc-1',
+    circular_id: 'SEBI/HO/IMD/2024/001',
+    title: 'Total Expense Ratio',
+    category: 'mutual_funds',
+    content,
+    url: 'https://www.sebi.gov.in/test',
+    metadata: {},
+  },
+});
+
+describe('LexicalReranker', () => {
+  it('prefers chunks with the query terms close together and in order', async () => {
+    const reranker = new LexicalReranker();
+    const scores = await reranker.score('total expense ratio of the scheme', [
+      createResult(1, 'The ratio of total assets to expense items in a scheme is reported annually.'),
+      createResult(2, 'The total expense ratio charged to the scheme shall not exceed 2.25 per cent.'),
+      createResult(3, 'Units of a REIT shall be listed on a recognised stock exchange.'),
+    ]);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+    expect(scores[0]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('matches Hindi query terms as whole words', async () => {
+    const reranker = new LexicalReranker();
+    const scores = await reranker.score('सेबी परिपत्र', [
+      createResult(1, 'सेबी का परिपत्र म्यूचुअल फंड योजनाओं पर लागू है।'),
+      createResult(2, 'पत्र की सूची संलग्न है।'),
+    ]);
+
+    expect(scores[0]).toBeGreaterThan(0);
+    expect(scores[1]).toBe(0);
+  });
+});
+
+describe('rerankResults', () => {
+  it('reorders results by reranker score and records the scores before and after', async () => {
+    const results = [createResult(1, 'NAV disclosure', 0.9), createResult(2, 'TER limits', 0.8), createResult(3, 'TER caps', 0.7)];
+    const reranker = { name: 'fixed', score: async () => [0.1, 0.9, 0.9] };
+
+    const reranked = await rerankResults(reranker, 'TER', results, 2);
+
+    expect(reranked.map((result) => result.chunk.chunk_id)).toEqual(['chunk-2', 'chunk-3']);
+    expect(reranked[0].score).toBe(0.9);
+    expect(reranked[0].rerank).toEqual({ reranker: 'fixed', preScore: 0.8, preRank: 2, postScore: 0.9 });
+    await expect(rerankResults({ name: 'short', score: async () => [1] }, 'TER', results)).rejects.toThrow(
+      'returned 1 scores for 3 results',
+    );
+  });
+});
+
+describe('LLMReranker', () => {
+  beforeEach(() => {
+    invokeMock.mockReset();
+  });
+
+  it('grades passages with the chat model in batches', async () => {
+    invokeMock.mockResolvedValueOnce({ content: 'Grades: [2, 10]' }).mockResolvedValueOnce({ content: '[7]' });
+    const reranker = new LLMReranker('test-key', { batchSize: 2 });
+
+    const scores = await reranker.score('TER limit', [
+      createResult(1, 'NAV disclosure'),
+      createResult(2, 'TER limit of 2.25 per cent'),
+      createResult(3, 'TER for index funds'),
+    ]);
+
+    expect(scores).toEqual([0.2, 1, 0.7]);
+    expect(invokeMock).toHaveBeenCalledTimes(2);
+    expect(invokeMock.mock.calls[0][0]).toContain('Query: TER limit');
+    expect(invokeMock.mock.calls[0][0]).toContain('[2] (SEBI/HO/IMD/2024/001, Total Expense Ratio)');
+  });
+
+  it('rejects replies without one grade per passage', async () => {
+    invokeMock.mockResolvedValue({ content: 'The second passage is most relevant.' });
+    const reranker = new LLMReranker('test-key');
+
+    await expect(reranker.score('TER', [createResult(1, 'NAV'), createResult(2, 'TER')])).rejects.toThrow(
+      'could not read 2 grades',
+    );
+    expect(() => new LLMReranker('')).toThrow('OpenAI API key is required');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildQdrantFilter, sectionPathPrefixes } from '../../src/corpus/search-filters.js';
+
+describe('buildQdrantFilter', () => {
+  it('returns undefined when nothing is filtered', () => {
+    expect(buildQdrantFilter()).toBeUndefined();
+    expect(buildQdrantFilter({})).toBeUndefined();
+    expect(buildQdrantFilter({ category: [], boilerplate: 'demote' })).toBeUndefined();
+  });
+
+  it('matches single values exactly and value lists by any', () => {
+    expect(
+      buildQdrantFilter({
+        category: ['mutual_funds', 'portfolio_managers'],
+        department: 'IMD',
+        documentType: 'master_circular',
+        circularId: ['SEBI/HO/IMD/2024/001', 'sebi/ho/mrd/2023/7'],
+      }),
+    ).toEqual({
+      must: [
+        { key: 'category', match: { any: ['mutual_funds', 'portfolio_managers'] } },
+        { key: 'circular_id', match: { any: ['SEBI/HO/IMD/2024/001', 'SEBI/HO/MRD/2023/7'] } },
+        { key: 'department', match: { value: 'IMD' } },
+        { key: 'document_type', match: { value: 'master_circular' } },
+      ],
+    });
+  });
+
+  it('matches section prefixes and document metadata keys', () => {
+    expect(
+      buildQdrantFilter({ sectionPrefix: ['Chapter 6', '6.2'], metadata: { pageCount: 12, tags: ['ter', 'nav'] } }),
+    ).toEqual({
+      must: [
+        { key: 'section_paths', match: { value: 'Chapter 6 > 6.2' } },
+        { key: 'metadata.pageCount', match: { value: 12 } },
+        { key: 'metadata.tags', match: { any: ['ter', 'nav'] } },
+      ],
+    });
+  });
+
+  it('puts exclusions, superseded circulars and boilerplate under must_not', () => {
+    expect(
+      buildQdrantFilter({
+        exclude: { category: 'reits', department: ['MRD', 'CFD'] },
+        superseded: false,
+        boilerplate: 'exclude',
+      }),
+    ).toEqual({
+      must: [{ is_empty: { key: 'superseded_by' } }],
+      must_not: [
+        { key: 'category', match: { value: 'reits' } },
+        { key: 'department', match: { any: ['MRD', 'CFD'] } },
+        { key: 'is_boilerplate', match: { value: true } },
+      ],
+    });
+
+    expect(buildQdrantFilter({ superseded: true })).toEqual({ must_not: [{ is_empty: { key: 'superseded_by' } }] });
+  });
+});
+
+describe('buildQdrantFilter dates', () => {
+  it('compares issue dates as RFC 3339 strings for the datetime index', () => {
+    expect(buildQdrantFilter({ dateFrom: new Date('2023-01-01'), dateTo: new Date('2023-12-31') })).toEqual({
+      must: [{ key: 'date', range: { gte: '2023-01-01T00:00:00.000Z', lte: '2023-12-31T00:00:00.000Z' } }],
+    });
+  });
+
+  it('keeps circulars issued and not yet superseded on the as-of date', () => {
+    expect(buildQdrantFilter({ asOf: new Date('2023-04-01') })).toEqual({
+      must: [{ key: 'date', range: { lte: '2023-04-01T00:00:00.000Z' } }],
+      must_not: [{ key: 'superseded_on', range: { lte: '2023-04-01T00:00:00.000Z' } }],
+    });
+  });
+});
+
+describe('sectionPathPrefixes', () => {
+  it('lists every leading path of a hierarchy', () => {
+    expect(sectionPathPrefixes(['Chapter 6', '6.2', '(a)'])).toEqual([
+      'Chapter 6',
+      'Chapter 6 > 6.2',
+      'Chapter 6 > 6.2 > (a)',
+    ]);
+    expect(sectionPathPrefixes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+import { keywordTerms, KeywordVocabulary, type SparseVector } from '../../src/corpus/sparse-vectors.js';
+
+const CHUNKS = [
+  'The total expense ratio of equity schemes shall not exceed 2.25 per cent.',
+  'Asset management companies shall disclose the NAV of every scheme daily.',
+  'Units of a REIT shall be listed on a recognised stock exchange.',
+];
+
+const dot = (a: SparseVector, b: SparseVector): number =>
+  a.indices.reduce((sum, index, i) => {
+    const j = b.indices.indexOf(index);
+    return j === -1 ? sum : sum + a.values[i] * b.values[j];
+  }, 0);
+
+describe('keywordTerms', () => {
+  it('keeps combining marks within Devanagari words', () => {
+    expect(keywordTerms('सेबी परिपत्र')).toEqual(['सेबी', 'परिपत्र']);
+  });
+});
+
+describe('KeywordVocabulary', () => {
+  it('scores chunks by BM25 through the dot product of document and query vectors', () => {
+    const vocabulary = new KeywordVocabulary('test');
+    CHUNKS.forEach((chunk) => vocabulary.add(chunk));
+
+    const query = vocabulary.encodeQuery('total expense ratio NAV');
+    const scores = CHUNKS.map((chunk) => dot(vocabulary.encodeDocument(chunk), query));
+
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[2]).toBe(0);
+    expect(vocabulary.encodeQuery('insider trading').indices).toEqual([]);
+  });
+
+  it('matches Hindi terms as whole words', () => {
+    const vocabulary = new KeywordVocabulary('test');
+    const chunks = ['सेबी का परिपत्र', 'पत्र की सूची', 'म्यूचुअल फंड योजनाएं'];
+    chunks.forEach((chunk) => vocabulary.add(chunk));
+
+    const query = vocabulary.encodeQuery('परिपत्र');
+    const scores = chunks.map((chunk) => dot(vocabulary.encodeDocument(chunk), query));
+
+    expect(scores[0]).toBeGreaterThan(0);
+    expect(scores.slice(1)).toEqual([0, 0]);
+  });
+
+  it('forgets removed chunks', () => {
+    const vocabulary = new KeywordVocabulary('test');
+    vocabulary.add(CHUNKS[0]);
+    const before = vocabulary.toSnapshot();
+
+    vocabulary.add(CHUNKS[1]);
+    vocabulary.remove(CHUNKS[1]);
+
+    expect(vocabulary.toSnapshot()).toEqual(before);
+  });
+
+  it('saves and loads the statistics of its collection only', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'sebi-vocabulary-')), 'vocabulary.json');
+    const vocabulary = new KeywordVocabulary('sebi_regulations');
+    CHUNKS.forEach((chunk) => vocabulary.add(chunk));
+    await vocabulary.save(file);
+
+    const loaded = await KeywordVocabulary.load(file, 'sebi_regulations');
+    expect(loaded?.toSnapshot()).toEqual(vocabulary.toSnapshot());
+    expect(await KeywordVocabulary.load(file, 'other_collection')).toBeNull();
+    expect(await KeywordVocabulary.load(`${file}.missing`, 'sebi_regulations')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractTables, renderTable } from '../../src/corpus/tables.js';
+
+const TER_ANNEXURE = [
+  'Annexure A',
+  'Table 1: TER slabs for equity oriented schemes',
+  'Daily net assets\tMaximum TER',
+  'First Rs. 500 crore\t2.25%',
+  'Next Rs. 250 crore\t2.00%',
+  'Next Rs. 1,250 crore\t1.75%',
+  'The above limits include GST on investment management fees.',
+].join('\n');
+
+describe('extractTables', () => {
+  it('should lift tab-delimited regions into structured rows', () => {
+    const { tables } = extractTables(TER_ANNEXURE);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0]).toEqual({
+      id: 'T1',
+      caption: 'Table 1: TER slabs for equity oriented schemes',
+      header: ['Daily net assets', 'Maximum TER'],
+      rows: [
+        ['First Rs. 500 crore', '2.25%'],
+        ['Next Rs. 250 crore', '2.00%'],
+        ['Next Rs. 1,250 crore', '1.75%'],
+      ],
+    });
+  });
+
+  it('should replace the table region with a marker line', () => {
+    const { text } = extractTables(TER_ANNEXURE);
+
+    expect(text.split('\n')).toEqual([
+      'Annexure A',
+      'Table 1: TER slabs for equity oriented schemes',
+      '[Table T1]',
+      'The above limits include GST on investment management fees.',
+    ]);
+  });
+
+  it('should pad short rows to the widest row', () => {
+    const { text, tables } = extractTables('Intro text\nScheme\tTER\tExit load\nLiquid\t0.20%\nBody text');
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].caption).toBeUndefined();
+    expect(tables[0].header).toEqual(['Scheme', 'TER', 'Exit load']);
+    expect(tables[0].rows).toEqual([['Liquid', '0.20%', '']]);
+    expect(text).toBe('Intro text\n[Table T1]\nBody text');
+  });
+
+  it('should keep a table that continues onto the next page as one table', () => {
+    const { text, tables } = extractTables(
+      [
+        'Table 1: TER slabs',
+        'Daily net assets\tMaximum TER',
+        'First Rs. 500 crore\t2.25%',
+        'Next Rs. 250 crore\t2.00%',
+        '\f',
+        'Daily net assets\tMaximum TER',
+        'Next Rs. 1,250 crore\t1.75%',
+        'GST is additional.',
+      ].join('\n'),
+    );
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows).toEqual([
+      ['First Rs. 500 crore', '2.25%'],
+      ['Next Rs. 250 crore', '2.00%'],
+      ['Next Rs. 1,250 crore', '1.75%'],
+    ]);
+    expect(text).toBe('Table 1: TER slabs\n[Table T1]\n\f\nGST is additional.');
+  });
+
+  it('should leave text without tables untouched', () => {
+    const text = 'Para 1\nSingle\tline with a tab\nMore text';
+    expect(extractTables(text)).toEqual({ text, tables: [] });
+  });
+});
+
+describe('renderTable', () => {
+  it('should render the caption and each row as header/value pairs', () => {
+    const { tables } = extractTables(TER_ANNEXURE);
+
+    expect(renderTable(tables[0]).split('\n')).toEqual([
+      'Table 1: TER slabs for equity oriented schemes',
+      'Daily net assets: First Rs. 500 crore | Maximum TER: 2.25%',
+      'Daily net assets: Next Rs. 250 crore | Maximum TER: 2.00%',
+      'Daily net assets: Next Rs. 1,250 crore | Maximum TER: 1.75%',
+    ]);
+  });
+
+  it('should fall back to the table id without a caption', () => {
+    expect(renderTable({ id: 'T2', header: ['A'], rows: [['1']] })).toBe('Table T2\nA: 1');
+  });
+});